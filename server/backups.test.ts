@@ -0,0 +1,205 @@
+// backups.test.ts
+import os from "node:os";
+import fs from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import database, { type Database } from "better-sqlite3";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import { OpenRouterAPIWatcher } from "./watcher.js";
+import { httpServer } from "./httpServer.js";
+import {
+  DEFAULT_RETENTION,
+  backupDatabaseSync,
+  backupFileName,
+  checkIntegrity,
+  expiredBackups,
+  parseRetention,
+  restoreDatabase,
+} from "./backups.js";
+import type { DatabaseBackup, ModelDiff } from "../shared/global";
+
+describe("backups", () => {
+  let watcher: OpenRouterAPIWatcher;
+  let db: Database;
+  let dataDir: string;
+  let backupDir: string;
+
+  const change: ModelDiff = {
+    id: "openai/gpt-4o",
+    type: "changed",
+    changes: { "pricing.prompt": { old: "0.00001", new: "0.000005", op: "edited" } },
+    timestamp: "2024-05-14T00:00:00.000Z",
+  };
+
+  const newWatcher = (backupRetention?: string) =>
+    new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir,
+      quarantineDir: path.join(dataDir, "quarantine"),
+      logFilePath: "",
+      dbFilePath: path.join(dataDir, "orw.db"),
+      backupRetention,
+      fixedModelList: [],
+    });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "vitest-backups"));
+    backupDir = path.join(dataDir, "backup");
+
+    // Silence console output
+    console.log = vi.fn();
+    console.error = vi.fn();
+    db = new database(":memory:");
+    watcher = newWatcher();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+    fs.rmSync(dataDir, { recursive: true });
+  });
+
+  test("should parse retention policies", () => {
+    expect(parseRetention(DEFAULT_RETENTION)).toEqual({
+      hourly: 24,
+      daily: 30,
+      monthly: Infinity,
+    });
+    expect(parseRetention(" daily = 7 ")).toEqual({ hourly: 0, daily: 7, monthly: 0 });
+    expect(() => parseRetention("weekly=4")).toThrow('Invalid backup retention rule "weekly=4"');
+    expect(() => parseRetention("daily=-1")).toThrow();
+  });
+
+  test("should keep the newest backup of the most recent periods", () => {
+    // Backups every 6 hours over three months, newest first
+    const backups: DatabaseBackup[] = [];
+    for (let time = Date.UTC(2024, 4, 14, 18); time >= Date.UTC(2024, 2, 1); time -= 21_600_000) {
+      const timestamp = new Date(time);
+      backups.push({
+        name: backupFileName("orw.db", timestamp),
+        timestamp: timestamp.toISOString(),
+        size: 0,
+      });
+    }
+
+    const expired = expiredBackups(backups, { hourly: 2, daily: 2, monthly: Infinity });
+    const kept = backups.filter((backup) => !expired.includes(backup));
+
+    expect(kept.map((backup) => backup.timestamp)).toEqual([
+      "2024-05-14T18:00:00.000Z", // newest, hourly, daily and monthly
+      "2024-05-14T12:00:00.000Z", // hourly
+      "2024-05-13T18:00:00.000Z", // daily
+      "2024-04-30T18:00:00.000Z", // monthly
+      "2024-03-31T18:00:00.000Z", // monthly
+    ]);
+    expect(expiredBackups(backups.slice(0, 1), { hourly: 0, daily: 0, monthly: 0 })).toEqual([]);
+  });
+
+  test("should report problems of damaged databases", async () => {
+    const filePath = path.join(dataDir, "damaged.db");
+    await db.backup(filePath);
+    expect(checkIntegrity(filePath)).toEqual([]);
+
+    fs.writeFileSync(filePath, "not a database");
+    expect(checkIntegrity(filePath)).toEqual([expect.stringContaining("file is not a database")]);
+  });
+
+  test("should create verified timestamped backups and remove expired ones", async () => {
+    watcher = newWatcher("hourly=1");
+
+    const first = await watcher.backupDb();
+    expect(first!.name).toMatch(/^orw\.db\.\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z\.backup$/);
+    expect(watcher.listBackups()).toEqual([first]);
+    expect(await watcher.backupDb(true)).toBeUndefined();
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await watcher.backupDb();
+
+    // Only the newest backup of the current hour is kept, it is the only one served gzipped
+    expect(watcher.listBackups()).toEqual([second]);
+    expect(watcher.getDbBackupPath).toBe(path.join(backupDir, second!.name));
+    expect(fs.readdirSync(backupDir).sort()).toEqual([second!.name, `${second!.name}.gz`]);
+  });
+
+  test("should never expire labelled backups", async () => {
+    watcher = newWatcher("hourly=1");
+    const labelled = backupDatabaseSync(db, backupDir, "orw.db", "pre-migration-v7");
+    expect(labelled.name).toMatch(/^orw\.db\..*Z\.pre-migration-v7\.backup$/);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const first = await watcher.backupDb();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await watcher.backupDb();
+
+    expect(watcher.listBackups()).toEqual([second, labelled]);
+    expect(first!.name).not.toBe(second!.name);
+  });
+
+  test("should serve the newest unlabelled backup for bootstrapping after a migration", async () => {
+    const labelled = backupDatabaseSync(db, backupDir, "orw.db", "pre-migration-v8");
+
+    // The backup before the migration doesn't replace the initial backup
+    const initial = await watcher.backupDb(true);
+    expect(initial).toBeDefined();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    backupDatabaseSync(db, backupDir, "orw.db", "pre-migration-v9");
+    expect(await watcher.backupDb(true)).toBeUndefined();
+    expect(watcher.listBackups()).toHaveLength(3);
+    expect(watcher.getDbBackupPath).toBe(path.join(backupDir, initial!.name));
+    expect(labelled.name).not.toBe(initial!.name);
+
+    const server = new httpServer({ watcher, dataDir, cacheDir: path.join(dataDir, "cache") });
+    const request = { method: "GET", url: "/orw.db.gz", headers: {} } as IncomingMessage;
+    const response = {
+      setHeader: vi.fn(),
+      statusCode: 0,
+      write: vi.fn(),
+      end: vi.fn(),
+    } as unknown as ServerResponse;
+    await server.requestCallback(request, response);
+    expect(response.statusCode).toBe(200);
+  });
+
+  test("should keep previous backups if a backup fails the integrity check", async () => {
+    const first = await watcher.backupDb();
+    vi.spyOn(db, "backup").mockImplementation(async (destination) => {
+      fs.writeFileSync(destination, "damaged");
+      return { totalPages: 1, remainingPages: 0 };
+    });
+
+    await expect(watcher.backupDb()).rejects.toThrow("failed the integrity check");
+    expect(watcher.listBackups()).toEqual([first]);
+    expect(fs.readdirSync(backupDir).sort()).toEqual([first!.name, `${first!.name}.gz`]);
+  });
+
+  test("should restore a backup after backing up the current state", async () => {
+    watcher.storeChanges([change]);
+    const backup = await watcher.backupDb();
+    watcher.storeChanges([{ ...change, timestamp: "2024-05-15T00:00:00.000Z" }]);
+    watcher.loadLists();
+    expect(watcher.getLists.changes).toHaveLength(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const previous = await watcher.restoreBackup(backup!.name);
+
+    expect(watcher.getLists.changes).toEqual([change]);
+    // The restored backup expired, the newest backup of the hour keeps the previous state
+    expect(watcher.listBackups()).toEqual([previous]);
+    await expect(watcher.restoreBackup("orw.db.backup")).rejects.toThrow(
+      "Unknown backup: orw.db.backup"
+    );
+  });
+
+  test("should pass the messages of migrating the restored backup to the given log", () => {
+    const emptyPath = path.join(dataDir, "empty.db");
+    new database(emptyPath).close();
+    const log = vi.fn();
+    vi.mocked(console.log).mockClear();
+
+    restoreDatabase(db, emptyPath, log);
+
+    expect(log).toHaveBeenCalledWith("Creating migrations table");
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
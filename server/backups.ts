@@ -0,0 +1,216 @@
+// backups.ts
+import fs from "node:fs";
+import path from "node:path";
+import database, { type Database } from "better-sqlite3";
+import type { DatabaseBackup } from "../shared/global";
+import { runMigrations } from "./db-migration.js";
+
+/**
+ * Represents how many backups are kept, every count keeps the newest backup of that many
+ * most recent hours, days or months that have backups.
+ */
+export interface RetentionPolicy {
+  hourly: number;
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * Default retention, keep hourly backups for a day, daily for a month and monthly forever.
+ */
+export const DEFAULT_RETENTION = "hourly=24,daily=30,monthly=all";
+
+/**
+ * Extracts the period of a backup timestamp for each retention rule, timestamps are UTC.
+ */
+const retentionPeriods: { [rule in keyof RetentionPolicy]: (timestamp: string) => string } = {
+  hourly: (timestamp) => timestamp.slice(0, 13),
+  daily: (timestamp) => timestamp.slice(0, 10),
+  monthly: (timestamp) => timestamp.slice(0, 7),
+};
+
+/**
+ * Parses a retention policy expression of comma separated rules, unlisted rules keep nothing.
+ * @example `"hourly=24,daily=30,monthly=all"`, `"daily=7"`
+ * @param expression - The retention policy expression.
+ * @returns - The parsed retention policy, `all` becomes Infinity.
+ */
+export function parseRetention(expression: string): RetentionPolicy {
+  const policy: RetentionPolicy = { hourly: 0, daily: 0, monthly: 0 };
+  for (const rule of expression.split(",")) {
+    const match = rule.trim().match(/^(hourly|daily|monthly)\s*=\s*(\d+|all)$/);
+    if (!match) {
+      throw new Error(`Invalid backup retention rule "${rule.trim()}", expected e.g. "daily=30"`);
+    }
+    policy[match[1] as keyof RetentionPolicy] =
+      match[2] === "all" ? Infinity : parseInt(match[2], 10);
+  }
+  return policy;
+}
+
+/**
+ * Matches the part of backup file names after the database name, with timestamp and optional label.
+ */
+const BACKUP_NAME_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2}\.\d{3}Z)(?:\.([\w-]+))?\.backup$/;
+
+/**
+ * Builds the file name of a backup, colons are not allowed in file names everywhere.
+ * @param dbName - The file name of the database, e.g. `orw.db`.
+ * @param timestamp - The time of the backup.
+ * @param label - Label of backups exempt from the retention policy, e.g. `pre-migration-v8`.
+ * @returns - The file name, e.g. `orw.db.2024-05-14T12-00-00.000Z.backup`.
+ */
+export const backupFileName = (dbName: string, timestamp: Date, label?: string): string =>
+  `${dbName}.${timestamp.toISOString().replace(/:/g, "-")}${label ? `.${label}` : ""}.backup`;
+
+/**
+ * Lists the backups of a database, incomplete backups are not listed.
+ * @param backupDir - The backup directory.
+ * @param dbName - The file name of the database, e.g. `orw.db`.
+ * @returns - The backups, newest first.
+ */
+export const listBackups = (backupDir: string, dbName: string): DatabaseBackup[] => {
+  if (!fs.existsSync(backupDir)) {
+    return [];
+  }
+  const prefix = `${dbName}.`;
+  const backups: DatabaseBackup[] = [];
+  for (const name of fs.readdirSync(backupDir)) {
+    const match = name.startsWith(prefix) && name.slice(prefix.length).match(BACKUP_NAME_PATTERN);
+    if (!match) {
+      continue;
+    }
+    backups.push({
+      name,
+      timestamp: `${match[1]}:${match[2]}:${match[3]}`,
+      size: fs.statSync(path.join(backupDir, name)).size,
+      ...(match[4] ? { label: match[4] } : {}),
+    });
+  }
+  return backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Selects the backups that are not covered by the retention policy, the newest backup is always kept.
+ * Labelled backups never expire and are not counted.
+ * @param allBackups - The backups, newest first.
+ * @param policy - The retention policy.
+ * @returns - The expired backups.
+ */
+export const expiredBackups = (
+  allBackups: DatabaseBackup[],
+  policy: RetentionPolicy
+): DatabaseBackup[] => {
+  const backups = allBackups.filter((backup) => !backup.label);
+  const keep = new Set(backups.slice(0, 1));
+  for (const [rule, period] of Object.entries(retentionPeriods)) {
+    const count = policy[rule as keyof RetentionPolicy];
+    const periods = new Set<string>();
+    for (const backup of backups) {
+      const key = period(backup.timestamp);
+      if (!periods.has(key)) {
+        if (periods.size >= count) {
+          break;
+        }
+        periods.add(key);
+        keep.add(backup);
+      }
+    }
+  }
+  return backups.filter((backup) => !keep.has(backup));
+};
+
+/**
+ * Backups a database synchronously with `VACUUM INTO` and verifies the backup, e.g. before migrations.
+ * @param db - The database.
+ * @param backupDir - The backup directory, it gets created if necessary.
+ * @param dbName - The file name of the database, e.g. `orw.db`.
+ * @param label - The label of the backup, labelled backups are exempt from the retention policy.
+ * @returns - The backup.
+ */
+export const backupDatabaseSync = (
+  db: Database,
+  backupDir: string,
+  dbName: string,
+  label: string
+): DatabaseBackup => {
+  fs.mkdirSync(backupDir, { recursive: true });
+  const timestamp = new Date();
+  const name = backupFileName(dbName, timestamp, label);
+  const filePath = path.join(backupDir, name);
+  db.prepare("VACUUM INTO ?").run(`${filePath}.tmp`);
+  const problems = checkIntegrity(`${filePath}.tmp`);
+  if (problems.length > 0) {
+    fs.unlinkSync(`${filePath}.tmp`);
+    throw new Error(`Database backup failed the integrity check: ${problems.join(", ")}`);
+  }
+  fs.renameSync(`${filePath}.tmp`, filePath);
+  return { name, timestamp: timestamp.toISOString(), size: fs.statSync(filePath).size, label };
+};
+
+/**
+ * Checks a database file with `PRAGMA integrity_check`.
+ * @param filePath - The path of the database file.
+ * @returns - The problems found, empty for intact databases.
+ */
+export const checkIntegrity = (filePath: string): string[] => {
+  try {
+    const db = new database(filePath, { readonly: true, fileMustExist: true });
+    try {
+      const results = db.pragma("integrity_check", { simple: false }) as {
+        integrity_check: string;
+      }[];
+      return results.map((row) => row.integrity_check).filter((result) => result !== "ok");
+    } finally {
+      db.close();
+    }
+  } catch (err) {
+    return [`${err}`];
+  }
+};
+
+/**
+ * Replaces the content of all tables with the content of a backup in one transaction.
+ * The migration history of the database is kept.
+ * @param db - The database to restore.
+ * @param filePath - The path of a copy of the backup, it gets migrated to the current schema.
+ * @param log - Receives the messages of the migration, discarded by default.
+ */
+export const restoreDatabase = (
+  db: Database,
+  filePath: string,
+  log: (message: string) => void = () => {}
+) => {
+  // Older backups lack tables and columns
+  const restoreDb = new database(filePath);
+  try {
+    runMigrations(restoreDb, { log });
+  } finally {
+    restoreDb.close();
+  }
+
+  db.prepare("ATTACH DATABASE ? AS restored").run(filePath);
+  try {
+    db.transaction(() => {
+      const tables = db
+        .prepare(
+          `SELECT name FROM main.sqlite_master
+          WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'migrations'`
+        )
+        .pluck()
+        .all() as string[];
+      for (const table of tables) {
+        const columns = (db.pragma(`main.table_info("${table}")`) as { name: string }[])
+          .map((column) => `"${column.name}"`)
+          .join(", ");
+        db.exec(`DELETE FROM main."${table}"`);
+        db.exec(
+          `INSERT INTO main."${table}" (${columns}) SELECT ${columns} FROM restored."${table}"`
+        );
+      }
+    })();
+  } finally {
+    db.prepare("DETACH DATABASE restored").run();
+  }
+};
@@ -0,0 +1,325 @@
+// cli.test.ts
+import os from "node:os";
+import fs from "node:fs";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import database from "better-sqlite3";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { runMigrations } from "./db-migration";
+import migrations from "./migrations/migrations";
+import {
+  EXIT_CHANGES,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  EXIT_USAGE,
+  formatTable,
+  isCommand,
+  runCLI,
+  runMigrationCLI,
+} from "./cli";
+
+describe("cli", () => {
+  let watcher: any;
+  let openWatcher: any;
+  let output: { out: any; err: any };
+
+  const model = {
+    id: "openai/gpt-4o",
+    name: "OpenAI: GPT-4o",
+    description: "",
+    pricing: { prompt: "0.000005", completion: "0.000015", request: "0", image: "0.007225" },
+    context_length: 128000,
+    architecture: { modality: "text+image->text", tokenizer: "GPT", instruct_type: null },
+    top_provider: { max_completion_tokens: 4096, is_moderated: true },
+    per_request_limits: null,
+    added_at: "2024-05-13T00:00:00.000Z",
+  };
+
+  const change = {
+    id: "openai/gpt-4o",
+    type: "changed",
+    changes: { "pricing.prompt": { old: "0.00001", new: "0.000005", op: "edited" } },
+    timestamp: "2024-05-14T00:00:00.000Z",
+  };
+
+  const backup = {
+    name: "orw.db.2024-05-14T12-00-00.000Z.backup",
+    timestamp: "2024-05-14T12:00:00.000Z",
+    size: 2_097_152,
+  };
+
+  beforeEach(() => {
+    watcher = {
+      getLists: { models: [model], removed: [], changes: [change] },
+      getDbBackupPath: "/data/backup/orw.db.backup",
+      loadModelHistory: vi.fn(),
+      queryChanges: vi.fn(() => ({ changes: [change], nextCursor: null })),
+      diffSnapshots: vi.fn(),
+      backupDb: vi.fn(() => Promise.resolve(backup)),
+      listBackups: vi.fn(() => [backup]),
+      restoreBackup: vi.fn(() => Promise.resolve({ ...backup, name: "orw.db.new.backup" })),
+      ready: vi.fn(() => Promise.resolve()),
+      runOnce: vi.fn(),
+      importHistory: vi.fn(),
+      exportTable: vi.fn(function* () {
+        yield "id,type\r\n";
+        yield "openai/gpt-4o,changed\r\n";
+      }),
+    };
+    openWatcher = vi.fn(() => watcher);
+    output = { out: vi.fn(), err: vi.fn() };
+  });
+
+  const outText = () => output.out.mock.calls.map((call: string[]) => call[0]).join("\n");
+
+  it("should recognize subcommands", () => {
+    expect(isCommand("models")).toBe(true);
+    expect(isCommand("help")).toBe(true);
+    expect(isCommand("--once")).toBe(false);
+    expect(isCommand("toString")).toBe(false);
+    expect(isCommand(undefined)).toBe(false);
+  });
+
+  it("should format tables with padded columns", () => {
+    expect(formatTable(["ID", "Name"], [["a/very-long-id", "A"]])).toBe(
+      "ID              Name\na/very-long-id  A"
+    );
+  });
+
+  it("should list the commands without opening the database", async () => {
+    expect(await runCLI(["help"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(outText()).toContain("Usage: orw <command> [options]");
+    expect(outText()).toContain("changes");
+    expect(openWatcher).not.toHaveBeenCalled();
+  });
+
+  it("should show the help of a command", async () => {
+    expect(await runCLI(["changes", "--help"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(outText()).toContain("--since <timestamp>");
+    expect(openWatcher).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown commands, options and missing arguments", async () => {
+    expect(await runCLI(["frobnicate"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(await runCLI(["models", "--bogus"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(await runCLI(["show"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(await runCLI(["changes", "--type", "renamed"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(await runCLI(["changes", "--since", "yesterday"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(output.out).not.toHaveBeenCalled();
+  });
+
+  it("should list filtered models as table and as JSON", async () => {
+    expect(await runCLI(["models", "--provider", "openai"], openWatcher, output)).toBe(
+      EXIT_SUCCESS
+    );
+    expect(outText()).toMatch(/^ID\s+Name\s+Context\s+Price\/MT\s+Added\n/);
+    expect(outText()).toContain("openai/gpt-4o  OpenAI: GPT-4o  128000   $15.00");
+
+    output.out.mockClear();
+    await runCLI(["models", "--provider", "anthropic", "--json"], openWatcher, output);
+    expect(JSON.parse(outText())).toEqual([]);
+  });
+
+  it("should fail for unknown models", async () => {
+    expect(await runCLI(["show", "unknown/model"], openWatcher, output)).toBe(EXIT_FAILURE);
+    expect(output.err).toHaveBeenCalledWith("Unknown model: unknown/model");
+  });
+
+  it("should query changes with filters and collect pages up to the limit", async () => {
+    watcher.queryChanges
+      .mockReturnValueOnce({ changes: [change], nextCursor: "next" })
+      .mockReturnValueOnce({ changes: [change], nextCursor: "last" });
+
+    const args = ["changes", "--since", "2024-05-01", "--type", "changed", "--limit", "2"];
+    expect(await runCLI([...args, "--json"], openWatcher, output)).toBe(EXIT_SUCCESS);
+
+    expect(watcher.queryChanges).toHaveBeenNthCalledWith(1, {
+      since: new Date("2024-05-01"),
+      types: ["changed"],
+      cursor: undefined,
+      limit: 2,
+    });
+    expect(watcher.queryChanges).toHaveBeenNthCalledWith(2, {
+      since: new Date("2024-05-01"),
+      types: ["changed"],
+      cursor: "next",
+      limit: 1,
+    });
+    expect(JSON.parse(outText())).toEqual([change, change]);
+  });
+
+  it("should compare the model lists at two points in time", async () => {
+    watcher.diffSnapshots.mockReturnValue({
+      from: { timestamp: "2024-05-01T00:00:00.000Z" },
+      to: { timestamp: "2024-05-14T00:00:00.000Z" },
+      changes: [change],
+    });
+
+    expect(await runCLI(["diff", "2024-05-01", "2024-05-15"], openWatcher, output)).toBe(
+      EXIT_SUCCESS
+    );
+    expect(watcher.diffSnapshots).toHaveBeenCalledWith(
+      new Date("2024-05-01"),
+      new Date("2024-05-15")
+    );
+    expect(outText()).toContain("changed  openai/gpt-4o  pricing.prompt");
+
+    watcher.diffSnapshots.mockReturnValue(undefined);
+    expect(await runCLI(["diff", "2020-01-01", "2024-05-15"], openWatcher, output)).toBe(
+      EXIT_FAILURE
+    );
+  });
+
+  it("should create a backup", async () => {
+    expect(await runCLI(["backup", "--json"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(watcher.backupDb).toHaveBeenCalled();
+    expect(JSON.parse(outText())).toEqual({ path: "/data/backup/orw.db.backup", ...backup });
+  });
+
+  it("should list backups and restore a listed backup", async () => {
+    expect(await runCLI(["backups"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(outText()).toContain(
+      "orw.db.2024-05-14T12-00-00.000Z.backup  2024-05-14T12:00:00.000Z  2.0 MB"
+    );
+
+    output.out.mockClear();
+    expect(await runCLI(["restore", backup.name, "--json"], openWatcher, output)).toBe(
+      EXIT_SUCCESS
+    );
+    expect(watcher.restoreBackup).toHaveBeenCalledWith(backup.name);
+    expect(JSON.parse(outText())).toEqual({ restored: backup.name, previous: "orw.db.new.backup" });
+
+    expect(await runCLI(["restore", "orw.db.backup.prev"], openWatcher, output)).toBe(EXIT_FAILURE);
+    expect(output.err).toHaveBeenCalledWith("Unknown backup: orw.db.backup.prev");
+    expect(watcher.restoreBackup).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stream flat tables to the standard output or a file", async () => {
+    const stream = new PassThrough();
+    const chunks: string[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk.toString()));
+    expect(await runCLI(["export", "--format", "csv"], openWatcher, { ...output, stream })).toBe(
+      EXIT_SUCCESS
+    );
+    expect(watcher.exportTable).toHaveBeenCalledWith("changes", "csv");
+    expect(chunks.join("")).toBe("id,type\r\nopenai/gpt-4o,changed\r\n");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vitest-cli"));
+    const file = path.join(dir, "models.jsonl");
+    try {
+      const args = ["export", "--format", "jsonl", "--table", "models", "--output", file];
+      expect(await runCLI(args, openWatcher, output)).toBe(EXIT_SUCCESS);
+      expect(watcher.exportTable).toHaveBeenLastCalledWith("models", "jsonl");
+      expect(fs.readFileSync(file, "utf8")).toBe("id,type\r\nopenai/gpt-4o,changed\r\n");
+      expect(outText()).toBe(`Exported models as jsonl to ${file}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+
+    expect(await runCLI(["export", "--format", "parquet"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(
+      await runCLI(["export", "--format", "csv", "--table", "runs"], openWatcher, output)
+    ).toBe(EXIT_USAGE);
+  });
+
+  it("should report the merged history of an import", async () => {
+    const tables = {
+      changes: { rows: 3, imported: 1, duplicates: 1, nearDuplicates: 0, conflicts: 1 },
+      added: { rows: 1, imported: 1, duplicates: 0, nearDuplicates: 0, conflicts: 0 },
+      removed: { rows: 0, imported: 0, duplicates: 0, nearDuplicates: 0, conflicts: 0 },
+    };
+    const conflicts = [{ table: "changes", id: "openai/gpt-4o", timestamp: change.timestamp }];
+    watcher.importHistory.mockResolvedValue({
+      source: "remote.db.gz",
+      tables,
+      conflicts,
+      nearDuplicates: [],
+    });
+
+    expect(await runCLI(["import", "remote.db.gz"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(watcher.ready).toHaveBeenCalled();
+    expect(watcher.importHistory).toHaveBeenCalledWith("remote.db.gz", 0);
+    expect(outText()).toContain("changes  3     1         1           0                1");
+    expect(outText()).toContain("changes  openai/gpt-4o  2024-05-14T00:00:00.000Z");
+
+    expect(await runCLI(["import", "remote.db.gz", "--window", "10m"], openWatcher, output)).toBe(
+      EXIT_SUCCESS
+    );
+    expect(watcher.importHistory).toHaveBeenLastCalledWith("remote.db.gz", 600_000);
+
+    expect(await runCLI(["import"], openWatcher, output)).toBe(EXIT_USAGE);
+    expect(await runCLI(["import", "remote.db.gz", "--window", "soon"], openWatcher, output)).toBe(
+      EXIT_USAGE
+    );
+  });
+
+  it("should report the result of a check with its exit code", async () => {
+    const run = { id: 7, startedAt: "", finishedAt: "", status: "success", modelCount: 1 };
+    watcher.runOnce.mockResolvedValue({ ...run, changeCount: 0, changes: [] });
+    expect(await runCLI(["check"], openWatcher, output)).toBe(EXIT_SUCCESS);
+    expect(watcher.ready).toHaveBeenCalled();
+    expect(watcher.runOnce).toHaveBeenCalledWith(0);
+    expect(outText()).toBe("Check run #7 success: 1 models, 0 changes");
+
+    output.out.mockClear();
+    watcher.runOnce.mockResolvedValue({ ...run, changeCount: 1, changes: [change] });
+    expect(await runCLI(["check"], openWatcher, output)).toBe(EXIT_CHANGES);
+    expect(outText()).toContain("Check run #7 success: 1 models, 1 changes\n\nTimestamp");
+    expect(outText()).toContain("changed  openai/gpt-4o  pricing.prompt");
+
+    output.out.mockClear();
+    watcher.runOnce.mockResolvedValue({ ...run, status: "failed", changeCount: 0, changes: [] });
+    expect(await runCLI(["check", "--json"], openWatcher, output)).toBe(EXIT_FAILURE);
+    expect(JSON.parse(outText())).toMatchObject({ id: 7, status: "failed", changes: [] });
+
+    expect(await runCLI(["check", "--retries", "3"], openWatcher, output)).toBe(EXIT_FAILURE);
+    expect(watcher.runOnce).toHaveBeenLastCalledWith(3);
+    expect(await runCLI(["check", "--retries", "-1"], openWatcher, output)).toBe(EXIT_USAGE);
+  });
+
+  it("should show, try and roll back database migrations", () => {
+    const db = new database(":memory:");
+    const createBackup = vi.fn(() => ({ ...backup, label: "pre-rollback-v7" }));
+    try {
+      runMigrations(db, { migrations: migrations.slice(0, 7), log: () => {} });
+
+      expect(runMigrationCLI(["--migrate-status", "--json"], db, createBackup, output)).toBe(
+        EXIT_SUCCESS
+      );
+      expect(JSON.parse(outText()).map((migration: any) => migration.applied)).toEqual([
+        ...Array(7).fill(true),
+        false,
+        false,
+        false,
+      ]);
+
+      output.out.mockClear();
+      expect(runMigrationCLI(["--migrate-dry-run"], db, createBackup, output)).toBe(EXIT_SUCCESS);
+      expect(outText()).toMatch(/^8 +Create webhook_outbox and webhook_deliveries tables +ok$/m);
+
+      output.out.mockClear();
+      expect(runMigrationCLI(["--migrate-rollback", "6"], db, createBackup, output)).toBe(
+        EXIT_SUCCESS
+      );
+      expect(createBackup).toHaveBeenCalledWith("pre-rollback-v7");
+      expect(outText()).toBe("Rolled back migrations 7, the database is at version 6");
+
+      expect(runMigrationCLI(["--migrate-rollback", "1"], db, createBackup, output)).toBe(
+        EXIT_FAILURE
+      );
+      expect(runMigrationCLI(["--migrate-rollback", "latest"], db, createBackup, output)).toBe(
+        EXIT_USAGE
+      );
+    } finally {
+      db.close();
+    }
+  });
+
+  it("should report errors opening the database", async () => {
+    openWatcher.mockImplementation(() => {
+      throw "database data/orw.db not found";
+    });
+    expect(await runCLI(["removed"], openWatcher, output)).toBe(EXIT_FAILURE);
+    expect(output.err).toHaveBeenCalledWith("Error: database data/orw.db not found");
+  });
+});
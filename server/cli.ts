@@ -0,0 +1,793 @@
+// cli.ts
+import fs from "node:fs";
+import process from "node:process";
+import type { Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+import { parseArgs } from "node:util";
+import type { Database } from "better-sqlite3";
+import type { DatabaseBackup, Model, ModelChangeType, ModelDiff } from "../shared/global";
+import { VERSION } from "../shared/constants.js";
+import type { ChangesQuery, OpenRouterAPIWatcher } from "./watcher.js";
+import {
+  dryRunMigrations,
+  getCurrentVersion,
+  getMigrationStatus,
+  rollbackMigrations,
+} from "./db-migration.js";
+import {
+  EXPORT_FORMATS,
+  EXPORT_TABLES,
+  isExportFormat,
+  isExportTable,
+  writeLines,
+} from "./export.js";
+import { parseDuration } from "./schedule.js";
+
+/** Exit code for success. */
+export const EXIT_SUCCESS = 0;
+/** Exit code for failures, e.g. unknown models or failed checks. */
+export const EXIT_FAILURE = 1;
+/** Exit code for invalid command lines. */
+export const EXIT_USAGE = 2;
+/** Exit code for successful checks that detected changes. */
+export const EXIT_CHANGES = 3;
+
+/**
+ * The parts of the watcher used by the command-line interface.
+ */
+export type CLIWatcher = Pick<
+  OpenRouterAPIWatcher,
+  | "getLists"
+  | "getDbBackupPath"
+  | "loadModelHistory"
+  | "queryChanges"
+  | "diffSnapshots"
+  | "backupDb"
+  | "listBackups"
+  | "restoreBackup"
+  | "ready"
+  | "runOnce"
+  | "exportTable"
+  | "importHistory"
+>;
+
+/**
+ * Receives the output of the command-line interface, console by default.
+ */
+export interface CLIOutput {
+  /** Receives regular output, e.g. tables and JSON. */
+  out: (text: string) => void;
+  /** Receives error messages. */
+  err: (text: string) => void;
+  /** Receives streamed exports, standard output by default. */
+  stream?: Writable;
+}
+
+/**
+ * Values of the parsed command-line options.
+ */
+type OptionValues = { [name: string]: string | boolean | undefined };
+
+/**
+ * Represents a subcommand of the command-line interface.
+ */
+interface Command {
+  /** Arguments and options shown in the usage line. */
+  usage: string;
+  /** One line description shown in the command list. */
+  description: string;
+  /** Lines describing the options, shown by `--help`. */
+  help: string[];
+  /** Options taking a value, `--json` and `--help` are always available. */
+  options: string[];
+  /** Number of required positional arguments. */
+  positionals: number;
+  /** Runs the command and returns the exit code. */
+  run: (
+    watcher: CLIWatcher,
+    values: OptionValues,
+    positionals: string[],
+    output: CLIOutput
+  ) => number | Promise<number>;
+}
+
+/**
+ * Thrown for invalid arguments, reported with the usage of the command.
+ */
+class UsageError extends Error {}
+
+/**
+ * Formats rows as a table with padded columns.
+ * @param headers - The column headers.
+ * @param rows - The rows of the table.
+ * @returns - The formatted table.
+ */
+export const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...rows.map((row) => row[index]?.length ?? 0))
+  );
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index])))
+        .join("  ")
+    )
+    .join("\n");
+};
+
+/**
+ * Formats a price per token as dollars per million tokens.
+ * @param price - The price as a string.
+ * @returns - The formatted price, negative prices (e.g. for openrouter/auto) are not applicable.
+ */
+const pricePerMillion = (price: string): string => {
+  const value = parseFloat(price);
+  if (isNaN(value) || value < 0) {
+    return "n/a";
+  }
+  return value === 0 ? "free" : `$${(value * 1_000_000).toFixed(2)}`;
+};
+
+/**
+ * Parses a timestamp argument.
+ * @param value - The timestamp, e.g. `2024-06-01` or `2024-06-01T12:00:00Z`.
+ * @param name - The name of the argument for the error message.
+ * @returns - The parsed date.
+ * @throws - A UsageError if the timestamp is invalid.
+ */
+const parseDate = (value: string, name: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`Invalid timestamp for ${name}: ${value}`);
+  }
+  return date;
+};
+
+/**
+ * Lists the changed fields of a change.
+ * @param change - The change.
+ * @returns - The changed fields separated by commas, empty for added and removed models.
+ */
+const changedFields = (change: ModelDiff): string =>
+  change.type === "changed" ? Object.keys(change.changes ?? {}).join(", ") : "";
+
+/**
+ * Formats changes as a table.
+ * @param changes - The changes.
+ * @returns - The formatted table.
+ */
+const changesTable = (changes: ModelDiff[]): string =>
+  formatTable(
+    ["Timestamp", "Type", "ID", "Fields"],
+    changes.map((change) => [change.timestamp, change.type, change.id, changedFields(change)])
+  );
+
+/**
+ * Formats models as a table.
+ * @param models - The models.
+ * @param timestamp - The column with the timestamp of the addition or removal.
+ * @returns - The formatted table.
+ */
+const modelsTable = (models: Model[], timestamp: "added_at" | "removed_at"): string =>
+  formatTable(
+    ["ID", "Name", "Context", "Price/MT", timestamp === "added_at" ? "Added" : "Removed"],
+    models.map((model) => [
+      model.id,
+      model.name,
+      model.context_length.toString(),
+      pricePerMillion(model.pricing.completion),
+      model[timestamp] ?? "",
+    ])
+  );
+
+/**
+ * All subcommands of the command-line interface.
+ */
+const commands: { [name: string]: Command } = {
+  models: {
+    usage:
+      "models [--provider <name>] [--modality <modality>] [--min-context <tokens>] [--filter <text>]",
+    description: "list the active models",
+    help: [
+      "--provider <name>       only models of this provider, e.g. anthropic",
+      "--modality <modality>   only models with this modality, e.g. text->text",
+      "--min-context <tokens>  only models with at least this context length",
+      "--filter <text>         only models with this text in their ID or name",
+    ],
+    options: ["provider", "modality", "min-context", "filter"],
+    positionals: 0,
+    run: (watcher, values, _positionals, output) => {
+      const minContext = parseInt((values["min-context"] as string) ?? "0", 10);
+      if (isNaN(minContext)) {
+        throw new UsageError(`Invalid context length: ${values["min-context"]}`);
+      }
+      const text = ((values.filter as string) ?? "").toLowerCase();
+      const models = watcher.getLists.models.filter(
+        (model) =>
+          (!values.provider || model.id.startsWith(`${values.provider}/`)) &&
+          (!values.modality || model.architecture.modality === values.modality) &&
+          model.context_length >= minContext &&
+          `${model.id}\n${model.name}`.toLowerCase().includes(text)
+      );
+      output.out(values.json ? JSON.stringify(models, null, 2) : modelsTable(models, "added_at"));
+      return EXIT_SUCCESS;
+    },
+  },
+  show: {
+    usage: "show <model id>",
+    description: "show a model with its timeline and changes",
+    help: [],
+    options: [],
+    positionals: 1,
+    run: (watcher, values, [id], output) => {
+      const history = watcher.loadModelHistory(id);
+      if (!history) {
+        output.err(`Unknown model: ${id}`);
+        return EXIT_FAILURE;
+      }
+      if (values.json) {
+        output.out(JSON.stringify(history, null, 2));
+        return EXIT_SUCCESS;
+      }
+      const { model } = history;
+      output.out(
+        [
+          formatTable(
+            ["ID", model.id],
+            [
+              ["Name", model.name],
+              ["Status", history.removed ? `removed at ${model.removed_at}` : "active"],
+              ["Context", model.context_length.toString()],
+              ["Input/MT", pricePerMillion(model.pricing.prompt)],
+              ["Output/MT", pricePerMillion(model.pricing.completion)],
+              ["Modality", model.architecture.modality],
+              ["Tokenizer", model.architecture.tokenizer],
+              ["Instruct", model.architecture.instruct_type ?? ""],
+            ]
+          ),
+          "",
+          formatTable(
+            ["Timestamp", "Event"],
+            history.timeline.map((entry) => [entry.timestamp, entry.type])
+          ),
+          "",
+          changesTable(history.changes),
+        ].join("\n")
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  changes: {
+    usage:
+      "changes [--since <timestamp>] [--until <timestamp>] [--type <types>] [--id <glob>] [--field <glob>] [--limit <n>]",
+    description: "list the recorded changes, newest first",
+    help: [
+      "--since <timestamp>  only changes at or after this time",
+      "--until <timestamp>  only changes before this time",
+      "--type <types>       comma separated change types (added, removed, changed)",
+      "--id <glob>          only changes of model ids matching this glob, e.g. 'openai/*'",
+      "--field <glob>       only changes of fields matching this glob, e.g. 'pricing.*'",
+      "--limit <n>          the maximum number of changes, 100 by default",
+    ],
+    options: ["since", "until", "type", "id", "field", "limit"],
+    positionals: 0,
+    run: (watcher, values, _positionals, output) => {
+      const query: ChangesQuery = {};
+      if (values.since) {
+        query.since = parseDate(values.since as string, "--since");
+      }
+      if (values.until) {
+        query.until = parseDate(values.until as string, "--until");
+      }
+      if (values.type) {
+        query.types = (values.type as string).split(",") as ModelChangeType[];
+        if (!query.types.every((type) => ["added", "removed", "changed"].includes(type))) {
+          throw new UsageError(`Invalid change type: ${values.type}`);
+        }
+      }
+      if (values.id) {
+        query.id = values.id as string;
+      }
+      if (values.field) {
+        query.field = values.field as string;
+      }
+      const limit = parseInt((values.limit as string) ?? "100", 10);
+      if (!(limit > 0)) {
+        throw new UsageError(`Invalid limit: ${values.limit}`);
+      }
+      // Pages are limited in size, continue until enough changes are collected
+      const changes: ModelDiff[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = watcher.queryChanges({ ...query, cursor, limit: limit - changes.length });
+        changes.push(...page.changes);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor && changes.length < limit);
+      output.out(values.json ? JSON.stringify(changes, null, 2) : changesTable(changes));
+      return EXIT_SUCCESS;
+    },
+  },
+  removed: {
+    usage: "removed",
+    description: "list the removed models, newest first",
+    help: [],
+    options: [],
+    positionals: 0,
+    run: (watcher, values, _positionals, output) => {
+      const removed = watcher.getLists.removed;
+      output.out(
+        values.json ? JSON.stringify(removed, null, 2) : modelsTable(removed, "removed_at")
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  diff: {
+    usage: "diff <timestamp> <timestamp>",
+    description: "compare the model lists current at two points in time",
+    help: [],
+    options: [],
+    positionals: 2,
+    run: (watcher, values, [from, to], output) => {
+      const result = watcher.diffSnapshots(parseDate(from, "from"), parseDate(to, "to"));
+      if (!result) {
+        output.err(`No model list known at ${from}`);
+        return EXIT_FAILURE;
+      }
+      const summary = {
+        from: result.from.timestamp,
+        to: result.to.timestamp,
+        changes: result.changes,
+      };
+      output.out(
+        values.json
+          ? JSON.stringify(summary, null, 2)
+          : `Model list of ${summary.from} compared to ${summary.to}:\n\n` +
+              formatTable(
+                ["Type", "ID", "Fields"],
+                result.changes.map((change) => [change.type, change.id, changedFields(change)])
+              )
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  backup: {
+    usage: "backup",
+    description: "create a database backup",
+    help: [],
+    options: [],
+    positionals: 0,
+    run: async (watcher, values, _positionals, output) => {
+      const backup = await watcher.backupDb();
+      const backupPath = watcher.getDbBackupPath;
+      if (!backup || !backupPath) {
+        output.err("No backup directory configured");
+        return EXIT_FAILURE;
+      }
+      output.out(
+        values.json
+          ? JSON.stringify({ path: backupPath, ...backup })
+          : `Database backup written to ${backupPath}`
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  backups: {
+    usage: "backups",
+    description: "list the database backups kept by the retention policy",
+    help: [],
+    options: [],
+    positionals: 0,
+    run: (watcher, values, _positionals, output) => {
+      const backups = watcher.listBackups();
+      output.out(
+        values.json
+          ? JSON.stringify(backups, null, 2)
+          : formatTable(
+              ["Name", "Timestamp", "Size"],
+              backups.map((backup) => [
+                backup.name,
+                backup.timestamp,
+                `${(backup.size / 1_048_576).toFixed(1)} MB`,
+              ])
+            )
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  restore: {
+    usage: "restore <backup name>",
+    description: "restore the database from a backup, the current state gets backed up first",
+    help: [],
+    options: [],
+    positionals: 1,
+    run: async (watcher, values, [name], output) => {
+      if (!watcher.listBackups().some((backup) => backup.name === name)) {
+        output.err(`Unknown backup: ${name}`);
+        return EXIT_FAILURE;
+      }
+      const previous = await watcher.restoreBackup(name);
+      output.out(
+        values.json
+          ? JSON.stringify({ restored: name, previous: previous?.name ?? null })
+          : `Restored database from ${name}, the previous state is kept as ${previous?.name}`
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  export: {
+    usage: "export [--format <format>] [--table <table>] [--output <file>]",
+    description:
+      "export the model lists and all changes as JSON, or a single table as CSV or JSONL",
+    help: [
+      `--format <format>  ${["json", ...EXPORT_FORMATS].join(", ")} (default: json)`,
+      `--table <table>    ${EXPORT_TABLES.join(", ")}, for csv and jsonl (default: changes)`,
+      "--output <file>    write to this file instead of the standard output",
+    ],
+    options: ["format", "table", "output"],
+    positionals: 0,
+    run: async (watcher, values, _positionals, output) => {
+      const format = (values.format as string | undefined) ?? "json";
+      if (format !== "json" && !isExportFormat(format)) {
+        throw new UsageError(`Invalid format: ${format}`);
+      }
+      const table = (values.table as string | undefined) ?? "changes";
+      if (!isExportTable(table)) {
+        throw new UsageError(`Invalid table: ${table}`);
+      }
+      if (format !== "json") {
+        // Flat tables are streamed, the history can be larger than the memory
+        const stream = values.output
+          ? fs.createWriteStream(values.output as string)
+          : (output.stream ?? process.stdout);
+        await writeLines(watcher.exportTable(table, format), stream);
+        if (values.output) {
+          stream.end();
+          await finished(stream);
+          output.out(
+            values.json
+              ? JSON.stringify({ path: values.output, table, format })
+              : `Exported ${table} as ${format} to ${values.output}`
+          );
+        }
+        return EXIT_SUCCESS;
+      }
+      const { models, removed, changes } = watcher.getLists;
+      const data = JSON.stringify({ models, removed, changes }, null, 2);
+      if (!values.output) {
+        output.out(data);
+        return EXIT_SUCCESS;
+      }
+      fs.writeFileSync(values.output as string, data);
+      const summary = {
+        path: values.output,
+        models: models.length,
+        removed: removed.length,
+        changes: changes.length,
+      };
+      output.out(
+        values.json
+          ? JSON.stringify(summary)
+          : `Exported ${summary.models} models, ${summary.removed} removed models and ${summary.changes} changes to ${summary.path}`
+      );
+      return EXIT_SUCCESS;
+    },
+  },
+  import: {
+    usage: "import <file or URL> [--window <duration>]",
+    description:
+      "merge the changes, added and removed models of another instance's database backup",
+    help: [
+      "--window <duration>  skip rows with identical content as a local row within this time, e.g. 1h",
+    ],
+    options: ["window"],
+    positionals: 1,
+    run: async (watcher, values, [source], output) => {
+      let window = 0;
+      if (values.window !== undefined) {
+        try {
+          window = parseDuration(values.window as string);
+        } catch {
+          throw new UsageError(`Invalid duration for --window: ${values.window}`);
+        }
+      }
+      await watcher.ready();
+      const report = await watcher.importHistory(source, window);
+      if (values.json) {
+        output.out(JSON.stringify(report, null, 2));
+        return EXIT_SUCCESS;
+      }
+      const lines = [
+        `Imported from ${report.source}:`,
+        "",
+        formatTable(
+          ["Table", "Rows", "Imported", "Duplicates", "Near duplicates", "Conflicts"],
+          Object.entries(report.tables).map(([table, result]) => [
+            table,
+            String(result.rows),
+            String(result.imported),
+            String(result.duplicates),
+            String(result.nearDuplicates),
+            String(result.conflicts),
+          ])
+        ),
+      ];
+      if (report.conflicts.length > 0) {
+        lines.push(
+          "",
+          "Conflicting rows, the local rows were kept:",
+          "",
+          formatTable(
+            ["Table", "ID", "Timestamp"],
+            report.conflicts.map((conflict) => [conflict.table, conflict.id, conflict.timestamp])
+          )
+        );
+      }
+      if (report.nearDuplicates.length > 0) {
+        lines.push(
+          "",
+          "Near duplicates, skipped for a local row with identical content:",
+          "",
+          formatTable(
+            ["Table", "ID", "Timestamp", "Local timestamp"],
+            report.nearDuplicates.map((row) => [
+              row.table,
+              row.id,
+              row.timestamp,
+              row.localTimestamp,
+            ])
+          )
+        );
+      }
+      output.out(lines.join("\n"));
+      return EXIT_SUCCESS;
+    },
+  },
+  check: {
+    usage: "check [--retries <n>]",
+    description: "check the OpenRouter API for changes once and list the detected changes",
+    help: ["--retries <n>  retry a failed API fetch up to n times with backoff, 0 by default"],
+    options: ["retries"],
+    positionals: 0,
+    run: async (watcher, values, _positionals, output) => {
+      const retries = parseInt((values.retries as string) ?? "0", 10);
+      if (!(retries >= 0)) {
+        throw new UsageError(`Invalid number of retries: ${values.retries}`);
+      }
+      // A fresh database gets seeded with the model list first
+      await watcher.ready();
+      const run = await watcher.runOnce(retries);
+      output.out(
+        values.json
+          ? JSON.stringify(run, null, 2)
+          : `Check run #${run.id} ${run.status}: ${run.modelCount} models, ${run.changeCount} changes` +
+              (run.changes.length > 0 ? `\n\n${changesTable(run.changes)}` : "")
+      );
+      if (run.status !== "success") {
+        return EXIT_FAILURE;
+      }
+      return run.changeCount > 0 ? EXIT_CHANGES : EXIT_SUCCESS;
+    },
+  },
+};
+
+/**
+ * Checks whether a command-line argument names a subcommand.
+ * @param name - The first command-line argument.
+ * @returns - True for subcommands and `help`.
+ */
+export const isCommand = (name: string | undefined): boolean =>
+  name !== undefined && (name === "help" || Object.hasOwn(commands, name));
+
+/**
+ * Builds the help text listing all subcommands.
+ * @returns - The help text.
+ */
+const usage = (): string =>
+  [
+    `orw Version ${VERSION}`,
+    "",
+    "Usage: orw <command> [options]",
+    "",
+    "Commands:",
+    ...Object.entries(commands).map(
+      ([name, command]) => `  ${name.padEnd(8)}  ${command.description}`
+    ),
+    "",
+    "All commands accept --json for machine-readable output and --help.",
+    "Without a command, orw runs the watcher with the web server.",
+    "",
+    "Exit codes: 0 success, 1 failure, 2 invalid command line, 3 check detected changes",
+  ].join("\n");
+
+/**
+ * Builds the help text of a subcommand.
+ * @param command - The subcommand.
+ * @returns - The help text.
+ */
+const commandUsage = (command: Command): string =>
+  [
+    `Usage: orw ${command.usage} [--json]`,
+    "",
+    `${command.description[0].toUpperCase()}${command.description.slice(1)}.`,
+    "",
+    "Options:",
+    ...[...command.help, "--json  machine-readable output", "--help  show this help"].map(
+      (line) => `  ${line}`
+    ),
+  ].join("\n");
+
+/**
+ * Runs the command-line interface.
+ * @param args - The command-line arguments after the script name, starting with the command.
+ * @param openWatcher - Creates the watcher, only called for valid command lines.
+ * @param output - Receives the output, console by default.
+ * @returns - The exit code.
+ */
+export const runCLI = async (
+  args: string[],
+  openWatcher: () => CLIWatcher,
+  output: CLIOutput = { out: console.log, err: console.error }
+): Promise<number> => {
+  const [name, ...rest] = args;
+  if (!name || name === "help") {
+    const command = rest[0] && Object.hasOwn(commands, rest[0]) ? commands[rest[0]] : undefined;
+    output.out(command ? commandUsage(command) : usage());
+    return EXIT_SUCCESS;
+  }
+  if (!Object.hasOwn(commands, name)) {
+    output.err(`Unknown command: ${name}\n\n${usage()}`);
+    return EXIT_USAGE;
+  }
+  const command = commands[name];
+
+  let values: OptionValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: rest,
+      options: {
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        ...Object.fromEntries(command.options.map((option) => [option, { type: "string" }])),
+      },
+      allowPositionals: true,
+    }));
+  } catch (err) {
+    output.err(`${(err as Error).message}\n\n${commandUsage(command)}`);
+    return EXIT_USAGE;
+  }
+  if (values.help) {
+    output.out(commandUsage(command));
+    return EXIT_SUCCESS;
+  }
+  if (positionals.length !== command.positionals) {
+    output.err(`Wrong number of arguments\n\n${commandUsage(command)}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return await command.run(openWatcher(), values, positionals, output);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      output.err(`${err.message}\n\n${commandUsage(command)}`);
+      return EXIT_USAGE;
+    }
+    output.err(`Error: ${err}`);
+    return EXIT_FAILURE;
+  }
+};
+
+/**
+ * Options working on the database migrations, they don't open the watcher as it applies pending migrations.
+ */
+export const MIGRATION_OPTIONS = ["--migrate-status", "--migrate-dry-run", "--migrate-rollback"];
+
+/**
+ * Usage of the migration options.
+ */
+const migrationUsage = (): string =>
+  [
+    "Usage: orw --migrate-status | --migrate-dry-run | --migrate-rollback <version> [--json]",
+    "",
+    "  --migrate-status              list all migrations and whether they are applied",
+    "  --migrate-dry-run             apply the pending migrations and roll them back",
+    "  --migrate-rollback <version>  roll back the migrations after this version",
+  ].join("\n");
+
+/**
+ * Runs the migration options of the command-line interface.
+ * @param args - The command-line arguments after the script name.
+ * @param db - The database, pending migrations are not applied.
+ * @param backup - Creates a labelled backup of the database, called before rolling back.
+ * @param output - Receives the output, console by default.
+ * @returns - The exit code.
+ */
+export const runMigrationCLI = (
+  args: string[],
+  db: Database,
+  backup: (label: string) => DatabaseBackup,
+  output: CLIOutput = { out: console.log, err: console.error }
+): number => {
+  let values: OptionValues;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        json: { type: "boolean" },
+        "migrate-status": { type: "boolean" },
+        "migrate-dry-run": { type: "boolean" },
+        "migrate-rollback": { type: "string" },
+      },
+    }));
+  } catch (err) {
+    output.err(`${(err as Error).message}\n\n${migrationUsage()}`);
+    return EXIT_USAGE;
+  }
+
+  if (values["migrate-status"]) {
+    const status = getMigrationStatus(db);
+    output.out(
+      values.json
+        ? JSON.stringify(status, null, 2)
+        : formatTable(
+            ["Version", "Description", "Status", "Applied", "Reversible"],
+            status.map((migration) => [
+              String(migration.version),
+              migration.description,
+              migration.modified ? "modified" : migration.applied ? "applied" : "pending",
+              migration.appliedAt ?? "",
+              migration.reversible ? "yes" : "no",
+            ])
+          )
+    );
+    return EXIT_SUCCESS;
+  }
+
+  if (values["migrate-dry-run"]) {
+    const results = dryRunMigrations(db);
+    const failed = results.some((result) => result.error);
+    if (values.json) {
+      output.out(JSON.stringify(results, null, 2));
+    } else if (results.length === 0) {
+      output.out("No pending migrations");
+    } else {
+      output.out(
+        formatTable(
+          ["Version", "Description", "Result"],
+          results.map((result) => [
+            String(result.version),
+            result.description,
+            result.error ? `failed: ${result.error}` : "ok",
+          ])
+        )
+      );
+    }
+    return failed ? EXIT_FAILURE : EXIT_SUCCESS;
+  }
+
+  const version = Number(values["migrate-rollback"]);
+  if (!Number.isInteger(version) || version < 0) {
+    output.err(`Invalid version: ${values["migrate-rollback"]}\n\n${migrationUsage()}`);
+    return EXIT_USAGE;
+  }
+  try {
+    const versions = rollbackMigrations(db, version, {
+      backup: (current) => {
+        const { name } = backup(`pre-rollback-v${current}`);
+        output.err(`Database backup before rolling back written to ${name}`);
+      },
+      log: output.err,
+    });
+    output.out(
+      values.json
+        ? JSON.stringify({ version: getCurrentVersion(db), rolledBack: versions })
+        : versions.length > 0
+          ? `Rolled back migrations ${versions.join(", ")}, the database is at version ${getCurrentVersion(db)}`
+          : `The database is already at version ${getCurrentVersion(db)}`
+    );
+    return EXIT_SUCCESS;
+  } catch (err) {
+    output.err(`Error: ${(err as Error).message}`);
+    return EXIT_FAILURE;
+  }
+};
@@ -0,0 +1,280 @@
+// db-migration.test.ts
+import database, { type Database } from "better-sqlite3";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import {
+  dryRunMigrations,
+  getCurrentVersion,
+  getMigrationStatus,
+  migrationChecksum,
+  rollbackMigrations,
+  runMigrations,
+} from "./db-migration.js";
+import migrations, { type Migration } from "./migrations/migrations.js";
+
+describe("db-migration", () => {
+  let db: Database;
+  let log: (message: string) => void;
+
+  const tables = () =>
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").pluck().all();
+
+  const failing: Migration = {
+    version: migrations.length + 1,
+    description: "Fail halfway",
+    up: (db: Database) => {
+      db.exec("CREATE TABLE half_done (id INTEGER)");
+      db.exec("INSERT INTO missing_table VALUES (1)");
+    },
+  };
+
+  beforeEach(() => {
+    db = new database(":memory:");
+    log = vi.fn();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("should apply all migrations to a fresh database without backup", () => {
+    const backup = vi.fn();
+    runMigrations(db, { backup, log });
+
+    expect(getCurrentVersion(db)).toBe(migrations.length);
+    expect(backup).not.toHaveBeenCalled();
+    const status = getMigrationStatus(db);
+    expect(status.every((migration) => migration.applied && !migration.modified)).toBe(true);
+    expect(status[0]).toMatchObject({
+      version: 1,
+      description: "Create models, changes and migrations tables",
+      appliedAt: expect.any(String),
+      reversible: false,
+    });
+  });
+
+  test("should back up existing databases before applying pending migrations", () => {
+    runMigrations(db, { migrations: migrations.slice(0, 6), log });
+    const backup = vi.fn();
+
+    runMigrations(db, { backup, log });
+    runMigrations(db, { backup, log });
+
+    expect(backup).toHaveBeenCalledTimes(1);
+    expect(backup).toHaveBeenCalledWith(6);
+    expect(log).toHaveBeenCalledWith(
+      "Applying migration version 7: Create check_runs table and link changes to check runs"
+    );
+  });
+
+  test("should back up older databases before upgrading the migrations table", () => {
+    runMigrations(db, { migrations: migrations.slice(0, 6), log });
+    db.exec("ALTER TABLE migrations DROP COLUMN checksum");
+    const columns = () =>
+      (db.pragma("table_info(migrations)") as { name: string }[]).map((column) => column.name);
+    const backup = vi.fn(() => expect(columns()).not.toContain("checksum"));
+
+    runMigrations(db, { backup, log });
+
+    expect(backup).toHaveBeenCalledWith(6);
+    expect(columns()).toContain("checksum");
+  });
+
+  test("should abort migrating if the backup fails", () => {
+    runMigrations(db, { migrations: migrations.slice(0, 6), log });
+    const backup = () => {
+      throw new Error("disk full");
+    };
+
+    expect(() => runMigrations(db, { backup, log })).toThrow("disk full");
+    expect(getCurrentVersion(db)).toBe(6);
+  });
+
+  test("should leave the database at the previous version if a migration fails", () => {
+    runMigrations(db, { log });
+
+    expect(() => runMigrations(db, { migrations: [...migrations, failing], log })).toThrow(
+      "no such table: missing_table"
+    );
+    expect(getCurrentVersion(db)).toBe(migrations.length);
+    expect(tables()).not.toContain("half_done");
+  });
+
+  test("should record checksums of older databases and detect modified migrations", () => {
+    runMigrations(db, { log });
+    db.exec("UPDATE migrations SET checksum = NULL, description = NULL, applied_at = NULL");
+
+    runMigrations(db, { log });
+    expect(db.prepare("SELECT checksum FROM migrations WHERE version = 8").pluck().get()).toBe(
+      migrationChecksum(migrations[7])
+    );
+
+    const modified = migrations.map((migration) =>
+      migration.version === 8 ? { ...migration, up: () => {} } : migration
+    );
+    runMigrations(db, { migrations: modified, log });
+    expect(log).toHaveBeenCalledWith("Warning: migration version 8 changed after it was applied");
+    expect(getMigrationStatus(db, { migrations: modified })[7]).toMatchObject({
+      applied: true,
+      appliedAt: null,
+      modified: true,
+    });
+  });
+
+  test("should calculate checksums from the executed SQL only", () => {
+    const migration: Migration = {
+      version: 1,
+      description: "Create a table",
+      up: (db: Database) => {
+        db.exec("CREATE TABLE t (id INTEGER)");
+      },
+    };
+    // Compiled differently, with other comments and indentation
+    const recompiled: Migration = {
+      ...migration,
+      up: function (db) {
+        // Same statement
+        db.exec(`
+          CREATE TABLE t (id INTEGER)
+        `);
+      },
+    };
+
+    expect(migrationChecksum(recompiled)).toBe(migrationChecksum(migration));
+    expect(
+      migrationChecksum({ ...migration, up: (db) => db.exec("CREATE TABLE t (id TEXT)") })
+    ).not.toBe(migrationChecksum(migration));
+  });
+
+  test("should apply and checksum migrations using prepared statements", () => {
+    const prepared = (value: string): Migration => ({
+      version: migrations.length + 1,
+      description: "Store a setting",
+      up: (db: Database) => {
+        db.exec("CREATE TABLE settings (name TEXT, value TEXT)");
+        const insert = db.prepare("INSERT INTO settings (name, value) VALUES (?, ?)");
+        db.transaction(() => insert.run("theme", value))();
+        for (const row of db.prepare("SELECT name FROM settings").all() as { name: string }[]) {
+          db.prepare("UPDATE settings SET value = upper(value) WHERE name = ?").run(row.name);
+        }
+      },
+    });
+
+    runMigrations(db, { migrations: [...migrations, prepared("dark")], log });
+
+    expect(db.prepare("SELECT value FROM settings").pluck().get()).toBe("DARK");
+    expect(
+      getMigrationStatus(db, { migrations: [...migrations, prepared("dark")] }).at(-1)
+    ).toMatchObject({ applied: true, modified: false });
+    expect(migrationChecksum(prepared("light"))).not.toBe(migrationChecksum(prepared("dark")));
+  });
+
+  test("should roll back reversible migrations", () => {
+    runMigrations(db, { log });
+    const backup = vi.fn();
+
+    expect(rollbackMigrations(db, 6, { backup, log })).toEqual([10, 9, 8, 7]);
+    expect(backup).toHaveBeenCalledWith(10);
+    expect(getCurrentVersion(db)).toBe(6);
+    expect(tables()).not.toContain("check_runs");
+    expect(tables()).not.toContain("webhook_outbox");
+    expect(tables()).toContain("models");
+
+    // Rolled back migrations can be applied again
+    runMigrations(db, { log });
+    expect(getCurrentVersion(db)).toBe(migrations.length);
+
+    expect(() => rollbackMigrations(db, 1, { backup, log })).toThrow(
+      "Migration version 2 can not be rolled back"
+    );
+    expect(getCurrentVersion(db)).toBe(migrations.length);
+  });
+
+  test("should move stored models and changed fields into the normalised tables", () => {
+    runMigrations(db, { migrations: migrations.slice(0, 8), log });
+    const model = (id: string, prompt: string) =>
+      JSON.stringify({ id, pricing: { prompt, completion: "0.02" }, context_length: 8192 });
+    db.prepare("INSERT INTO models (id, data, timestamp) VALUES (?, ?, ?)").run(
+      "a",
+      model("a", "0.01"),
+      "2024-05-03T00:00:00.000Z"
+    );
+    db.prepare("INSERT INTO removed_models (id, data, timestamp) VALUES (?, ?, ?)").run(
+      "b",
+      model("b", "0.03"),
+      "2024-05-02T00:00:00.000Z"
+    );
+    const insertChange = db.prepare(
+      "INSERT INTO changes (id, type, changes, timestamp) VALUES (?, ?, ?, ?)"
+    );
+    insertChange.run("b", "added", model("b", "0.03"), "2024-05-01T00:00:00.000Z");
+    insertChange.run("b", "removed", model("b", "0.03"), "2024-05-02T00:00:00.000Z");
+    insertChange.run(
+      "a",
+      "changed",
+      JSON.stringify({
+        "pricing.prompt": { old: "0.02", new: "0.01", op: "edited" },
+        name: { old: "A", new: "B" },
+      }),
+      "2024-05-02T00:00:00.000Z"
+    );
+
+    runMigrations(db, { log });
+
+    expect(
+      db
+        .prepare(
+          "SELECT id, valid_from, valid_until, prompt_price, context_length FROM model_versions ORDER BY id"
+        )
+        .all()
+    ).toEqual([
+      {
+        id: "a",
+        valid_from: "2024-05-02T00:00:00.000Z",
+        valid_until: null,
+        prompt_price: 0.01,
+        context_length: 8192,
+      },
+      {
+        id: "b",
+        valid_from: "2024-05-01T00:00:00.000Z",
+        valid_until: "2024-05-02T00:00:00.000Z",
+        prompt_price: 0.03,
+        context_length: 8192,
+      },
+    ]);
+    expect(db.prepare("SELECT path, old, new, op FROM field_changes ORDER BY rowid").all()).toEqual(
+      [
+        { path: "pricing.prompt", old: '"0.02"', new: '"0.01"', op: "edited" },
+        { path: "name", old: '"A"', new: '"B"', op: null },
+      ]
+    );
+    expect(tables()).not.toContain("models");
+  });
+
+  test("should try pending migrations without changing the database", () => {
+    runMigrations(db, { migrations: migrations.slice(0, 6), log });
+
+    expect(dryRunMigrations(db)).toEqual([
+      { version: 7, description: "Create check_runs table and link changes to check runs" },
+      { version: 8, description: "Create webhook_outbox and webhook_deliveries tables" },
+      {
+        version: 9,
+        description: "Create model_versions and field_changes tables, replace models table",
+      },
+      { version: 10, description: "Link webhook payloads to their webhook" },
+    ]);
+    expect(dryRunMigrations(db, { migrations: [...migrations, failing] })).toEqual([
+      { version: 7, description: "Create check_runs table and link changes to check runs" },
+      { version: 8, description: "Create webhook_outbox and webhook_deliveries tables" },
+      {
+        version: 9,
+        description: "Create model_versions and field_changes tables, replace models table",
+      },
+      { version: 10, description: "Link webhook payloads to their webhook" },
+      { version: 11, description: "Fail halfway", error: "no such table: missing_table" },
+    ]);
+    expect(getCurrentVersion(db)).toBe(6);
+    expect(tables()).not.toContain("check_runs");
+    expect(db.inTransaction).toBe(false);
+  });
+});
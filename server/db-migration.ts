@@ -1,40 +1,250 @@
+import crypto from "node:crypto";
 import { type Database } from "better-sqlite3";
-import migrations from "./migrations/migrations.js";
+import migrations, { type Migration } from "./migrations/migrations.js";
 
 /**
- * Runs the migrations on the database.
+ * Options for running migrations.
+ */
+export interface MigrationOptions {
+  /** Called once before pending migrations get applied to an existing database, throw to abort. */
+  backup?: (version: number) => void;
+  /** Receives informational messages, console by default. */
+  log?: (message: string) => void;
+  /** The migrations to apply, all known migrations by default. */
+  migrations?: Migration[];
+}
+
+/**
+ * Represents the state of a migration in a database.
+ */
+export interface MigrationStatus {
+  version: number;
+  description: string;
+  /** Timestamp when the migration was applied, null if it is pending or was applied before timestamps were recorded. */
+  appliedAt: string | null;
+  /** Whether the migration is applied to the database. */
+  applied: boolean;
+  /** Whether the migration can be rolled back. */
+  reversible: boolean;
+  /** Whether the migration changed since it was applied, compared by checksum. */
+  modified: boolean;
+}
+
+/**
+ * Represents the result of applying a migration in a dry run.
+ */
+export interface MigrationDryRun {
+  version: number;
+  description: string;
+  /** The error of a failed migration, undefined if it succeeded. */
+  error?: string;
+}
+
+/**
+ * Creates a stand-in for the database that records all calls instead of executing them.
+ * Every method can be called, statements and queries return empty results.
+ * @param calls - Receives the calls, e.g. `exec(CREATE TABLE t (id INTEGER))`.
+ * @returns - The recording stand-in.
+ */
+const callRecorder = (calls: string[]): Database => {
+  const format = (arg: unknown) =>
+    typeof arg === "string" ? arg.trim().replace(/\s+/g, " ") : typeof arg;
+  const recorder: Database = new Proxy({} as Database, {
+    get:
+      (_target, name) =>
+      (...args: unknown[]) => {
+        calls.push(`${String(name)}(${args.map(format).join(", ")})`);
+        switch (name) {
+          case "transaction":
+            return (...params: unknown[]) =>
+              (args[0] as (...params: unknown[]) => unknown)(...params);
+          case "all":
+          case "iterate":
+          case "pragma":
+            return [];
+          case "get":
+            return undefined;
+          default:
+            return recorder;
+        }
+      },
+  });
+  return recorder;
+};
+
+/**
+ * Calculates the checksum of a migration from the SQL its `up` function executes.
+ * The calls get recorded instead of executed, so the checksum does not depend on how the
+ * function was compiled, e.g. comments or the target of the TypeScript compiler.
+ * Migrations depending on query results get checksummed up to their first failing step.
+ * @param migration - The migration.
+ * @returns - The hex encoded SHA-256 checksum, whitespace does not matter.
+ */
+export const migrationChecksum = (migration: Migration): string => {
+  const calls: string[] = [];
+  try {
+    migration.up(callRecorder(calls));
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  } catch (err) {
+    // Recording stops where the migration needs real data
+  }
+  return crypto.createHash("sha256").update(calls.join("\n")).digest("hex");
+};
+
+/**
+ * Runs the pending migrations on the database, each one in a transaction of its own.
+ * A failing migration leaves the database at the previous version.
  * @param db - The database to run migrations on.
+ * @param options - The options, e.g. the backup to create before migrating.
  */
-export function runMigrations(db: Database) {
-  let currentVersion = getCurrentVersion(db);
-  // console.log(`Current database version: ${currentVersion}`);
+export function runMigrations(db: Database, options: MigrationOptions = {}) {
+  const log = options.log ?? console.log;
+  const known = options.migrations ?? migrations;
+  const isFresh = getCurrentVersion(db) === -1;
+  const currentVersion = Math.max(getCurrentVersion(db), 0);
+  const pending = known.filter((migration) => migration.version > currentVersion);
+
+  // The backup has to show the database as it was, before the migrations table gets upgraded
+  if (!isFresh && options.backup && (pending.length > 0 || missingColumns(db).length > 0)) {
+    options.backup(currentVersion);
+  }
+  db.transaction(() => createMigrationsTable(db))();
 
-  // Create the migrations table if it doesn't exist
-  if (currentVersion === -1) {
-    console.log("Creating migrations table");
-    for (const migration of migrations) {
+  warnModifiedMigrations(db, known, log);
+  if (pending.length === 0) {
+    return;
+  }
+  if (isFresh) {
+    log("Creating migrations table");
+  }
+
+  for (const migration of pending) {
+    if (!isFresh) {
+      log(`Applying migration version ${migration.version}: ${migration.description}`);
+    }
+    db.transaction(() => {
       migration.up(db);
-      setCurrentVersion(db, migration.version);
+      setCurrentVersion(db, migration);
+    })();
+  }
+  log(`Current database version: ${getCurrentVersion(db)}`);
+}
+
+/**
+ * Rolls back migrations in reverse order until the database is at a given version.
+ * Every migration gets rolled back in a transaction of its own.
+ * @param db - The database to roll back.
+ * @param version - The version to roll back to.
+ * @param options - The options, e.g. the backup to create before rolling back.
+ * @returns - The versions that got rolled back, newest first.
+ */
+export function rollbackMigrations(
+  db: Database,
+  version: number,
+  options: MigrationOptions = {}
+): number[] {
+  const log = options.log ?? console.log;
+  const known = options.migrations ?? migrations;
+  const currentVersion = getCurrentVersion(db);
+  const rollback = known
+    .filter((migration) => migration.version > version && migration.version <= currentVersion)
+    .reverse();
+  const irreversible = rollback.find((migration) => !migration.down);
+  if (irreversible) {
+    throw new Error(`Migration version ${irreversible.version} can not be rolled back`);
+  }
+  if (rollback.length === 0) {
+    return [];
+  }
+  options.backup?.(currentVersion);
+
+  for (const migration of rollback) {
+    log(`Rolling back migration version ${migration.version}: ${migration.description}`);
+    db.transaction(() => {
+      migration.down!(db);
+      db.prepare("DELETE FROM migrations WHERE version = ?").run(migration.version);
+    })();
+  }
+  log(`Current database version: ${getCurrentVersion(db)}`);
+  return rollback.map((migration) => migration.version);
+}
+
+/**
+ * Applies the pending migrations in a transaction that always gets rolled back,
+ * shows whether an upgrade would succeed without changing the database.
+ * @param db - The database to test the migrations on.
+ * @param options - The options, only `migrations` is used.
+ * @returns - The results of the pending migrations, applying stops at the first failure.
+ */
+export function dryRunMigrations(db: Database, options: MigrationOptions = {}): MigrationDryRun[] {
+  const known = options.migrations ?? migrations;
+  const results: MigrationDryRun[] = [];
+  db.exec("BEGIN");
+  try {
+    createMigrationsTable(db);
+    const currentVersion = getCurrentVersion(db);
+    for (const migration of known.filter((migration) => migration.version > currentVersion)) {
+      const { version, description } = migration;
+      try {
+        migration.up(db);
+        setCurrentVersion(db, migration);
+        results.push({ version, description });
+      } catch (err) {
+        results.push({ version, description, error: (err as Error).message });
+        break;
+      }
+    }
+  } finally {
+    // Some errors already roll back the transaction
+    if (db.inTransaction) {
+      db.exec("ROLLBACK");
     }
-    currentVersion = getCurrentVersion(db);
-    console.log(`Current database version: ${currentVersion}`);
   }
+  return results;
+}
 
-  for (const migration of migrations) {
-    if (migration.version > currentVersion) {
-      console.log(`Applying migration version ${migration.version}`);
-      migration.up(db);
-      setCurrentVersion(db, migration.version);
+/**
+ * Gets the state of all known migrations in the database.
+ * @param db - The database, it is not changed.
+ * @param options - The options, only `migrations` is used.
+ * @returns - The state of every known migration, oldest first.
+ */
+export function getMigrationStatus(
+  db: Database,
+  options: MigrationOptions = {}
+): MigrationStatus[] {
+  const known = options.migrations ?? migrations;
+  const applied = new Map<number, any>();
+  if (getCurrentVersion(db) !== -1) {
+    const columns = (db.pragma("table_info(migrations)") as { name: string }[]).map(
+      (column) => column.name
+    );
+    const select = ["applied_at", "checksum"]
+      .map((column) => (columns.includes(column) ? column : `NULL AS ${column}`))
+      .join(", ");
+    for (const row of db.prepare(`SELECT version, ${select} FROM migrations`).all() as any[]) {
+      applied.set(row.version, row);
     }
   }
+  return known.map((migration) => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      description: migration.description,
+      appliedAt: row?.applied_at ?? null,
+      applied: row !== undefined,
+      reversible: migration.down !== undefined,
+      modified: !!row?.checksum && row.checksum !== migrationChecksum(migration),
+    };
+  });
 }
 
 /**
  * Gets the current version of the database.
  * @param db - The database to get the current version of.
- * @returns - The current version of the database.
+ * @returns - The current version of the database, -1 if there is no migrations table.
  */
-function getCurrentVersion(db: Database): number {
+export function getCurrentVersion(db: Database): number {
   try {
     const row: any = db.prepare("SELECT MAX(version) AS version FROM migrations").get();
     return row?.version || 0;
@@ -46,11 +256,73 @@ function getCurrentVersion(db: Database): number {
 }
 
 /**
- * Sets the current version of the database.
+ * Creates the migrations table, adds the columns missing in databases created by older versions.
+ * @param db - The database.
+ */
+function createMigrationsTable(db: Database) {
+  db.exec(
+    `
+    CREATE TABLE IF NOT EXISTS migrations (
+      version INTEGER PRIMARY KEY
+    )
+  `
+  );
+  for (const column of missingColumns(db)) {
+    db.exec(`ALTER TABLE migrations ADD ${column} TEXT`);
+  }
+}
+
+/**
+ * Finds the columns of the migrations table missing in databases created by older versions.
+ * @param db - The database, it is not changed.
+ * @returns - The missing columns, empty if the table is up to date or does not exist.
+ */
+function missingColumns(db: Database): string[] {
+  const columns = (db.pragma("table_info(migrations)") as { name: string }[]).map(
+    (column) => column.name
+  );
+  if (columns.length === 0) {
+    return [];
+  }
+  return ["description", "checksum", "applied_at"].filter((column) => !columns.includes(column));
+}
+
+/**
+ * Warns about applied migrations that changed since, records checksums missing in older databases.
+ * @param db - The database.
+ * @param known - The known migrations.
+ * @param log - Receives the warnings.
+ */
+function warnModifiedMigrations(db: Database, known: Migration[], log: (message: string) => void) {
+  const rows = db.prepare("SELECT version, checksum FROM migrations").all() as any[];
+  const update = db.prepare(
+    "UPDATE migrations SET description = ?, checksum = ? WHERE version = ?"
+  );
+  for (const row of rows) {
+    const migration = known.find((migration) => migration.version === row.version);
+    if (!migration) {
+      log(`Warning: database version ${row.version} is newer than this version of orw`);
+    } else if (!row.checksum) {
+      update.run(migration.description, migrationChecksum(migration), migration.version);
+    } else if (row.checksum !== migrationChecksum(migration)) {
+      log(`Warning: migration version ${row.version} changed after it was applied`);
+    }
+  }
+}
+
+/**
+ * Records an applied migration.
  * @param db - The database to set the current version of.
- * @param version - The version to set.
+ * @param migration - The applied migration.
  */
-function setCurrentVersion(db: Database, version: number) {
-  const insertVersion = db.prepare("INSERT INTO migrations (version) VALUES (?)");
-  insertVersion.run([version]);
+function setCurrentVersion(db: Database, migration: Migration) {
+  const insertVersion = db.prepare(
+    "INSERT INTO migrations (version, description, checksum, applied_at) VALUES (?, ?, ?, ?)"
+  );
+  insertVersion.run([
+    migration.version,
+    migration.description,
+    migrationChecksum(migration),
+    new Date().toISOString(),
+  ]);
 }
@@ -0,0 +1,126 @@
+// export.test.ts
+import os from "node:os";
+import fs from "node:fs";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import database, { type Database } from "better-sqlite3";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import { OpenRouterAPIWatcher } from "./watcher.js";
+import { exportLines, exportRows, isExportFormat, isExportTable, writeLines } from "./export.js";
+import type { Model } from "../shared/global";
+
+describe("export", () => {
+  let watcher: OpenRouterAPIWatcher;
+  let db: Database;
+  let dataDir: string;
+
+  const model: Model = {
+    id: "openai/gpt-4o",
+    name: 'OpenAI: "GPT-4o", multimodal',
+    description: "First line\nsecond line",
+    pricing: { prompt: "0.000005", completion: "0.000015", request: "0", image: "0.007225" },
+    context_length: 128000,
+    architecture: { modality: "text+image->text", tokenizer: "GPT", instruct_type: null },
+    top_provider: { max_completion_tokens: 4096, is_moderated: true },
+    per_request_limits: null,
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "vitest-export"));
+
+    // Silence console output
+    console.log = vi.fn();
+    console.error = vi.fn();
+    db = new database(":memory:");
+    watcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir: path.join(dataDir, "backup"),
+      quarantineDir: path.join(dataDir, "quarantine"),
+      logFilePath: "",
+      dbFilePath: "",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dataDir, { recursive: true });
+  });
+
+  test("should recognize tables and formats", () => {
+    expect(isExportTable("changes")).toBe(true);
+    expect(isExportTable("run_log")).toBe(false);
+    expect(isExportFormat("jsonl")).toBe(true);
+    expect(isExportFormat("parquet")).toBe(false);
+  });
+
+  test("should quote CSV fields containing separators, quotes and line breaks", () => {
+    watcher.storeModelList([model], new Date("2024-05-14T00:00:00.000Z"));
+
+    const lines = [...exportLines(db, "models", "csv")];
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe(
+      "id,timestamp,name,context_length,prompt,completion,request,image,modality,tokenizer," +
+        "instruct_type,max_completion_tokens,is_moderated,description\r\n"
+    );
+    expect(lines[1]).toBe(
+      'openai/gpt-4o,2024-05-14T00:00:00.000Z,"OpenAI: ""GPT-4o"", multimodal",128000,' +
+        '0.000005,0.000015,0,0.007225,text+image->text,GPT,,4096,true,"First line\nsecond line"\r\n'
+    );
+  });
+
+  test("should export one row per changed field", () => {
+    watcher.storeChanges([
+      {
+        id: "openai/gpt-4o",
+        type: "changed",
+        changes: {
+          "pricing.prompt": { old: "0.00001", new: "0.000005", op: "edited" },
+          "architecture.instruct_type": { old: undefined, new: "chatml", op: "added" },
+          context_length: { old: 8192, new: 128000 },
+        },
+        timestamp: "2024-05-14T00:00:00.000Z",
+      },
+      { id: "openai/gpt-4o-mini", type: "added", timestamp: "2024-05-15T00:00:00.000Z" },
+    ]);
+
+    const rows = [...exportRows(db, "changes")];
+
+    expect(rows.map(({ field, old, new: value, op }) => [field, old, value, op])).toEqual([
+      ["pricing.prompt", "0.00001", "0.000005", "edited"],
+      ["architecture.instruct_type", null, "chatml", "added"],
+      ["context_length", 8192, 128000, "edited"],
+      [null, null, null, null],
+    ]);
+    expect(rows[3]).toMatchObject({ id: "openai/gpt-4o-mini", type: "added" });
+  });
+
+  test("should export JSON lines in insertion order across batches", async () => {
+    const changes = Array.from({ length: 2_500 }, (_, i) => ({
+      id: `model-${i}`,
+      type: "removed" as const,
+      timestamp: new Date(Date.UTC(2024, 0, 1) + i * 1000).toISOString(),
+    }));
+    watcher.storeChanges(changes);
+
+    const stream = new PassThrough();
+    const chunks: string[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk.toString()));
+    await writeLines(exportLines(db, "changes", "jsonl"), stream);
+
+    const lines = chunks.join("").trimEnd().split("\n");
+    expect(lines).toHaveLength(2_500);
+    expect(JSON.parse(lines[0])).toEqual({
+      id: "model-0",
+      type: "removed",
+      field: null,
+      old: null,
+      new: null,
+      op: null,
+      timestamp: "2024-01-01T00:00:00.000Z",
+      run: null,
+    });
+    expect(JSON.parse(lines[2_499]).id).toBe("model-2499");
+  });
+});
@@ -0,0 +1,266 @@
+// export.ts
+import { once } from "node:events";
+import type { Writable } from "node:stream";
+import type { Database } from "better-sqlite3";
+import type { FieldChange, Model } from "../shared/global";
+
+/**
+ * Tables available for export.
+ */
+export const EXPORT_TABLES = ["models", "removed", "added", "changes"] as const;
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+/**
+ * Formats available for export.
+ */
+export const EXPORT_FORMATS = ["csv", "jsonl"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Content types of the export formats.
+ */
+export const EXPORT_CONTENT_TYPES: { [format in ExportFormat]: string } = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * Number of database rows read at once, keeps memory usage flat for large tables.
+ */
+const BATCH_SIZE = 1_000;
+
+/**
+ * Represents a single value in a flat row, nested values get JSON encoded.
+ */
+export type FlatValue = string | number | boolean | null;
+
+/**
+ * Represents a row of an exported table.
+ */
+export type FlatRow = { [column: string]: FlatValue };
+
+/**
+ * Describes how a database table gets flattened.
+ */
+interface ExportSource {
+  /** The name of the database table. */
+  table: string;
+  /** The columns read from the database table. */
+  select: string;
+  /** The condition rows have to match, all rows by default. */
+  where?: string;
+  /** The columns of the exported rows, in order. */
+  columns: string[];
+  /** Turns a database row into one or more exported rows. */
+  flatten: (row: any) => FlatRow[];
+}
+
+/**
+ * Converts a value to a flat value, objects and arrays get JSON encoded.
+ * @param value - The value.
+ * @returns - The flat value.
+ */
+const flatValue = (value: unknown): FlatValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Flattens a stored model with the timestamp of its row.
+ * @param row - The database row with id, data and timestamp.
+ * @returns - The flat model row.
+ */
+const flattenModel = (row: any): FlatRow[] => {
+  const model: Model = JSON.parse(row.data);
+  return [
+    {
+      id: row.id,
+      timestamp: row.timestamp,
+      name: flatValue(model.name),
+      context_length: flatValue(model.context_length),
+      prompt: flatValue(model.pricing?.prompt),
+      completion: flatValue(model.pricing?.completion),
+      request: flatValue(model.pricing?.request),
+      image: flatValue(model.pricing?.image),
+      modality: flatValue(model.architecture?.modality),
+      tokenizer: flatValue(model.architecture?.tokenizer),
+      instruct_type: flatValue(model.architecture?.instruct_type),
+      max_completion_tokens: flatValue(model.top_provider?.max_completion_tokens),
+      is_moderated: flatValue(model.top_provider?.is_moderated),
+      description: flatValue(model.description),
+    },
+  ];
+};
+
+/**
+ * Flattens a stored change, every changed field becomes a row of its own.
+ * Added and removed models become a single row without field.
+ * @param row - The database row with id, type, changes, timestamp and run_id.
+ * @returns - The flat change rows.
+ */
+const flattenChange = (row: any): FlatRow[] => {
+  const common = { id: row.id, type: row.type };
+  const tail = { timestamp: row.timestamp, run: row.run_id ?? null };
+  if (row.type !== "changed") {
+    return [{ ...common, field: null, old: null, new: null, op: null, ...tail }];
+  }
+  const changes: { [key: string]: FieldChange } = JSON.parse(row.changes);
+  return Object.entries(changes).map(([field, change]) => ({
+    ...common,
+    field,
+    old: flatValue(change.old),
+    new: flatValue(change.new),
+    // Changes recorded before operations were stored are all edits
+    op: change.op ?? "edited",
+    ...tail,
+  }));
+};
+
+/**
+ * The columns of exported model rows.
+ */
+const MODEL_COLUMNS = [
+  "id",
+  "timestamp",
+  "name",
+  "context_length",
+  "prompt",
+  "completion",
+  "request",
+  "image",
+  "modality",
+  "tokenizer",
+  "instruct_type",
+  "max_completion_tokens",
+  "is_moderated",
+  "description",
+];
+
+/**
+ * The exported tables with their database source.
+ */
+const sources: { [table in ExportTable]: ExportSource } = {
+  models: {
+    table: "model_versions",
+    select: "id, data, valid_from AS timestamp",
+    where: "valid_until IS NULL",
+    columns: MODEL_COLUMNS,
+    flatten: flattenModel,
+  },
+  removed: {
+    table: "removed_models",
+    select: "id, data, timestamp",
+    columns: MODEL_COLUMNS,
+    flatten: flattenModel,
+  },
+  added: {
+    table: "added_models",
+    select: "id, data, timestamp",
+    columns: MODEL_COLUMNS,
+    flatten: flattenModel,
+  },
+  changes: {
+    table: "changes",
+    select: "id, type, changes, timestamp, run_id",
+    columns: ["id", "type", "field", "old", "new", "op", "timestamp", "run"],
+    flatten: flattenChange,
+  },
+};
+
+/**
+ * Checks whether a name is an exportable table.
+ * @param name - The name.
+ * @returns - True for exportable tables.
+ */
+export const isExportTable = (name: string): name is ExportTable =>
+  (EXPORT_TABLES as readonly string[]).includes(name);
+
+/**
+ * Checks whether a name is an export format.
+ * @param name - The name.
+ * @returns - True for export formats.
+ */
+export const isExportFormat = (name: string): name is ExportFormat =>
+  (EXPORT_FORMATS as readonly string[]).includes(name);
+
+/**
+ * Reads the flat rows of a table in insertion order.
+ * Rows are read in batches, no statement stays open between batches,
+ * so other queries can use the database connection while an export is streamed.
+ * @param db - The database.
+ * @param table - The table to export.
+ * @returns - The flat rows.
+ */
+export function* exportRows(db: Database, table: ExportTable): Generator<FlatRow, void, undefined> {
+  const source = sources[table];
+  const statement = db.prepare(
+    `SELECT rowid, ${source.select} FROM ${source.table}
+    WHERE rowid > ? ${source.where ? `AND ${source.where}` : ""}
+    ORDER BY rowid LIMIT ?`
+  );
+  let lastRowid = 0;
+  while (true) {
+    const rows: any[] = statement.all(lastRowid, BATCH_SIZE);
+    for (const row of rows) {
+      yield* source.flatten(row);
+    }
+    if (rows.length < BATCH_SIZE) {
+      return;
+    }
+    lastRowid = rows.at(-1).rowid;
+  }
+}
+
+/**
+ * Formats a value as CSV field, quoting it if necessary.
+ * @param value - The value.
+ * @returns - The CSV field, empty for null.
+ */
+const csvField = (value: FlatValue): string => {
+  if (value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders a table as lines of CSV (with header) or JSON Lines.
+ * @param db - The database.
+ * @param table - The table to export.
+ * @param format - The export format.
+ * @returns - The lines including their line break.
+ */
+export function* exportLines(
+  db: Database,
+  table: ExportTable,
+  format: ExportFormat
+): Generator<string, void, undefined> {
+  const { columns } = sources[table];
+  if (format === "csv") {
+    yield columns.join(",") + "\r\n";
+  }
+  for (const row of exportRows(db, table)) {
+    yield format === "csv"
+      ? columns.map((column) => csvField(row[column])).join(",") + "\r\n"
+      : JSON.stringify(row) + "\n";
+  }
+}
+
+/**
+ * Writes lines to a stream, waiting whenever its buffer is full.
+ * @param lines - The lines to write.
+ * @param stream - The stream to write to, it does not get ended.
+ */
+export const writeLines = async (lines: Iterable<string>, stream: Writable) => {
+  for (const line of lines) {
+    if (!stream.write(line)) {
+      await once(stream, "drain");
+    }
+  }
+};
@@ -1,11 +1,14 @@
 // server.test.ts
-import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { IncomingMessage, ServerResponse } from "node:http";
 import os from "node:os";
 import fs from "node:fs";
 import path from "node:path";
 import { Buffer } from "node:buffer";
+import { PassThrough } from "node:stream";
 import { httpServer } from "./httpServer";
+import { METRICS_CONTENT_TYPE } from "./metrics";
+import { Logger } from "./logger";
 
 describe("httpServer", () => {
   let server: httpServer;
@@ -19,8 +22,11 @@ describe("httpServer", () => {
 
     watcher = {
       log: vi.fn(),
+      getLogger: new Logger({ level: "error" }),
       getAPILastCheck: new Date(),
       getAPILastCheckStatus: "success",
+      getAPINextCheck: new Date(Date.now() + 3_600_000),
+      getCheckInterval: 3_600_000,
       getDBLastChange: new Date(),
       getLists: {
         models: [],
@@ -31,6 +37,16 @@ describe("httpServer", () => {
         ],
       },
       getDbBackupPath: path.join(dataDir, "backup", "orw.db.backup"),
+      listBackups: vi.fn(() => []),
+      loadSnapshot: vi.fn(),
+      loadCheckRuns: vi.fn(() => []),
+      loadCheckRun: vi.fn(),
+      loadModelHistory: vi.fn(),
+      loadPriceHistory: vi.fn(),
+      queryChanges: vi.fn(() => ({ changes: [], nextCursor: null })),
+      renderMetrics: vi.fn(() => "# TYPE orw_models gauge\n"),
+      checkHealth: vi.fn(),
+      checkReadiness: vi.fn(),
     };
 
     server = new httpServer({ watcher, dataDir, cacheDir });
@@ -48,14 +64,11 @@ describe("httpServer", () => {
         end: vi.fn(),
       } as unknown as ServerResponse;
 
-      const consoleMock = vi.spyOn(console, "log");
-      afterAll(() => {
-        consoleMock.mockReset();
-      });
+      const debug = vi.spyOn(Logger.prototype, "debug");
 
       server.error404("/some/file.txt", response);
 
-      expect(console.log).toHaveBeenCalledWith("Error 404: /some/file.txt File not found");
+      expect(debug).toHaveBeenCalledWith("Error 404: /some/file.txt File not found");
       expect(response.statusCode).toBe(404);
       expect(response.end).toHaveBeenCalledWith("File not found");
     });
@@ -156,7 +169,7 @@ describe("httpServer", () => {
       vi.useFakeTimers();
       vi.setSystemTime(new Date("2023-04-01T00:01:00.000Z"));
 
-      watcher.getAPILastCheck = new Date("2023-04-01T00:00:00.000Z");
+      watcher.getAPINextCheck = new Date("2023-04-01T01:00:00.000Z");
       const secondsUntil = server.secondsUntilAPIcheck();
 
       expect(secondsUntil).toBe(3600 - 60);
@@ -168,7 +181,7 @@ describe("httpServer", () => {
       vi.useFakeTimers();
       vi.setSystemTime(new Date("2023-04-01T01:00:00.000Z"));
 
-      watcher.getAPILastCheck = new Date("2023-03-31T23:00:00.000Z");
+      watcher.getAPINextCheck = new Date("2023-04-01T00:00:00.000Z");
       const secondsUntil = server.secondsUntilAPIcheck();
 
       expect(secondsUntil).toBe(0);
@@ -435,6 +448,61 @@ describe("httpServer", () => {
     });
   });
 
+  describe("feeds", () => {
+    const change = {
+      id: "anthropic/claude-3-haiku",
+      type: "changed",
+      changes: { "pricing.prompt": { old: "0.01", new: "0.02", op: "edited" } },
+      timestamp: "2024-05-01T00:00:00.000Z",
+      run: 3,
+    };
+
+    beforeEach(() => {
+      watcher.queryChanges.mockReturnValue({ changes: [change], nextCursor: null });
+    });
+
+    it("should query the newest changes matching the feed filters", () => {
+      server.feedItems({ types: ["changed"] });
+      expect(watcher.queryChanges).toHaveBeenCalledWith({ types: ["changed"], limit: 50 });
+    });
+
+    it("should generate an Atom feed", async () => {
+      const xml = await server.generateAtomFeedXML({}, "?type=changed");
+
+      expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(xml).toContain('atom?type=changed"/>');
+      expect(xml).toContain("<title>Model anthropic/claude-3-haiku changed</title>");
+      expect(xml).toContain("<updated>2024-05-01T00:00:00.000Z</updated>");
+      expect(xml).toContain('<category term="check run #3"/>');
+      expect(xml).toContain('<content type="html">&lt;');
+      expect(xml).toContain("model?id=anthropic/claude-3-haiku&amp;timestamp=");
+    });
+
+    it("should let RSS readers cache the feed for one check interval", async () => {
+      watcher.getCheckInterval = 6 * 3_600_000;
+
+      const xml = await server.generateRSSFeedXML();
+
+      expect(xml).toContain("<ttl>360</ttl>");
+    });
+
+    it("should generate a JSON feed", async () => {
+      const feed = JSON.parse(await server.generateJSONFeed());
+
+      expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+      expect(feed.items).toEqual([
+        {
+          id: expect.stringContaining("model?id=anthropic/claude-3-haiku"),
+          url: expect.stringContaining("model?id=anthropic/claude-3-haiku"),
+          title: "Model anthropic/claude-3-haiku changed",
+          content_html: expect.stringContaining("pricing.prompt"),
+          date_published: "2024-05-01T00:00:00.000Z",
+          tags: ["check run #3"],
+        },
+      ]);
+    });
+  });
+
   describe("requestCallback", () => {
     it("should serve static files from the client directory", async () => {
       const request = {
@@ -513,6 +581,374 @@ describe("httpServer", () => {
       });
     });
 
+    it("should serve the API__SNAPSHOT endpoint for a point in time", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/snapshot?at=2024-05-01T00:00:00.000Z",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      watcher.loadSnapshot.mockReturnValue({
+        timestamp: "2024-04-30T00:00:00.000Z",
+        hash: "abc",
+        models: [],
+      });
+      vi.spyOn(server, "cacheAndServeContent").mockImplementation(() => Promise.resolve());
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.loadSnapshot).toHaveBeenCalledWith(new Date("2024-05-01T00:00:00.000Z"));
+      expect(server.cacheAndServeContent).toHaveBeenCalledWith({
+        fileName: `snapshot-${Date.parse("2024-04-30T00:00:00.000Z")}.json`,
+        contentType: "application/json",
+        contentGenerator: expect.any(Function),
+        dbOnlyCheck: true,
+        request,
+        response,
+      });
+    });
+
+    it("should return a 400 Bad Request response for an invalid snapshot timestamp", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/snapshot?at=yesterday",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error400").mockImplementation(() => {});
+
+      await server.requestCallback(request, response);
+
+      expect(server.error400).toHaveBeenCalledWith("/api/snapshot", response, "Invalid timestamp");
+    });
+
+    it("should stream the API__EXPORT endpoint", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/export/changes.csv",
+        headers: {},
+      } as unknown as IncomingMessage;
+
+      const response = Object.assign(new PassThrough(), {
+        setHeader: vi.fn(),
+        statusCode: 0,
+      });
+      const chunks: string[] = [];
+      response.on("data", (chunk) => chunks.push(chunk.toString()));
+
+      watcher.exportTable = vi.fn(function* () {
+        yield "id,type\r\n";
+        yield "1,added\r\n";
+      });
+
+      await server.requestCallback(request, response as unknown as ServerResponse);
+
+      expect(watcher.exportTable).toHaveBeenCalledWith("changes", "csv");
+      expect(response.statusCode).toBe(200);
+      expect(response.setHeader).toHaveBeenCalledWith("Content-Type", "text/csv; charset=utf-8");
+      expect(response.setHeader).toHaveBeenCalledWith(
+        "Content-Disposition",
+        'attachment; filename="orw-changes.csv"'
+      );
+      expect(chunks.join("")).toBe("id,type\r\n1,added\r\n");
+    });
+
+    it("should return a 404 Not Found response for unknown exports", async () => {
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error404").mockImplementation(() => {});
+
+      for (const url of ["/api/export/run_log.csv", "/api/export/changes.parquet"]) {
+        const request = { method: "GET", url, headers: {} } as unknown as IncomingMessage;
+        await server.requestCallback(request, response);
+        expect(server.error404).toHaveBeenCalledWith(url, response, "Unknown export");
+      }
+    });
+
+    it("should serve the API__RUNS endpoint", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/runs",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "cacheAndServeContent").mockImplementation(() => Promise.resolve());
+
+      await server.requestCallback(request, response);
+
+      expect(server.cacheAndServeContent).toHaveBeenCalledWith({
+        fileName: "runs.json",
+        contentType: "application/json",
+        contentGenerator: expect.any(Function),
+        request,
+        response,
+      });
+    });
+
+    it("should page the check runs of the API__RUNS endpoint", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/runs?limit=2&cursor=10",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      const runs = [9, 8, 7].map((id) => ({ id, status: "success" }));
+      watcher.loadCheckRuns.mockReturnValue(runs);
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.loadCheckRuns).toHaveBeenCalledWith(3, 10);
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse((response.write as any).mock.calls[0][0])).toEqual({
+        version: expect.any(Number),
+        runs: runs.slice(0, 2),
+        nextCursor: "8",
+      });
+    });
+
+    it("should return a 400 Bad Request response for an invalid check run page", async () => {
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error400").mockImplementation(() => {});
+
+      for (const [query, message] of [
+        ["limit=0", "Invalid limit"],
+        ["cursor=abc", "Invalid cursor"],
+      ]) {
+        const request = { method: "GET", url: `/api/runs?${query}` } as IncomingMessage;
+        await server.requestCallback(request, response);
+        expect(server.error400).toHaveBeenLastCalledWith("/api/runs", response, message);
+      }
+    });
+
+    it("should return a 404 Not Found response for an unknown check run", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/runs?id=42",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error404").mockImplementation(() => {});
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.loadCheckRun).toHaveBeenCalledWith(42);
+      expect(server.error404).toHaveBeenCalledWith("/api/runs", response, "Unknown check run");
+    });
+
+    it("should serve the API__MODELS endpoint for model ids containing slashes", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/models/mistralai/mistral-7b-instruct",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      watcher.loadModelHistory.mockReturnValue({
+        model: { id: "mistralai/mistral-7b-instruct" },
+        removed: false,
+        timeline: [],
+        changes: [],
+      });
+      vi.spyOn(server, "cacheAndServeContent").mockImplementation(() => Promise.resolve());
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.loadModelHistory).toHaveBeenCalledWith("mistralai/mistral-7b-instruct");
+      expect(server.cacheAndServeContent).toHaveBeenCalledWith({
+        fileName: "model-mistralai%2Fmistral-7b-instruct.json",
+        contentType: "application/json",
+        contentGenerator: expect.any(Function),
+        dbOnlyCheck: true,
+        request,
+        response,
+      });
+    });
+
+    it("should serve the price history of a model", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/models/mistralai/mistral-7b-instruct/prices",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      watcher.loadPriceHistory.mockReturnValue({ id: "mistralai/mistral-7b-instruct", points: [] });
+      vi.spyOn(server, "cacheAndServeContent").mockImplementation(() => Promise.resolve());
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.loadPriceHistory).toHaveBeenCalledWith("mistralai/mistral-7b-instruct");
+      expect(watcher.loadModelHistory).not.toHaveBeenCalled();
+      expect(server.cacheAndServeContent).toHaveBeenCalledWith({
+        fileName: "prices-mistralai%2Fmistral-7b-instruct.json",
+        contentType: "application/json",
+        contentGenerator: expect.any(Function),
+        dbOnlyCheck: true,
+        request,
+        response,
+      });
+    });
+
+    it("should return a 404 Not Found response for an unknown model", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/models/unknown",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error404").mockImplementation(() => {});
+
+      await server.requestCallback(request, response);
+
+      expect(server.error404).toHaveBeenCalledWith(
+        "/api/models/unknown",
+        response,
+        "Unknown model"
+      );
+    });
+
+    it("should return a 400 Bad Request response for malformed model ids", async () => {
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      for (const url of ["/api/models/%E0%A4%A", "/api/models/%E0%A4%A/prices"]) {
+        const request = { method: "GET", url } as IncomingMessage;
+        await server.requestCallback(request, response);
+        expect(response.statusCode).toBe(400);
+        expect(response.end).toHaveBeenLastCalledWith("Invalid model id");
+      }
+      expect(watcher.loadModelHistory).not.toHaveBeenCalled();
+      expect(watcher.loadPriceHistory).not.toHaveBeenCalled();
+    });
+
+    it("should send a 500 Internal Server Error response if a route fails", async () => {
+      const request = { method: "GET", url: "/api/models/openai/gpt-4" } as IncomingMessage;
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        headersSent: false,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      watcher.loadModelHistory.mockImplementation(() => {
+        throw new Error("database is locked");
+      });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(server.requestCallback(request, response)).resolves.toBeUndefined();
+
+      expect(response.statusCode).toBe(500);
+      expect(response.end).toHaveBeenCalledWith("Internal server error");
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("Error serving /api/models/openai/gpt-4: Error: database is locked")
+      );
+    });
+
+    it("should serve the API__CHANGES endpoint with filters", async () => {
+      const request = {
+        method: "GET",
+        headers: {},
+        url: "/api/changes?type=added,changed&prefix=openai/&since=2024-05-01T00:00:00Z&limit=10",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      await server.requestCallback(request, response);
+
+      expect(watcher.queryChanges).toHaveBeenCalledWith({
+        types: ["added", "changed"],
+        prefix: "openai/",
+        since: new Date("2024-05-01T00:00:00Z"),
+        limit: 10,
+      });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse((response.write as any).mock.calls[0][0])).toEqual({
+        version: expect.any(Number),
+        changes: [],
+        nextCursor: null,
+      });
+    });
+
+    it("should return a 400 Bad Request response for invalid change filters", async () => {
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error400").mockImplementation(() => {});
+
+      for (const [query, message] of [
+        ["type=renamed", "Invalid change type"],
+        ["until=tomorrow", "Invalid timestamp"],
+        ["limit=0", "Invalid limit"],
+      ]) {
+        const request = { method: "GET", url: `/api/changes?${query}` } as IncomingMessage;
+        await server.requestCallback(request, response);
+        expect(server.error400).toHaveBeenLastCalledWith("/api/changes", response, message);
+      }
+    });
+
     it("should serve the RSS feed", async () => {
       const request = {
         method: "GET",
@@ -541,6 +977,57 @@ describe("httpServer", () => {
       });
     });
 
+    it("should serve filtered feeds without creating cache files", async () => {
+      const request = {
+        method: "GET",
+        headers: {},
+        url: "/atom?provider=anthropic&type=changed",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "cacheAndServeContent");
+      vi.spyOn(server, "generateAtomFeedXML").mockResolvedValue("atom feed xml");
+
+      await server.requestCallback(request, response);
+
+      expect(server.cacheAndServeContent).not.toHaveBeenCalled();
+      expect(server.generateAtomFeedXML).toHaveBeenCalledWith(
+        { types: ["changed"], prefix: "anthropic/" },
+        "?provider=anthropic&type=changed"
+      );
+      expect(response.setHeader).toHaveBeenCalledWith("Content-Type", "application/atom+xml");
+      expect(response.write).toHaveBeenCalledWith("atom feed xml");
+      expect(fs.readdirSync(cacheDir)).toEqual([]);
+    });
+
+    it("should accept a watchlist of model ids as feed filter", () => {
+      const query = server.parseFeedQuery(
+        new URLSearchParams("ids=openai%2Fgpt-4o,anthropic%2Fclaude-3-haiku,openai%2Fgpt-4o")
+      );
+      expect(query).toEqual({ ids: ["anthropic/claude-3-haiku", "openai/gpt-4o"] });
+    });
+
+    it("should return a 400 Bad Request response for invalid feed filters", async () => {
+      const request = { method: "GET", url: "/feed.json?type=renamed" } as IncomingMessage;
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error400").mockImplementation(() => {});
+
+      await server.requestCallback(request, response);
+
+      expect(server.error400).toHaveBeenCalledWith("/feed.json", response, "Invalid change type");
+    });
+
     it("should serve the database backup file", async () => {
       const request = {
         method: "GET",
@@ -566,6 +1053,127 @@ describe("httpServer", () => {
       });
     });
 
+    it("should list the database backups without caching", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/backups",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      const backup = {
+        name: "orw.db.2024-05-14T12-00-00.000Z.backup",
+        timestamp: "2024-05-14T12:00:00.000Z",
+        size: 4096,
+      };
+      watcher.listBackups.mockReturnValue([backup]);
+
+      await server.requestCallback(request, response);
+
+      expect(response.setHeader).toHaveBeenCalledWith("Cache-Control", "no-cache");
+      expect(JSON.parse((response.write as any).mock.calls[0][0])).toEqual({
+        version: 4,
+        backups: [backup],
+      });
+    });
+
+    it("should serve the metrics of the watcher and counted requests without caching", async () => {
+      const request = {
+        method: "GET",
+        url: "/metrics",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      vi.spyOn(server, "error404").mockImplementation((_, response) => {
+        response.statusCode = 404;
+      });
+      await server.requestCallback(
+        { method: "GET", url: "/api/models/openai/gpt-4/prices" } as unknown as IncomingMessage,
+        { statusCode: 0 } as unknown as ServerResponse
+      );
+
+      await server.requestCallback(request, response);
+
+      expect(response.setHeader).toHaveBeenCalledWith("Cache-Control", "no-cache");
+      expect(response.setHeader).toHaveBeenCalledWith("Content-Type", METRICS_CONTENT_TYPE);
+      const metrics = (response.write as any).mock.calls[0][0];
+      expect(metrics).toMatch(/^# TYPE orw_models gauge\n/);
+      expect(metrics).toContain(
+        'orw_http_requests_total{route="/api/models/:id/prices",status="404"} 1\n'
+      );
+    });
+
+    it("should serve the readiness of the watcher without caching", async () => {
+      const request = {
+        method: "GET",
+        url: "/readyz",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      const readiness = {
+        ok: false,
+        checks: {
+          database: { ok: true },
+          backgroundLoop: { ok: true, state: "running", nextCheck: "2024-05-14T13:00:00.000Z" },
+          lastSuccessfulCheck: {
+            ok: false,
+            message: "last successful API check is stale",
+            timestamp: "2024-05-14T09:00:00.000Z",
+            staleAfter: "2024-05-14T11:10:00.000Z",
+          },
+        },
+      };
+      watcher.checkReadiness.mockReturnValue(readiness);
+
+      await server.requestCallback(request, response);
+
+      expect(response.statusCode).toBe(503);
+      expect(response.setHeader).toHaveBeenCalledWith("Cache-Control", "no-cache");
+      expect(JSON.parse((response.write as any).mock.calls[0][0])).toEqual(readiness);
+      expect(watcher.checkHealth).not.toHaveBeenCalled();
+    });
+
+    it("should log every request with route, status and duration", async () => {
+      const request = {
+        method: "GET",
+        url: "/api/models/openai/gpt-4?x=1",
+      } as unknown as IncomingMessage;
+
+      const response = {
+        setHeader: vi.fn(),
+        statusCode: 0,
+        write: vi.fn(),
+        end: vi.fn(),
+      } as unknown as ServerResponse;
+
+      const info = vi.spyOn(Logger.prototype, "info");
+
+      await server.requestCallback(request, response);
+
+      expect(info).toHaveBeenCalledWith("GET /api/models/openai/gpt-4", {
+        route: "/api/models/:id",
+        status: 404,
+        duration: expect.any(Number),
+      });
+    });
+
     it("should return a 404 Not Found response for unknown endpoints", async () => {
       const request = {
         method: "GET",
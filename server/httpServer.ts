@@ -4,6 +4,7 @@ import fs from "node:fs";
 import crypto from "node:crypto";
 import process from "node:process";
 import http, { type IncomingMessage, type ServerResponse } from "http";
+import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { createGzip } from "node:zlib";
 
@@ -12,12 +13,80 @@ import RSS from "rss";
 import React from "react";
 import { renderToStaticMarkup } from "react-dom/server";
 
-import { OpenRouterAPIWatcher, isDevelopment } from "./watcher.js";
-import { API__LISTS, API__STATUS, API_VERSION } from "../shared/constants.js";
-import type { APIResponse, APIStatus } from "../shared/global";
+import {
+  CHECK_RUNS_PAGE_SIZE,
+  CHECK_RUNS_PAGE_SIZE_MAX,
+  OpenRouterAPIWatcher,
+  isDevelopment,
+  type ChangesQuery,
+} from "./watcher.js";
+import {
+  API__BACKUPS,
+  API__CHANGES,
+  API__EXPORT,
+  API__LISTS,
+  API__MODELS,
+  API__RUNS,
+  API__SNAPSHOT,
+  API__STATUS,
+  API_VERSION,
+  VERSION,
+} from "../shared/constants.js";
+import type { APIResponse, APIStatus, ModelChangeType } from "../shared/global";
 import { ChangeSnippet } from "../src/ChangeSnippet.js";
+import { EXPORT_CONTENT_TYPES, isExportFormat, isExportTable } from "./export.js";
+import { METRICS_CONTENT_TYPE, MetricsRegistry } from "./metrics.js";
+import type { Logger } from "./logger.js";
 
 const dataDir = process.env.ORW_DATA_PATH || "./data";
+
+/**
+ * Number of changes included in feeds.
+ */
+const FEED_SIZE = 50;
+const FEED_TITLE = "OpenRouter Model Changes";
+const FEED_DESCRIPTION = "Feed for detected changes in the OpenRouter model list";
+
+/**
+ * Routes counted by their path in the request metrics, others are counted by pattern.
+ */
+const METRICS_ROUTES = [
+  API__LISTS,
+  API__STATUS,
+  API__SNAPSHOT,
+  API__BACKUPS,
+  API__RUNS,
+  API__CHANGES,
+  "/rss",
+  "/atom",
+  "/feed.json",
+  "/",
+  "/list",
+  "/removed",
+  "/changes",
+  "/model",
+  "/run",
+  "/compare",
+  "/costs",
+  "/orw.db.gz",
+  "/metrics",
+  "/healthz",
+  "/readyz",
+];
+
+/**
+ * Decodes a model id from the requested path.
+ * @param encoded - The percent-encoded model id, e.g. `mistralai/mistral-7b-instruct%3Afree`.
+ * @returns - The model id, undefined if the path contains malformed percent-escapes.
+ */
+const decodeModelId = (encoded: string): string | undefined => {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return undefined;
+  }
+};
+
 const port = parseInt(process.env.ORW_PORT ?? "0");
 const hostname = process.env.ORW_HOSTNAME ?? "0.0.0.0";
 const defaultConfig = {
@@ -27,6 +96,7 @@ const defaultConfig = {
   cacheDir: process.env.ORW_CACHE_DIR ?? path.join(dataDir, "cache"),
   clientDir: process.env.ORW_CLIENT_DIR ?? path.join(".", "dist"),
   disableCache: process.env.ORW_DISABLE_CACHE ? true : false,
+  disableAccessLog: process.env.ORW_DISABLE_ACCESS_LOG ? true : false,
   contentSecurityPolicy: process.env.ORW_CSP,
   publicURL: process.env.ORW_URL ?? `http://${hostname}:${port}`,
 };
@@ -63,6 +133,8 @@ export interface responseWrapperOptions {
   lastModified?: Date;
   /** The timestamp until this resource expires */
   expires?: Date;
+  /** The status code of the response, 200 by default */
+  statusCode?: number;
   /** The object containing the request */
   request: IncomingMessage;
   /** The object containing the response */
@@ -107,6 +179,31 @@ export interface serveStaticFileOptions {
   response: ServerResponse;
 }
 
+/**
+ * Represents a single change as a feed entry, shared by all feed formats.
+ */
+interface FeedItem {
+  title: string;
+  /** The change rendered as HTML. */
+  html: string;
+  url: string;
+  date: string;
+  categories: string[];
+}
+
+/**
+ * Escapes a string for use in XML text and attribute values.
+ * @param value - The string to escape.
+ * @returns - The escaped string.
+ */
+const escapeXML = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
 /**
  * Runtime configuaration for the HTTP server.
  */
@@ -115,6 +212,8 @@ export interface httpServerConfig {
   watcher: OpenRouterAPIWatcher;
   /** Whether to disable caching. */
   disableCache: boolean;
+  /** Whether to disable logging every request. */
+  disableAccessLog: boolean;
   /** The directory containing data files. */
   dataDir: string;
   /** The directory containing cached files. */
@@ -141,6 +240,8 @@ export interface httpServerOptions {
   watcher: OpenRouterAPIWatcher;
   /** Whether to disable caching. */
   disableCache?: boolean;
+  /** Whether to disable logging every request. */
+  disableAccessLog?: boolean;
   /** The directory containing data files. */
   dataDir?: string;
   /** The directory containing cached files. */
@@ -162,6 +263,16 @@ export interface httpServerOptions {
  */
 export class httpServer {
   private config: httpServerConfig;
+  private logger: Logger;
+  private metrics = new MetricsRegistry();
+  private requests = this.metrics.counter(
+    "orw_http_requests_total",
+    "HTTP requests by route and status code"
+  );
+  private cacheRequests = this.metrics.counter(
+    "orw_http_cache_requests_total",
+    "Cached responses served from fresh cache files (hit) or generated again (miss)"
+  );
 
   /**
    * Creates a new server instance to serve the web client and changes as an RSS feed.
@@ -173,6 +284,7 @@ export class httpServer {
       ...config,
       staticFiles: [],
     };
+    this.logger = this.config.watcher.getLogger.child({ component: "http" });
 
     // Read all filenames in the static directory, make sure they are real files, including subdirs
     fs.readdirSync(this.config.clientDir, { recursive: true }).forEach((fileName) => {
@@ -186,14 +298,14 @@ export class httpServer {
     });
 
     if (this.config.disableCache) {
-      console.log("Caching disabled");
+      this.logger.info("Caching disabled");
     } else {
       // Create the cache directory if it doesn't exist
       if (!fs.existsSync(this.config.cacheDir)) {
         try {
           fs.mkdirSync(this.config.cacheDir, { recursive: true });
         } catch (err) {
-          console.error("Error creating cache directory:", err);
+          this.logger.error(`Error creating cache directory: ${err}`);
           throw err;
         }
       }
@@ -205,7 +317,7 @@ export class httpServer {
     const server = http.createServer((req, res) => this.requestCallback(req, res));
 
     server.listen(this.config.port, this.config.hostname, () => {
-      this.config.watcher.log(`Webinterface running at URL ${this.config.publicURL}`);
+      this.logger.info(`Webinterface running at URL ${this.config.publicURL}`);
     });
   }
 
@@ -216,11 +328,69 @@ export class httpServer {
    * @param message - The error message.
    */
   error404(filePath: string, response: ServerResponse, message: string = "File not found"): void {
-    console.log(`Error 404: ${filePath} ${message}`);
+    // Every request gets logged with its status anyway
+    this.logger.debug(`Error 404: ${filePath} ${message}`);
     response.statusCode = 404;
     response.end(message);
   }
 
+  /**
+   * Creates a 400 error response.
+   * @param pathname - The requested path.
+   * @param response - The response object.
+   * @param message - The error message.
+   */
+  error400(pathname: string, response: ServerResponse, message: string = "Bad request"): void {
+    this.logger.debug(`Error 400: ${pathname} ${message}`);
+    response.statusCode = 400;
+    response.end(message);
+  }
+
+  /**
+   * Parses the change filters from the search parameters of a request URL.
+   * @param searchParams - The search parameters.
+   * @returns - The parsed filters or an error message if a parameter is invalid.
+   */
+  parseChangesQuery(searchParams: URLSearchParams): ChangesQuery | string {
+    const query: ChangesQuery = {};
+    const types = searchParams.get("type");
+    if (types) {
+      query.types = types.split(",") as ModelChangeType[];
+      if (!query.types.every((type) => ["added", "removed", "changed"].includes(type))) {
+        return "Invalid change type";
+      }
+    }
+    for (const param of ["id", "prefix", "field", "cursor"] as const) {
+      const value = searchParams.get(param);
+      if (value) {
+        query[param] = value;
+      }
+    }
+    const ids = searchParams.get("ids");
+    if (ids) {
+      // Sorted and without duplicates, filtered feeds get cached by their filters
+      query.ids = [...new Set(ids.split(",").filter((id) => id !== ""))].sort();
+    }
+    for (const param of ["since", "until"] as const) {
+      const value = searchParams.get(param);
+      if (value) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return "Invalid timestamp";
+        }
+        query[param] = date;
+      }
+    }
+    const limit = searchParams.get("limit");
+    if (limit) {
+      query.limit = parseInt(limit, 10);
+      if (!(query.limit > 0)) {
+        return "Invalid limit";
+      }
+    }
+    return query;
+  }
+
   /**
    * Calculates the Etag for a file.
    * @param filePath - The path to the file.
@@ -316,8 +486,7 @@ export class httpServer {
    * @returns - The remaing time in seconds until the next API is due.
    */
   secondsUntilAPIcheck(): number {
-    const timeDiff = Date.now() - this.config.watcher.getAPILastCheck.getTime();
-    const msRemaining = 3_600_000 - timeDiff;
+    const msRemaining = this.config.watcher.getAPINextCheck.getTime() - Date.now();
     if (msRemaining > 0) {
       return Math.floor(msRemaining / 1000);
     }
@@ -346,6 +515,7 @@ export class httpServer {
     etag,
     lastModified,
     expires,
+    statusCode = 200,
     request,
     response,
   }: responseWrapperOptions): Promise<void> {
@@ -392,7 +562,7 @@ export class httpServer {
     // response.setHeader("X-Content-Length", length);
     // }
     response.setHeader("Content-Length", length); // let's try anyway to see if it works sometime
-    response.statusCode = request.method === "HEAD" ? 204 : 200;
+    response.statusCode = request.method === "HEAD" && statusCode === 200 ? 204 : statusCode;
     // response.statusCode = 200;
     response.write(request.method === "HEAD" ? "" : realContent);
     response.end();
@@ -431,10 +601,13 @@ export class httpServer {
       !(await this.checkFileFreshness(gzipFilePath, lastModified)) ||
       !fs.existsSync(etagFilePath)
     ) {
+      this.cacheRequests.inc({ result: "miss" });
       const content = contentGenerator();
       // create cache files in background while serving content direcly
       await this.cacheAndCompressFile({ cacheFilePath, content, gzipFilePath });
       // return this.responseWrapper({ content, contentType, cacheControl, request, response });
+    } else {
+      this.cacheRequests.inc({ result: "hit" });
     }
 
     // Serve the cached file
@@ -531,33 +704,73 @@ export class httpServer {
     }
   }
 
+  /**
+   * Parses the feed filters from the search parameters of a request URL.
+   * Feeds accept a model id or glob (`id`), a comma separated list of model ids (`ids`),
+   * a provider (`provider`) and change types (`type`).
+   * @param searchParams - The search parameters.
+   * @returns - The parsed filters or an error message if a parameter is invalid.
+   */
+  parseFeedQuery(searchParams: URLSearchParams): ChangesQuery | string {
+    const filters = new URLSearchParams();
+    for (const param of ["type", "id", "ids"]) {
+      const value = searchParams.get(param);
+      if (value) {
+        filters.set(param, value);
+      }
+    }
+    const query = this.parseChangesQuery(filters);
+    const provider = searchParams.get("provider");
+    if (typeof query !== "string" && provider) {
+      query.prefix = `${provider.replace(/\/$/, "")}/`;
+    }
+    return query;
+  }
+
+  /**
+   * Loads the newest changes matching the feed filters and renders them as feed items.
+   * @param query - The feed filters.
+   * @returns - The feed items, newest first.
+   */
+  feedItems(query: ChangesQuery): FeedItem[] {
+    return this.config.watcher
+      .queryChanges({ ...query, limit: FEED_SIZE })
+      .changes.map((change) => ({
+        title: `Model ${change.id} ${change.type}`,
+        html: renderToStaticMarkup(React.createElement(ChangeSnippet, { change, hideTypes: [] })),
+        url: `${this.config.publicURL}model?id=${change.id}&timestamp=${change.timestamp}`,
+        date: change.timestamp,
+        categories: change.run ? [`check run #${change.run}`] : [],
+      }));
+  }
+
   /**
    * Generates an RSS feed XML string.
+   * @param query - The feed filters.
+   * @param search - The search part of the feed URL, used for the self link.
    * @returns - The RSS feed XML.
    */
-  async generateRSSFeedXML(): Promise<string> {
+  async generateRSSFeedXML(query: ChangesQuery = {}, search: string = ""): Promise<string> {
     const feed: RSS = new RSS({
-      title: "OpenRouter Model Changes",
-      description: "Feed for detected changes in the OpenRouter model list",
-      feed_url: this.config.publicURL + "rss",
+      title: FEED_TITLE,
+      description: FEED_DESCRIPTION,
+      feed_url: this.config.publicURL + "rss" + search,
       site_url: this.config.publicURL,
       image_url: this.config.publicURL + "favicon.svg",
       docs: "https://github.com/fry69/orw",
       language: "en",
-      ttl: 60,
+      // Minutes a feed reader may cache the feed, until the next scheduled API check
+      ttl: Math.max(1, Math.round(this.config.watcher.getCheckInterval / 60_000)),
       pubDate: this.config.watcher.getDBLastChange,
     });
 
-    const changesRSS = this.config.watcher.getLists.changes.slice(0, 50); // first 50 entries, sorted newest first
-
-    for (const change of changesRSS) {
+    for (const item of this.feedItems(query)) {
       feed.item({
-        title: `Model ${change.id} ${change.type}`,
-        description: `${renderToStaticMarkup(
-          React.createElement(ChangeSnippet, { change, hideTypes: [] })
-        )}`,
-        url: `${this.config.publicURL}model?id=${change.id}&timestamp=${change.timestamp}`,
-        date: change.timestamp,
+        title: item.title,
+        description: item.html,
+        url: item.url,
+        date: item.date,
+        categories: item.categories,
       });
     }
 
@@ -565,13 +778,196 @@ export class httpServer {
   }
 
   /**
-   * The request callback handler.
+   * Generates an Atom feed XML string.
+   * @param query - The feed filters.
+   * @param search - The search part of the feed URL, used for the self link.
+   * @returns - The Atom feed XML.
+   */
+  async generateAtomFeedXML(query: ChangesQuery = {}, search: string = ""): Promise<string> {
+    const feedURL = this.config.publicURL + "atom" + search;
+    const entries = this.feedItems(query).map((item) =>
+      [
+        "  <entry>",
+        `    <title>${escapeXML(item.title)}</title>`,
+        `    <id>${escapeXML(item.url)}</id>`,
+        `    <link href="${escapeXML(item.url)}"/>`,
+        `    <updated>${new Date(item.date).toISOString()}</updated>`,
+        ...item.categories.map((category) => `    <category term="${escapeXML(category)}"/>`),
+        `    <content type="html">${escapeXML(item.html)}</content>`,
+        "  </entry>",
+      ].join("\n")
+    );
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <title>${FEED_TITLE}</title>`,
+      `  <subtitle>${FEED_DESCRIPTION}</subtitle>`,
+      `  <id>${escapeXML(feedURL)}</id>`,
+      `  <link rel="self" href="${escapeXML(feedURL)}"/>`,
+      `  <link rel="alternate" href="${escapeXML(this.config.publicURL)}"/>`,
+      `  <icon>${escapeXML(this.config.publicURL + "favicon.svg")}</icon>`,
+      `  <updated>${this.config.watcher.getDBLastChange.toISOString()}</updated>`,
+      "  <author><name>orw</name></author>",
+      `  <generator uri="https://github.com/fry69/orw" version="${VERSION}">orw</generator>`,
+      ...entries,
+      "</feed>",
+    ].join("\n");
+  }
+
+  /**
+   * Generates a JSON Feed (version 1.1) string.
+   * @param query - The feed filters.
+   * @param search - The search part of the feed URL, used for the self link.
+   * @returns - The JSON feed.
+   */
+  async generateJSONFeed(query: ChangesQuery = {}, search: string = ""): Promise<string> {
+    return JSON.stringify({
+      version: "https://jsonfeed.org/version/1.1",
+      title: FEED_TITLE,
+      description: FEED_DESCRIPTION,
+      home_page_url: this.config.publicURL,
+      feed_url: this.config.publicURL + "feed.json" + search,
+      icon: this.config.publicURL + "favicon.svg",
+      language: "en",
+      items: this.feedItems(query).map((item) => ({
+        id: item.url,
+        url: item.url,
+        title: item.title,
+        content_html: item.html,
+        date_published: new Date(item.date).toISOString(),
+        tags: item.categories,
+      })),
+    });
+  }
+
+  /**
+   * Serves a feed in one of the supported formats, only the unfiltered feed gets cached.
+   * @param url - The requested URL including the feed filters.
+   * @param fileName - The name of the cache file for the unfiltered feed.
+   * @param contentType - The content type of the feed.
+   * @param generator - Function generating the feed for the given filters and search string.
+   * @param request - The incoming request object.
+   * @param response - The server response object.
+   */
+  async serveFeed(
+    url: URL,
+    fileName: string,
+    contentType: string,
+    generator: (query: ChangesQuery, search: string) => Promise<string>,
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const query = this.parseFeedQuery(url.searchParams);
+    if (typeof query === "string") {
+      return this.error400(url.pathname, response, query);
+    }
+    // Filter combinations are unbounded, don't create cache files for them
+    if (Object.keys(query).length > 0) {
+      return this.responseWrapper({
+        content: generator(query, url.search),
+        contentType,
+        lastModified: this.config.watcher.getDBLastChange,
+        request,
+        response,
+      });
+    }
+    return this.cacheAndServeContent({
+      fileName,
+      contentType,
+      contentGenerator: () => generator(query, url.search),
+      dbOnlyCheck: true,
+      request,
+      response,
+    });
+  }
+
+  /**
+   * Streams a table of the database as CSV or JSON Lines, e.g. `/api/export/changes.csv`.
+   * Exports are not cached, rows get read from the database in batches while streaming.
+   * @param url - The request URL.
+   * @param request - The incoming request object.
+   * @param response - The server response object.
+   */
+  async serveExport(url: URL, request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const [table, format = ""] = url.pathname.slice(API__EXPORT.length + 1).split(".");
+    if (!isExportTable(table) || !isExportFormat(format)) {
+      return this.error404(url.pathname, response, "Unknown export");
+    }
+    response.statusCode = 200;
+    response.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+    response.setHeader("Content-Disposition", `attachment; filename="orw-${table}.${format}"`);
+    response.setHeader("Cache-Control", "no-cache");
+    const lines = Readable.from(this.config.watcher.exportTable(table, format));
+    try {
+      if (request.headers["accept-encoding"]?.includes("gzip")) {
+        response.setHeader("Content-Encoding", "gzip");
+        await pipeline(lines, createGzip(), response);
+      } else {
+        await pipeline(lines, response);
+      }
+    } catch (err) {
+      // Headers are already sent, the client sees an aborted download
+      this.logger.error(`Error streaming export ${url.pathname}: ${err}`);
+    }
+  }
+
+  /**
+   * The request callback handler, counts and logs every request.
    * @param request - The incoming request object.
    * @param response - the server response object.
    */
   async requestCallback(request: IncomingMessage, response: ServerResponse) {
+    const start = Date.now();
     const url = new URL(request.url!, "http://localhost");
+    try {
+      await this.routeRequest(url, request, response);
+    } catch (err) {
+      // A failing route must not take down the server
+      this.logger.error(`Error serving ${url.pathname}: ${err}`);
+      if (!response.headersSent) {
+        response.statusCode = 500;
+        response.end("Internal server error");
+      } else {
+        response.destroy();
+      }
+    } finally {
+      const route = this.metricsRoute(url.pathname);
+      this.requests.inc({ route, status: `${response.statusCode}` });
+      if (!this.config.disableAccessLog) {
+        this.logger.info(`${request.method} ${url.pathname}`, {
+          route,
+          status: response.statusCode,
+          duration: Date.now() - start,
+        });
+      }
+    }
+  }
+
+  /**
+   * Maps a requested path to a route for the request metrics, keeps the number of routes bounded.
+   * @param pathname - The requested path.
+   * @returns - The route, e.g. `/api/models/:id` for all models.
+   */
+  metricsRoute(pathname: string): string {
+    if (this.config.staticFiles.includes(pathname.slice(1))) {
+      return "static";
+    }
+    if (pathname.startsWith(`${API__EXPORT}/`)) {
+      return `${API__EXPORT}/:table`;
+    }
+    if (pathname.startsWith(`${API__MODELS}/`)) {
+      return pathname.endsWith("/prices") ? `${API__MODELS}/:id/prices` : `${API__MODELS}/:id`;
+    }
+    return METRICS_ROUTES.includes(pathname) ? pathname : "unknown";
+  }
 
+  /**
+   * Serves a request by its path.
+   * @param url - The requested URL.
+   * @param request - The incoming request object.
+   * @param response - the server response object.
+   */
+  async routeRequest(url: URL, request: IncomingMessage, response: ServerResponse) {
     // Serve all files found in the client directory from the root
     if (this.config.staticFiles.includes(url.pathname.slice(1))) {
       return this.serveStaticFile({
@@ -586,9 +982,69 @@ export class httpServer {
       isDevelopment,
       apiLastCheck: this.config.watcher.getAPILastCheck.toISOString(),
       apiLastCheckStatus: this.config.watcher.getAPILastCheckStatus,
+      apiNextCheck: this.config.watcher.getAPINextCheck.toISOString(),
+      apiNextRetry: this.config.watcher.getAPINextRetry?.toISOString() ?? null,
+      consecutiveFailures: this.config.watcher.getAPIConsecutiveFailures,
+      circuitState: this.config.watcher.getAPICircuitState,
       dbLastChange: this.config.watcher.getDBLastChange.toISOString(),
     });
 
+    if (url.pathname.startsWith(`${API__EXPORT}/`)) {
+      return this.serveExport(url, request, response);
+    }
+
+    // Model ids contain slashes, e.g. /api/models/mistralai/mistral-7b-instruct/prices
+    if (url.pathname.startsWith(`${API__MODELS}/`) && url.pathname.endsWith("/prices")) {
+      const id = decodeModelId(url.pathname.slice(API__MODELS.length + 1, -"/prices".length));
+      if (id === undefined) {
+        return this.error400(url.pathname, response, "Invalid model id");
+      }
+      const prices = this.config.watcher.loadPriceHistory(id);
+      if (!prices) {
+        return this.error404(url.pathname, response, "Unknown model");
+      }
+      return this.cacheAndServeContent({
+        fileName: `prices-${encodeURIComponent(id)}.json`,
+        contentType: "application/json",
+        contentGenerator: async (): Promise<string> => {
+          const response: APIResponse = {
+            version: API_VERSION,
+            prices,
+          };
+          return JSON.stringify(response);
+        },
+        dbOnlyCheck: true,
+        request,
+        response,
+      });
+    }
+
+    // Model ids contain slashes, e.g. /api/models/mistralai/mistral-7b-instruct
+    if (url.pathname.startsWith(`${API__MODELS}/`)) {
+      const id = decodeModelId(url.pathname.slice(API__MODELS.length + 1));
+      if (id === undefined) {
+        return this.error400(url.pathname, response, "Invalid model id");
+      }
+      const model = this.config.watcher.loadModelHistory(id);
+      if (!model) {
+        return this.error404(url.pathname, response, "Unknown model");
+      }
+      return this.cacheAndServeContent({
+        fileName: `model-${encodeURIComponent(id)}.json`,
+        contentType: "application/json",
+        contentGenerator: async (): Promise<string> => {
+          const response: APIResponse = {
+            version: API_VERSION,
+            model,
+          };
+          return JSON.stringify(response);
+        },
+        dbOnlyCheck: true,
+        request,
+        response,
+      });
+    }
+
     // All other endpoints require special handling
     switch (url.pathname) {
       case API__LISTS:
@@ -622,21 +1078,197 @@ export class httpServer {
           response,
         });
 
-      case "/rss":
+      case API__SNAPSHOT: {
+        const at = url.searchParams.get("at");
+        const atDate = at ? new Date(at) : new Date();
+        if (isNaN(atDate.getTime())) {
+          return this.error400(url.pathname, response, "Invalid timestamp");
+        }
+        const snapshot = this.config.watcher.loadSnapshot(atDate);
+        if (!snapshot) {
+          return this.error404(url.pathname, response, "No snapshot found");
+        }
+        // A history entry never changes, so its cache file stays valid
         return this.cacheAndServeContent({
-          fileName: "rss.xml",
-          contentType: "application/rss+xml",
-          contentGenerator: () => this.generateRSSFeedXML(),
+          fileName: `snapshot-${Date.parse(snapshot.timestamp)}.json`,
+          contentType: "application/json",
+          contentGenerator: async (): Promise<string> => {
+            const response: APIResponse = {
+              version: API_VERSION,
+              snapshot,
+            };
+            return JSON.stringify(response);
+          },
           dbOnlyCheck: true,
           request,
           response,
         });
+      }
+
+      case API__BACKUPS: {
+        // Backups get created and removed independently of changes, don't cache the listing
+        const content: APIResponse = {
+          version: API_VERSION,
+          backups: this.config.watcher.listBackups(),
+        };
+        return this.responseWrapper({
+          content: Promise.resolve(JSON.stringify(content)),
+          contentType: "application/json",
+          cacheControl: "no-cache",
+          request,
+          response,
+        });
+      }
+
+      case API__RUNS: {
+        const id = url.searchParams.get("id");
+        if (id) {
+          const run = this.config.watcher.loadCheckRun(parseInt(id, 10));
+          if (!run) {
+            return this.error404(url.pathname, response, "Unknown check run");
+          }
+          return this.cacheAndServeContent({
+            fileName: `run-${run.id}.json`,
+            contentType: "application/json",
+            contentGenerator: async (): Promise<string> => {
+              const response: APIResponse = {
+                version: API_VERSION,
+                run,
+              };
+              return JSON.stringify(response);
+            },
+            request,
+            response,
+          });
+        }
+        const limitParam = parseInt(url.searchParams.get("limit") ?? `${CHECK_RUNS_PAGE_SIZE}`, 10);
+        if (!(limitParam > 0)) {
+          return this.error400(url.pathname, response, "Invalid limit");
+        }
+        const limit = Math.min(limitParam, CHECK_RUNS_PAGE_SIZE_MAX);
+        const cursor = url.searchParams.get("cursor");
+        if (cursor !== null && !/^\d+$/.test(cursor)) {
+          return this.error400(url.pathname, response, "Invalid cursor");
+        }
+        // One more run tells whether there is a next page
+        const runsPage = (): APIResponse => {
+          const runs = this.config.watcher.loadCheckRuns(
+            limit + 1,
+            cursor === null ? undefined : parseInt(cursor, 10)
+          );
+          const nextCursor = runs.length > limit ? `${runs[limit - 1].id}` : null;
+          return { version: API_VERSION, runs: runs.slice(0, limit), nextCursor };
+        };
+        // Only the first page with the default size is cached, like the unfiltered feeds
+        if (url.search !== "") {
+          return this.responseWrapper({
+            content: Promise.resolve(JSON.stringify(runsPage())),
+            contentType: "application/json",
+            lastModified: this.config.watcher.getAPILastCheck,
+            request,
+            response,
+          });
+        }
+        return this.cacheAndServeContent({
+          fileName: "runs.json",
+          contentType: "application/json",
+          contentGenerator: async (): Promise<string> => JSON.stringify(runsPage()),
+          request,
+          response,
+        });
+      }
+
+      case API__CHANGES: {
+        const query = this.parseChangesQuery(url.searchParams);
+        if (typeof query === "string") {
+          return this.error400(url.pathname, response, query);
+        }
+        let page;
+        try {
+          page = this.config.watcher.queryChanges(query);
+        } catch (err) {
+          return this.error400(url.pathname, response, (err as Error).message);
+        }
+        // Filter combinations are unbounded, don't create cache files for them
+        const content: APIResponse = {
+          version: API_VERSION,
+          changes: page.changes,
+          nextCursor: page.nextCursor,
+        };
+        return this.responseWrapper({
+          content: Promise.resolve(JSON.stringify(content)),
+          contentType: "application/json",
+          lastModified: this.config.watcher.getDBLastChange,
+          request,
+          response,
+        });
+      }
+
+      case "/metrics":
+        // Metrics change with every request, don't cache them
+        return this.responseWrapper({
+          content: Promise.resolve(this.config.watcher.renderMetrics() + this.metrics.render()),
+          contentType: METRICS_CONTENT_TYPE,
+          cacheControl: "no-cache",
+          request,
+          response,
+        });
+
+      case "/healthz":
+      case "/readyz": {
+        // Health checks have to reflect the current state, don't cache them
+        const health =
+          url.pathname === "/healthz"
+            ? this.config.watcher.checkHealth()
+            : this.config.watcher.checkReadiness();
+        return this.responseWrapper({
+          content: Promise.resolve(JSON.stringify(health)),
+          contentType: "application/json",
+          cacheControl: "no-cache",
+          statusCode: health.ok ? 200 : 503,
+          request,
+          response,
+        });
+      }
+
+      case "/rss":
+        return this.serveFeed(
+          url,
+          "rss.xml",
+          "application/rss+xml",
+          (query, search) => this.generateRSSFeedXML(query, search),
+          request,
+          response
+        );
+
+      case "/atom":
+        return this.serveFeed(
+          url,
+          "atom.xml",
+          "application/atom+xml",
+          (query, search) => this.generateAtomFeedXML(query, search),
+          request,
+          response
+        );
+
+      case "/feed.json":
+        return this.serveFeed(
+          url,
+          "feed.json",
+          "application/feed+json",
+          (query, search) => this.generateJSONFeed(query, search),
+          request,
+          response
+        );
 
       case "/":
       case "/list":
       case "/removed":
       case "/changes":
       case "/model":
+      case "/run":
+      case "/compare":
+      case "/costs":
         // Serve the index.html file containing the React app
         return this.serveStaticFile({
           filePath: path.join(this.config.clientDir, "index.html"),
@@ -0,0 +1,198 @@
+// import.test.ts
+import os from "node:os";
+import fs from "node:fs";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import database, { type Database } from "better-sqlite3";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import { OpenRouterAPIWatcher } from "./watcher.js";
+import { mergeHistory } from "./import.js";
+import type { Model, ModelDiff } from "../shared/global";
+
+describe("import", () => {
+  let watcher: OpenRouterAPIWatcher;
+  let db: Database;
+  let dataDir: string;
+  let remotePath: string;
+
+  const model: Model = {
+    id: "openai/gpt-4o",
+    name: "OpenAI: GPT-4o",
+    description: "",
+    pricing: { prompt: "0.000005", completion: "0.000015", request: "0", image: "0.007225" },
+    context_length: 128000,
+    architecture: { modality: "text+image->text", tokenizer: "GPT", instruct_type: null },
+    top_provider: { max_completion_tokens: 4096, is_moderated: true },
+    per_request_limits: null,
+  };
+
+  const shared: ModelDiff = {
+    id: "openai/gpt-4o",
+    type: "changed",
+    changes: { "pricing.prompt": { old: "0.00001", new: "0.000005", op: "edited" } },
+    timestamp: "2024-05-14T00:00:00.000Z",
+  };
+
+  const newWatcher = (watcherDb: Database) =>
+    new OpenRouterAPIWatcher({
+      db: watcherDb,
+      dataDir,
+      backupDir: path.join(dataDir, "backup"),
+      quarantineDir: path.join(dataDir, "quarantine"),
+      logFilePath: "",
+      dbFilePath: "",
+      fixedModelList: [model],
+    });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "vitest-import"));
+    remotePath = path.join(dataDir, "remote.db");
+
+    // Silence console output
+    console.log = vi.fn();
+    console.error = vi.fn();
+    db = new database(":memory:");
+    watcher = newWatcher(db);
+    watcher.storeChanges([shared, { ...shared, timestamp: "2024-05-15T00:00:00.000Z", run: 1 }]);
+    watcher.storeAddedModel(model, new Date("2024-05-13T00:00:00.000Z"));
+
+    const remoteDb = new database(remotePath);
+    const remote = newWatcher(remoteDb);
+    remote.storeChanges([
+      shared,
+      // Same id and timestamp with different content
+      {
+        ...shared,
+        timestamp: "2024-05-15T00:00:00.000Z",
+        changes: { context_length: { old: 8192, new: 128000 } },
+        run: 7,
+      },
+      {
+        id: "mistralai/mistral-7b",
+        type: "removed",
+        timestamp: "2024-05-16T00:00:00.000Z",
+        run: 8,
+      },
+      { ...shared, timestamp: "2024-05-17T00:00:00.000Z", run: 9 },
+    ]);
+    remote.storeAddedModel(model, new Date("2024-05-13T00:00:00.000Z"));
+    remote.storeRemovedModel(
+      { ...model, id: "mistralai/mistral-7b" },
+      new Date("2024-05-16T00:00:00.000Z")
+    );
+    remoteDb.close();
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dataDir, { recursive: true });
+  });
+
+  test("should merge new rows and report duplicates and conflicts", async () => {
+    const report = await watcher.importHistory(remotePath);
+
+    expect(report).toEqual({
+      source: remotePath,
+      tables: {
+        changes: { rows: 4, imported: 2, duplicates: 1, nearDuplicates: 0, conflicts: 1 },
+        added: { rows: 1, imported: 0, duplicates: 1, nearDuplicates: 0, conflicts: 0 },
+        removed: { rows: 1, imported: 1, duplicates: 0, nearDuplicates: 0, conflicts: 0 },
+      },
+      conflicts: [{ table: "changes", id: "openai/gpt-4o", timestamp: "2024-05-15T00:00:00.000Z" }],
+      nearDuplicates: [],
+    });
+
+    // Conflicting rows keep their local content and fields, imported changes belong to no local check run
+    expect(
+      watcher.getLists.changes.map(({ id, timestamp, changes, run }) => [
+        id,
+        timestamp,
+        changes,
+        run,
+      ])
+    ).toEqual([
+      ["openai/gpt-4o", "2024-05-17T00:00:00.000Z", shared.changes, undefined],
+      ["mistralai/mistral-7b", "2024-05-16T00:00:00.000Z", undefined, undefined],
+      ["openai/gpt-4o", "2024-05-15T00:00:00.000Z", shared.changes, 1],
+      ["openai/gpt-4o", "2024-05-14T00:00:00.000Z", shared.changes, undefined],
+    ]);
+    expect(watcher.getLists.removed.map((removed) => removed.id)).toEqual(["mistralai/mistral-7b"]);
+  });
+
+  test("should import gzipped backups only once", async () => {
+    const gzipPath = `${remotePath}.gz`;
+    fs.writeFileSync(gzipPath, gzipSync(fs.readFileSync(remotePath)));
+
+    expect((await watcher.importHistory(gzipPath)).tables.changes.imported).toBe(2);
+    expect((await watcher.importHistory(gzipPath)).tables.changes).toEqual({
+      rows: 4,
+      imported: 0,
+      duplicates: 3,
+      nearDuplicates: 0,
+      conflicts: 1,
+    });
+    expect(fs.readdirSync(dataDir).filter((file) => file.startsWith("import-"))).toEqual([]);
+  });
+
+  test("should skip rows with identical content within the time window", async () => {
+    const otherPath = path.join(dataDir, "other.db");
+    const otherDb = new database(otherPath);
+    newWatcher(otherDb).storeChanges([
+      // Checked a few minutes later than the local instance
+      { ...shared, timestamp: "2024-05-14T00:05:00.000Z", run: 3 },
+      { ...shared, timestamp: "2024-05-16T00:05:00.000Z", run: 4 },
+    ]);
+    otherDb.close();
+
+    const report = await watcher.importHistory(otherPath, 600_000);
+
+    expect(report.tables.changes).toEqual({
+      rows: 2,
+      imported: 1,
+      duplicates: 0,
+      nearDuplicates: 1,
+      conflicts: 0,
+    });
+    expect(report.nearDuplicates).toEqual([
+      {
+        table: "changes",
+        id: "openai/gpt-4o",
+        timestamp: "2024-05-14T00:05:00.000Z",
+        localTimestamp: "2024-05-14T00:00:00.000Z",
+      },
+    ]);
+    expect(watcher.loadChanges().map((change) => change.timestamp)).toEqual([
+      "2024-05-16T00:05:00.000Z",
+      "2024-05-15T00:00:00.000Z",
+      "2024-05-14T00:00:00.000Z",
+    ]);
+  });
+
+  test("should reject files that are not databases", async () => {
+    const textPath = path.join(dataDir, "models.json");
+    fs.writeFileSync(textPath, JSON.stringify({ data: [model] }));
+
+    await expect(watcher.importHistory(textPath)).rejects.toThrow("file is not a database");
+    expect(watcher.loadChanges()).toHaveLength(2);
+  });
+
+  test("should pass the messages of migrating the imported database to the given log", () => {
+    const emptyPath = path.join(dataDir, "empty.db");
+    new database(emptyPath).close();
+    const log = vi.fn();
+    vi.mocked(console.log).mockClear();
+
+    const report = mergeHistory(db, emptyPath, emptyPath, { log });
+
+    expect(report.tables.changes).toEqual({
+      rows: 0,
+      imported: 0,
+      duplicates: 0,
+      nearDuplicates: 0,
+      conflicts: 0,
+    });
+    expect(log).toHaveBeenCalledWith("Creating migrations table");
+    // The console output of `import --json` has to stay valid JSON
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
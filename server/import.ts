@@ -0,0 +1,282 @@
+// import.ts
+import fs from "node:fs";
+import { Buffer } from "node:buffer";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream } from "node:stream/web";
+import { createGunzip } from "node:zlib";
+import database, { type Database } from "better-sqlite3";
+import { runMigrations } from "./db-migration.js";
+
+/**
+ * Tables merged from another instance, removed and added models are keyed like in exports.
+ */
+export const IMPORT_TABLES = ["changes", "added", "removed"] as const;
+export type ImportTable = (typeof IMPORT_TABLES)[number];
+
+/**
+ * Timeout for downloading a database backup, backups are much larger than API responses.
+ */
+const IMPORT_FETCH_TIMEOUT = 300_000; // 5 minutes
+
+/**
+ * Represents the merge result of a single table.
+ */
+export interface ImportTableReport {
+  /** Number of rows in the imported database. */
+  rows: number;
+  /** Number of rows added to the local database. */
+  imported: number;
+  /** Number of rows already present with identical content. */
+  duplicates: number;
+  /** Number of rows skipped as a local row of the model has identical content within the time window. */
+  nearDuplicates: number;
+  /** Number of rows present with the same id and timestamp but different content, the local row is kept. */
+  conflicts: number;
+}
+
+/**
+ * Represents a row that exists in both databases with different content.
+ */
+export interface ImportConflict {
+  table: ImportTable;
+  id: string;
+  timestamp: string;
+}
+
+/**
+ * Represents a row skipped as near duplicate of a local row with another timestamp.
+ */
+export interface ImportNearDuplicate extends ImportConflict {
+  /** Timestamp of the closest local row with identical content. */
+  localTimestamp: string;
+}
+
+/**
+ * Options for merging the history of another instance.
+ */
+export interface MergeOptions {
+  /**
+   * Time window in milliseconds, rows of a model with identical content as a local row within
+   * the window are skipped as near duplicates. 0 by default, only rows with the same timestamp
+   * are duplicates, i.e. copies of the same database.
+   */
+  window?: number;
+  /** Receives the messages of the migration, discarded by default. */
+  log?: (message: string) => void;
+}
+
+/**
+ * Represents the result of merging the history of another instance.
+ */
+export interface ImportReport {
+  /** The path or URL of the imported database. */
+  source: string;
+  /** The merge results per table. */
+  tables: { [table in ImportTable]: ImportTableReport };
+  /** All rows with conflicting content, the local rows are kept. */
+  conflicts: ImportConflict[];
+  /** All rows skipped as near duplicates. */
+  nearDuplicates: ImportNearDuplicate[];
+}
+
+/**
+ * Describes how rows of a table get compared and copied.
+ */
+interface ImportSource {
+  /** The name of the database table. */
+  table: string;
+  /** The columns that have to match for duplicates, besides id and timestamp. */
+  content: string[];
+  /** The columns written to the local table. */
+  columns: string;
+  /** The values read from the imported table, in the order of the columns. */
+  select: string;
+}
+
+/**
+ * The merged tables with their database source.
+ */
+const sources: { [table in ImportTable]: ImportSource } = {
+  changes: {
+    table: "changes",
+    content: ["type", "changes"],
+    columns: "id, type, changes, timestamp, run_id",
+    // Check runs are local to each instance, imported changes belong to none
+    select: "id, type, changes, timestamp, NULL",
+  },
+  added: {
+    table: "added_models",
+    content: ["data"],
+    columns: "id, data, timestamp",
+    select: "id, data, timestamp",
+  },
+  removed: {
+    table: "removed_models",
+    content: ["data"],
+    columns: "id, data, timestamp",
+    select: "id, data, timestamp",
+  },
+};
+
+/**
+ * Checks whether a file starts with the gzip magic bytes.
+ * @param filePath - The path of the file.
+ * @returns - True for gzipped files.
+ */
+const isGzipFile = (filePath: string): boolean => {
+  const header = Buffer.alloc(2);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, header, 0, 2, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return header[0] === 0x1f && header[1] === 0x8b;
+};
+
+/**
+ * Copies a database backup from a file or URL (e.g. `https://example.com/orw.db.gz`),
+ * gzipped backups get decompressed.
+ * @param source - The path or http(s) URL of the backup.
+ * @param filePath - The path of the copy, the directory must exist.
+ */
+export const fetchBackup = async (source: string, filePath: string) => {
+  const downloadPath = `${filePath}.download`;
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, { signal: AbortSignal.timeout(IMPORT_FETCH_TIMEOUT) });
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP status ${response.status} ${response.statusText}`);
+    }
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      fs.createWriteStream(downloadPath)
+    );
+  } else {
+    await fs.promises.copyFile(source, downloadPath);
+  }
+  // Servers may already have removed the compression via Content-Encoding
+  if (isGzipFile(downloadPath)) {
+    await pipeline(
+      fs.createReadStream(downloadPath),
+      createGunzip(),
+      fs.createWriteStream(filePath)
+    );
+    await fs.promises.unlink(downloadPath);
+  } else {
+    await fs.promises.rename(downloadPath, filePath);
+  }
+};
+
+/**
+ * Merges the changes, added and removed models of another database into the local database.
+ * Rows are identified by (id, timestamp), rows already present are skipped, conflicting rows
+ * keep their local content. Instances check at different times, so only copies of the same
+ * database share timestamps, with a time window rows of a model with identical content as a
+ * local row close by are skipped as well. All tables get merged in one transaction.
+ * @param db - The local database.
+ * @param filePath - The path of the database to import, it gets migrated to the current schema.
+ * @param source - The path or URL the database was copied from, for the report.
+ * @param options - The time window for near duplicates and the log of the migration.
+ * @returns - The report of the merge.
+ */
+export const mergeHistory = (
+  db: Database,
+  filePath: string,
+  source: string,
+  { window = 0, log = () => {} }: MergeOptions = {}
+): ImportReport => {
+  // Older backups lack tables and columns
+  const importDb = new database(filePath);
+  try {
+    runMigrations(importDb, { log });
+  } finally {
+    importDb.close();
+  }
+
+  db.prepare("ATTACH DATABASE ? AS imported").run(filePath);
+  try {
+    return db.transaction((): ImportReport => {
+      const report: ImportReport = {
+        source,
+        tables: {} as ImportReport["tables"],
+        conflicts: [],
+        nearDuplicates: [],
+      };
+      for (const table of IMPORT_TABLES) {
+        const { table: name, content, columns, select } = sources[table];
+        const rows = (db.prepare(`SELECT COUNT(*) AS count FROM imported.${name}`).get() as any)
+          .count;
+        const matching = (
+          db
+            .prepare(
+              `SELECT COUNT(*) AS count FROM imported.${name} i
+              JOIN main.${name} m ON m.id = i.id AND m.timestamp = i.timestamp`
+            )
+            .get() as any
+        ).count;
+        const conflicts: ImportConflict[] = db
+          .prepare(
+            `SELECT i.id, i.timestamp FROM imported.${name} i
+            JOIN main.${name} m ON m.id = i.id AND m.timestamp = i.timestamp
+            WHERE ${content.map((column) => `m.${column} IS NOT i.${column}`).join(" OR ")}
+            ORDER BY i.timestamp, i.id`
+          )
+          .all()
+          .map((row: any) => ({ table, id: row.id, timestamp: row.timestamp }));
+        // The local timestamp is taken from the row with the smallest distance
+        const nearRows: any[] =
+          window > 0
+            ? db
+                .prepare(
+                  `SELECT i.rowid, i.id, i.timestamp, m.timestamp AS local,
+                    MIN(ABS(julianday(m.timestamp) - julianday(i.timestamp))) AS distance
+                  FROM imported.${name} i
+                  JOIN main.${name} m ON m.id = i.id AND m.timestamp IS NOT i.timestamp
+                    AND ${content.map((column) => `m.${column} IS i.${column}`).join(" AND ")}
+                  WHERE NOT EXISTS (
+                    SELECT 1 FROM main.${name} e WHERE e.id = i.id AND e.timestamp = i.timestamp
+                  )
+                  AND ABS(julianday(m.timestamp) - julianday(i.timestamp)) * 86400000 <= ?
+                  GROUP BY i.rowid
+                  ORDER BY i.timestamp, i.id`
+                )
+                .all(window)
+            : [];
+        const nearDuplicates: ImportNearDuplicate[] = nearRows.map((row) => ({
+          table,
+          id: row.id,
+          timestamp: row.timestamp,
+          localTimestamp: row.local,
+        }));
+        const imported = db
+          .prepare(
+            `INSERT OR IGNORE INTO main.${name} (${columns}) SELECT ${select} FROM imported.${name}
+            WHERE rowid NOT IN (SELECT value FROM json_each(?))`
+          )
+          .run(JSON.stringify(nearRows.map((row) => row.rowid))).changes;
+        report.tables[table] = {
+          rows,
+          imported,
+          duplicates: matching - conflicts.length,
+          nearDuplicates: nearDuplicates.length,
+          conflicts: conflicts.length,
+        };
+        report.conflicts.push(...conflicts);
+        report.nearDuplicates.push(...nearDuplicates);
+      }
+      // Changed fields belong to their change, conflicting changes keep their local fields
+      db.exec(
+        `INSERT OR IGNORE INTO main.field_changes (id, timestamp, path, old, new, op)
+        SELECT f.id, f.timestamp, f.path, f.old, f.new, f.op FROM imported.field_changes f
+        JOIN imported.changes i ON i.id = f.id AND i.timestamp = f.timestamp
+        JOIN main.changes m ON m.id = i.id AND m.timestamp = i.timestamp
+        WHERE m.type IS i.type AND m.changes IS i.changes
+        ORDER BY f.rowid`
+      );
+      return report;
+    })();
+  } finally {
+    db.prepare("DETACH DATABASE imported").run();
+  }
+};
@@ -0,0 +1,132 @@
+// logger.test.ts
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import { Logger, parseLogRotation } from "./logger.js";
+
+describe("logger", () => {
+  let logDir: string;
+  let filePath: string;
+
+  const readLines = (file: string = filePath) => fs.readFileSync(file, "utf8").trim().split("\n");
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), "vitest-logger"));
+    filePath = path.join(logDir, "orw.log");
+    console.log = vi.fn();
+    console.error = vi.fn();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-14T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(logDir, { recursive: true });
+  });
+
+  test("should write text lines with levels and context fields", () => {
+    const logger = new Logger({ filePath, quiet: true });
+    const check = logger.child({ run: 42 });
+
+    logger.debug("dropped below the minimum level");
+    logger.info("API check");
+    check.warn("retry in 5 seconds", { model: "openai/gpt-4" });
+    check.error("check failed", { reason: "HTTP status 500" });
+    logger.close();
+
+    expect(readLines()).toEqual([
+      "[2024-05-14T12:00:00.000Z] API check",
+      "[2024-05-14T12:00:00.000Z] Warning: retry in 5 seconds run=42 model=openai/gpt-4",
+      '[2024-05-14T12:00:00.000Z] Error: check failed run=42 reason="HTTP status 500"',
+    ]);
+    // Quiet loggers only print warnings and errors
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  test("should write JSON lines", () => {
+    const logger = new Logger({ filePath, format: "json", level: "debug" });
+
+    logger.child({ route: "/api/lists" }).debug("GET /api/lists", { status: 200 });
+    logger.close();
+
+    expect(JSON.parse(readLines()[0])).toEqual({
+      timestamp: "2024-05-14T12:00:00.000Z",
+      level: "debug",
+      message: "GET /api/lists",
+      route: "/api/lists",
+      status: 200,
+    });
+    expect(console.log).toHaveBeenCalledWith(readLines()[0]);
+  });
+
+  test("should rotate the log file by size and keep the configured number of files", () => {
+    const logger = new Logger({ filePath, rotation: { maxSize: 100, keep: 2 } });
+
+    // Every line has 41 bytes, two of them fit into one file
+    for (let index = 0; index < 7; index++) {
+      logger.info(`entry ${index}`.padEnd(13, "."));
+    }
+    logger.close();
+
+    expect(fs.readdirSync(logDir).sort()).toEqual(["orw.log", "orw.log.1", "orw.log.2"]);
+    expect(readLines()).toEqual(["[2024-05-14T12:00:00.000Z] entry 6......"]);
+    expect(readLines(`${filePath}.1`)).toHaveLength(2);
+    expect(readLines(`${filePath}.2`)[0]).toContain("entry 2");
+  });
+
+  test("should follow rotations of the log file by other processes", () => {
+    const server = new Logger({ filePath, rotation: { maxSize: 100, keep: 2 } });
+    const cli = new Logger({ filePath, rotation: { maxSize: 100, keep: 2 } });
+
+    // Every line has 41 bytes, the third one rotates the shared file
+    server.info("server 0.....");
+    cli.info("cli 0........");
+    cli.info("cli 1........");
+    server.info("server 1.....");
+    server.close();
+    cli.close();
+
+    expect(fs.readdirSync(logDir).sort()).toEqual(["orw.log", "orw.log.1"]);
+    expect(readLines(`${filePath}.1`)).toEqual([
+      "[2024-05-14T12:00:00.000Z] server 0.....",
+      "[2024-05-14T12:00:00.000Z] cli 0........",
+    ]);
+    expect(readLines()).toEqual([
+      "[2024-05-14T12:00:00.000Z] cli 1........",
+      "[2024-05-14T12:00:00.000Z] server 1.....",
+    ]);
+  });
+
+  test("should rotate the log file daily", () => {
+    fs.writeFileSync(filePath, "[2024-05-13T23:00:00.000Z] yesterday\n");
+    fs.utimesSync(
+      filePath,
+      new Date("2024-05-13T23:00:00.000Z"),
+      new Date("2024-05-13T23:00:00.000Z")
+    );
+    const logger = new Logger({ filePath, rotation: { period: "daily", keep: 7 } });
+
+    logger.info("today");
+    vi.setSystemTime(new Date("2024-05-14T23:59:59.000Z"));
+    logger.info("still today");
+    logger.close();
+
+    expect(readLines(`${filePath}.1`)).toEqual(["[2024-05-13T23:00:00.000Z] yesterday"]);
+    expect(readLines()).toHaveLength(2);
+  });
+
+  test("should parse log rotation expressions", () => {
+    expect(parseLogRotation("size=10M,keep=3")).toEqual({ maxSize: 10_485_760, keep: 3 });
+    expect(parseLogRotation("daily")).toEqual({ period: "daily", keep: 5 });
+    expect(parseLogRotation("hourly, size=512KB")).toEqual({
+      period: "hourly",
+      maxSize: 524_288,
+      keep: 5,
+    });
+    expect(parseLogRotation("off")).toBeUndefined();
+    expect(() => parseLogRotation("weekly")).toThrow('Invalid log rotation rule "weekly"');
+    expect(() => parseLogRotation("daily,keep=0")).toThrow("at least one file");
+  });
+});
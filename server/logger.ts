@@ -0,0 +1,360 @@
+// logger.ts
+import fs from "node:fs";
+import { Buffer } from "node:buffer";
+
+/**
+ * Represents the severity of a log entry, from most to least verbose.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Represents the output format of log entries, plain text lines or one JSON object per line.
+ */
+export type LogFormat = "text" | "json";
+
+/**
+ * Represents the context fields of a log entry, e.g. `{ run: 42, model: "openai/gpt-4" }`.
+ */
+export type LogFields = { [name: string]: string | number | boolean | null | undefined };
+
+/**
+ * Represents the period of time based log rotation.
+ */
+export type RotationPeriod = "hourly" | "daily";
+
+/**
+ * Represents when the log file gets rotated and how many rotated files are kept.
+ */
+export interface LogRotation {
+  /** Rotate before the log file grows beyond this size in bytes. */
+  maxSize?: number;
+  /** Rotate when the first entry of a new hour or day (UTC) gets written. */
+  period?: RotationPeriod;
+  /** Number of rotated files to keep, e.g. `orw.log.1` (newest) to `orw.log.5`. */
+  keep: number;
+}
+
+/**
+ * Represents the logger options.
+ */
+export interface LoggerOptions {
+  /** Minimum level of entries to write, `info` by default. */
+  level?: LogLevel;
+  /** Output format, `text` by default. */
+  format?: LogFormat;
+  /** Path to the log file, log to the console only if not set. */
+  filePath?: string;
+  /** Rotation of the log file, no rotation if not set. */
+  rotation?: LogRotation;
+  /** Only write debug and info entries to the log file, keeps the console free for command output. */
+  quiet?: boolean;
+}
+
+/**
+ * Default log rotation, keep five files of up to 10 MiB each.
+ */
+export const DEFAULT_LOG_ROTATION = "size=10M,keep=5";
+
+/**
+ * Order of the log levels, entries below the configured level get dropped.
+ */
+const levelOrder: { [level in LogLevel]: number } = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Prefixes of text entries by level, informational entries have none.
+ */
+const levelPrefix: { [level in LogLevel]: string } = {
+  debug: "Debug: ",
+  info: "",
+  warn: "Warning: ",
+  error: "Error: ",
+};
+
+/**
+ * Multipliers for the units allowed in log file sizes.
+ */
+const sizeUnits: { [unit: string]: number } = { "": 1, K: 1_024, M: 1_048_576, G: 1_073_741_824 };
+
+/**
+ * Extracts the period of a timestamp for time based rotation, timestamps are UTC.
+ */
+const rotationPeriods: { [period in RotationPeriod]: (date: Date) => string } = {
+  hourly: (date) => date.toISOString().slice(0, 13),
+  daily: (date) => date.toISOString().slice(0, 10),
+};
+
+/**
+ * Checks if a string is a valid log level.
+ * @param level - The string to check.
+ * @returns - True if the string is a log level.
+ */
+export const isLogLevel = (level: string): level is LogLevel => level in levelOrder;
+
+/**
+ * Parses a log rotation expression of comma separated rules, `off` disables rotation.
+ * @example `"size=10M,keep=5"`, `"daily,keep=7"`, `"off"`
+ * @param expression - The log rotation expression.
+ * @returns - The parsed log rotation, undefined if rotation is disabled.
+ */
+export function parseLogRotation(expression: string): LogRotation | undefined {
+  if (expression.trim() === "off") {
+    return undefined;
+  }
+  const rotation: LogRotation = { keep: 5 };
+  for (const rule of expression.split(",")) {
+    const match = rule
+      .trim()
+      .match(/^(?:(hourly|daily)|size\s*=\s*(\d+)([KMG]?)B?|keep\s*=\s*(\d+))$/i);
+    if (!match) {
+      throw new Error(`Invalid log rotation rule "${rule.trim()}", expected e.g. "size=10M"`);
+    }
+    if (match[1]) {
+      rotation.period = match[1].toLowerCase() as RotationPeriod;
+    } else if (match[2]) {
+      rotation.maxSize = parseInt(match[2], 10) * sizeUnits[match[3].toUpperCase()];
+    } else {
+      rotation.keep = parseInt(match[4], 10);
+    }
+  }
+  if (rotation.keep < 1) {
+    throw new Error("Log rotation has to keep at least one file");
+  }
+  return rotation;
+}
+
+/**
+ * Formats an entry as text line, e.g. `[2024-05-14T12:00:00.000Z] Error: check failed run=42`.
+ * @param timestamp - The time of the entry.
+ * @param level - The level of the entry.
+ * @param message - The message.
+ * @param fields - The context fields, undefined fields are left out.
+ * @returns - The formatted line without newline.
+ */
+const formatText = (timestamp: Date, level: LogLevel, message: string, fields: LogFields) => {
+  const context = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) =>
+      typeof value === "string" && /^[^\s"=]+$/.test(value)
+        ? ` ${name}=${value}`
+        : ` ${name}=${JSON.stringify(value)}`
+    )
+    .join("");
+  return `[${timestamp.toISOString()}] ${levelPrefix[level]}${message}${context}`;
+};
+
+/**
+ * Formats an entry as JSON line, context fields become properties next to the message.
+ * @param timestamp - The time of the entry.
+ * @param level - The level of the entry.
+ * @param message - The message.
+ * @param fields - The context fields, undefined fields are left out.
+ * @returns - The formatted line without newline.
+ */
+const formatJSON = (timestamp: Date, level: LogLevel, message: string, fields: LogFields) =>
+  JSON.stringify({ timestamp: timestamp.toISOString(), level, message, ...fields });
+
+/**
+ * A log file that gets rotated by size or time, shared by a logger and its children.
+ * Other processes may write to and rotate the same file (e.g. `orw check` run by cron next to
+ * the server), so the size is taken from the file and it gets reopened once it was rotated.
+ */
+class LogFile {
+  private fd: number;
+  private size: number;
+  private period: string | undefined;
+
+  /**
+   * Opens a log file for appending, it gets created if necessary.
+   * @param filePath - The path to the log file.
+   * @param rotation - The rotation of the log file.
+   */
+  constructor(
+    readonly filePath: string,
+    readonly rotation?: LogRotation
+  ) {
+    this.fd = fs.openSync(filePath, "a");
+    const stats = fs.fstatSync(this.fd);
+    this.size = stats.size;
+    // An existing log file belongs to the period of its last entry
+    this.period = this.periodOf(stats.size > 0 ? stats.mtime : new Date());
+  }
+
+  /**
+   * Appends a line to the log file, rotates the file before if necessary.
+   * @param line - The line including the newline.
+   * @param timestamp - The time of the entry.
+   */
+  write(line: string, timestamp: Date) {
+    this.sync(timestamp);
+    const bytes = Buffer.byteLength(line);
+    const period = this.periodOf(timestamp);
+    const maxSize = this.rotation?.maxSize;
+    if (
+      this.size > 0 &&
+      (period !== this.period || (maxSize !== undefined && this.size + bytes > maxSize))
+    ) {
+      this.rotate();
+    }
+    this.period = period;
+    fs.writeSync(this.fd, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Closes the log file.
+   */
+  close() {
+    fs.closeSync(this.fd);
+  }
+
+  /**
+   * Gets the rotation period of a point in time.
+   * @param date - The point in time.
+   * @returns - The period, undefined without time based rotation.
+   */
+  private periodOf(date: Date): string | undefined {
+    return this.rotation?.period ? rotationPeriods[this.rotation.period](date) : undefined;
+  }
+
+  /**
+   * Reopens the log file if another process rotated it, updates the size from the file.
+   * @param timestamp - The time of the entry about to be written.
+   */
+  private sync(timestamp: Date) {
+    const opened = fs.fstatSync(this.fd);
+    let current: fs.Stats | undefined;
+    try {
+      current = fs.statSync(this.filePath);
+    } catch {
+      // Rotated without a new file yet
+    }
+    if (current && current.ino === opened.ino && current.dev === opened.dev) {
+      this.size = opened.size;
+      return;
+    }
+    fs.closeSync(this.fd);
+    this.fd = fs.openSync(this.filePath, "a");
+    const stats = fs.fstatSync(this.fd);
+    this.size = stats.size;
+    this.period = this.periodOf(stats.size > 0 ? stats.mtime : timestamp);
+  }
+
+  /**
+   * Renames the log file to `<name>.1`, shifts older rotated files and removes the oldest one.
+   */
+  private rotate() {
+    fs.closeSync(this.fd);
+    const keep = this.rotation!.keep;
+    fs.rmSync(`${this.filePath}.${keep}`, { force: true });
+    for (let index = keep - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.filePath}.${index}`)) {
+        fs.renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+      }
+    }
+    fs.renameSync(this.filePath, `${this.filePath}.1`);
+    this.fd = fs.openSync(this.filePath, "a");
+    this.size = 0;
+  }
+}
+
+/**
+ * Writes log entries with levels and context fields to the console and an optional log file.
+ */
+export class Logger {
+  private options: LoggerOptions;
+  private fields: LogFields;
+  private file: LogFile | undefined;
+
+  /**
+   * Creates a new logger.
+   * @param options - The logger options.
+   * @param fields - Context fields added to every entry, e.g. `{ component: "http" }`.
+   */
+  constructor(options: LoggerOptions = {}, fields: LogFields = {}) {
+    this.options = options;
+    this.fields = fields;
+    if (options.filePath) {
+      this.file = new LogFile(options.filePath, options.rotation);
+    }
+  }
+
+  /**
+   * Creates a logger adding context fields to every entry, it writes to the same log file.
+   * @param fields - The additional context fields, e.g. `{ run: 42 }`.
+   * @returns - The child logger.
+   */
+  child(fields: LogFields): Logger {
+    const child = new Logger(
+      { ...this.options, filePath: undefined },
+      { ...this.fields, ...fields }
+    );
+    child.file = this.file;
+    return child;
+  }
+
+  /**
+   * Logs a message for debugging.
+   * @param message - The message.
+   * @param fields - Context fields of this entry.
+   */
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  /**
+   * Logs an informational message.
+   * @param message - The message.
+   * @param fields - Context fields of this entry.
+   */
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  /**
+   * Logs a warning.
+   * @param message - The message.
+   * @param fields - Context fields of this entry.
+   */
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  /**
+   * Logs an error.
+   * @param message - The message.
+   * @param fields - Context fields of this entry.
+   */
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  /**
+   * Closes the log file, also for all child loggers.
+   */
+  close() {
+    this.file?.close();
+    this.file = undefined;
+  }
+
+  /**
+   * Formats an entry and writes it to the console and the log file.
+   * @param level - The level of the entry.
+   * @param message - The message.
+   * @param fields - Context fields of this entry, added to the fields of the logger.
+   */
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (levelOrder[level] < levelOrder[this.options.level ?? "info"]) {
+      return;
+    }
+    const timestamp = new Date();
+    const format = this.options.format === "json" ? formatJSON : formatText;
+    const line = format(timestamp, level, message, { ...this.fields, ...fields });
+
+    if (levelOrder[level] >= levelOrder.warn) {
+      console.error(line);
+    } else if (!this.options.quiet) {
+      console.log(line);
+    }
+    this.file?.write(`${line}\n`, timestamp);
+  }
+}
@@ -0,0 +1,58 @@
+// metrics.test.ts
+import { describe, test, expect } from "vitest";
+import { MetricsRegistry } from "./metrics.js";
+
+describe("metrics", () => {
+  test("should render counters and gauges in Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests by route");
+    const size = registry.gauge("size_bytes", "Size\nin bytes");
+
+    requests.inc({ route: "/", status: "200" });
+    requests.inc({ status: "200", route: "/" }, 2);
+    requests.inc({ route: 'say "hi"\\', status: "404" });
+    size.set(1024);
+
+    expect(requests.get({ route: "/", status: "200" })).toBe(3);
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests by route",
+        "# TYPE requests_total counter",
+        'requests_total{route="/",status="200"} 3',
+        'requests_total{route="say \\"hi\\"\\\\",status="404"} 1',
+        "# HELP size_bytes Size\\nin bytes",
+        "# TYPE size_bytes gauge",
+        "size_bytes 1024",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("should render cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram("duration_seconds", "Duration", [0.1, 1]);
+
+    duration.observe(0.05, { outcome: "success" });
+    duration.observe(0.5, { outcome: "success" });
+    duration.observe(5, { outcome: "success" });
+
+    expect(duration.getCount({ outcome: "success" })).toBe(3);
+    expect(registry.render().split("\n").slice(2, -1)).toEqual([
+      'duration_seconds_bucket{outcome="success",le="0.1"} 1',
+      'duration_seconds_bucket{outcome="success",le="1"} 2',
+      'duration_seconds_bucket{outcome="success",le="+Inf"} 3',
+      'duration_seconds_sum{outcome="success"} 5.55',
+      'duration_seconds_count{outcome="success"} 3',
+    ]);
+  });
+
+  test("should return registered metrics by name", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter("events_total", "Events");
+
+    expect(registry.counter("events_total", "Events")).toBe(counter);
+    expect(() => registry.gauge("events_total", "Events")).toThrow(
+      "Metric events_total is already registered as counter"
+    );
+  });
+});
@@ -0,0 +1,302 @@
+// metrics.ts
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Default histogram buckets in seconds, from fast database queries to slow API fetches.
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Represents the labels of a metric sample, e.g. `{ outcome: "success" }`.
+ */
+export type Labels = { [name: string]: string };
+
+/**
+ * Formats labels for a sample line, values get escaped.
+ * @param labels - The labels.
+ * @returns - The formatted labels, e.g. `{outcome="success"}`, empty without labels.
+ */
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escape = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(",")}}`;
+};
+
+/**
+ * Formats a sample value, infinite values have a special notation.
+ * @param value - The value.
+ * @returns - The formatted value.
+ */
+const formatValue = (value: number): string => {
+  if (value === Infinity) {
+    return "+Inf";
+  }
+  if (value === -Infinity) {
+    return "-Inf";
+  }
+  return String(value);
+};
+
+/**
+ * Identifies a label combination independent of the order of the labels.
+ * @param labels - The labels.
+ * @returns - The key of the label combination.
+ */
+const labelKey = (labels: Labels): string =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * A metric with a value per label combination.
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  /**
+   * Creates a new metric.
+   * @param name - The metric name, e.g. `orw_checks_total`.
+   * @param help - The description of the metric.
+   * @param type - The Prometheus metric type.
+   */
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  /**
+   * Gets the value for a label combination, creating it if necessary.
+   * @param labels - The labels.
+   * @param initial - Creates the initial value.
+   * @returns - The series of the label combination.
+   */
+  protected seriesOf(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Renders the sample lines of all label combinations.
+   * @returns - The sample lines.
+   */
+  protected abstract samples(): string[];
+
+  /**
+   * Renders the metric in Prometheus text format, including help and type.
+   * @returns - The lines of the metric.
+   */
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+}
+
+/**
+ * A metric counting events, it only ever increases.
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  /**
+   * Increases the counter.
+   * @param labels - The labels of the event.
+   * @param value - The amount to increase the counter by.
+   */
+  inc(labels: Labels = {}, value: number = 1) {
+    this.seriesOf(labels, () => 0).value += value;
+  }
+
+  /**
+   * Gets the current count.
+   * @param labels - The labels.
+   * @returns - The count, 0 if nothing was counted.
+   */
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * A metric holding a value that can go up and down.
+ */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  /**
+   * Sets the gauge to a value.
+   * @param value - The value.
+   * @param labels - The labels.
+   */
+  set(value: number, labels: Labels = {}) {
+    this.seriesOf(labels, () => 0).value = value;
+  }
+
+  /**
+   * Gets the current value.
+   * @param labels - The labels.
+   * @returns - The value, undefined if it was never set.
+   */
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(labelKey(labels))?.value;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * A metric sampling observations, e.g. durations, into cumulative buckets.
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  /**
+   * Creates a new histogram.
+   * @param name - The metric name, e.g. `orw_check_duration_seconds`.
+   * @param help - The description of the metric.
+   * @param buckets - The upper bounds of the buckets, ascending.
+   */
+  constructor(
+    name: string,
+    help: string,
+    readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, "histogram");
+  }
+
+  /**
+   * Records an observation.
+   * @param value - The observed value.
+   * @param labels - The labels of the observation.
+   */
+  observe(value: number, labels: Labels = {}) {
+    const series = this.seriesOf(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Gets the number of observations.
+   * @param labels - The labels.
+   * @returns - The number of observations, 0 if nothing was observed.
+   */
+  getCount(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value.count ?? 0;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds the metrics of a component and renders them in Prometheus text format.
+ * Registering a name again returns the existing metric.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+
+  /**
+   * Registers a counter.
+   * @param name - The metric name, should end with `_total`.
+   * @param help - The description of the metric.
+   * @returns - The counter.
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help));
+  }
+
+  /**
+   * Registers a gauge.
+   * @param name - The metric name.
+   * @param help - The description of the metric.
+   * @returns - The gauge.
+   */
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, () => new Gauge(name, help));
+  }
+
+  /**
+   * Registers a histogram.
+   * @param name - The metric name, should end with the unit, e.g. `_seconds`.
+   * @param help - The description of the metric.
+   * @param buckets - The upper bounds of the buckets, ascending.
+   * @returns - The histogram.
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Renders all metrics in Prometheus text format.
+   * @returns - The metrics, one line per sample.
+   */
+  render(): string {
+    return [...this.metrics.values()].flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  /**
+   * Gets a registered metric or registers a new one.
+   * @param name - The metric name.
+   * @param create - Creates the metric.
+   * @returns - The metric.
+   * @throws - If the name is registered for a metric of another type.
+   */
+  private register<T extends Counter | Gauge | Histogram>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    const metric = create();
+    if (existing) {
+      if (existing.type !== metric.type) {
+        throw new Error(`Metric ${name} is already registered as ${existing.type}`);
+      }
+      return existing as T;
+    }
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
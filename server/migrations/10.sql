@@ -0,0 +1,2 @@
+ALTER TABLE webhook_outbox
+    ADD webhook TEXT;
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS snapshots (
+    hash TEXT PRIMARY KEY,
+    data TEXT
+);
+
+CREATE TABLE IF NOT EXISTS snapshot_history (
+    timestamp TEXT PRIMARY KEY,
+    hash TEXT NOT NULL
+);
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS check_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    status TEXT,
+    model_count INTEGER,
+    change_count INTEGER
+);
+
+ALTER TABLE
+    changes
+ADD
+    run_id INTEGER;
@@ -0,0 +1,53 @@
+CREATE TABLE IF NOT EXISTS model_versions (
+    id TEXT NOT NULL,
+    valid_from TEXT NOT NULL,
+    valid_until TEXT,
+    data TEXT NOT NULL,
+    name TEXT GENERATED ALWAYS AS (data ->> '$.name') STORED,
+    context_length INTEGER GENERATED ALWAYS AS (CAST(data ->> '$.context_length' AS INTEGER)) STORED,
+    max_completion_tokens INTEGER GENERATED ALWAYS AS (CAST(data ->> '$.top_provider.max_completion_tokens' AS INTEGER)) STORED,
+    modality TEXT GENERATED ALWAYS AS (data ->> '$.architecture.modality') STORED,
+    prompt_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.prompt' AS REAL)) STORED,
+    completion_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.completion' AS REAL)) STORED,
+    request_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.request' AS REAL)) STORED,
+    image_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.image' AS REAL)) STORED,
+    PRIMARY KEY (id, valid_from)
+);
+CREATE INDEX IF NOT EXISTS model_versions_current ON model_versions (id) WHERE valid_until IS NULL;
+
+CREATE TABLE IF NOT EXISTS field_changes (
+    id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    path TEXT NOT NULL,
+    old TEXT,
+    new TEXT,
+    op TEXT,
+    PRIMARY KEY (id, timestamp, path)
+);
+CREATE INDEX IF NOT EXISTS field_changes_path ON field_changes (path, timestamp);
+
+CREATE INDEX IF NOT EXISTS changes_timestamp ON changes (timestamp DESC, id);
+CREATE INDEX IF NOT EXISTS changes_run_id ON changes (run_id);
+
+INSERT OR IGNORE INTO model_versions (id, valid_from, data)
+    SELECT m.id, COALESCE(
+        (SELECT MAX(c.timestamp) FROM changes c WHERE c.id = m.id AND c.type != 'removed'),
+        m.timestamp
+    ), m.data
+    FROM models m;
+
+INSERT OR IGNORE INTO model_versions (id, valid_from, valid_until, data)
+    SELECT r.id, COALESCE(
+        (SELECT MAX(c.timestamp) FROM changes c
+            WHERE c.id = r.id AND c.type != 'removed' AND c.timestamp < r.timestamp),
+        r.timestamp
+    ), r.timestamp, r.data
+    FROM removed_models r;
+
+INSERT OR IGNORE INTO field_changes (id, timestamp, path, old, new, op)
+    SELECT c.id, c.timestamp, f.key, f.value -> '$.old', f.value -> '$.new', f.value ->> '$.op'
+    FROM changes c, json_each(c.changes) f
+    WHERE c.type = 'changed' AND json_valid(c.changes) AND f.type = 'object'
+    ORDER BY c.rowid, f.id;
+
+DROP TABLE models;
@@ -6,8 +6,12 @@ import { type Database } from "better-sqlite3";
 export interface Migration {
   /** Migration version number. */
   version: number;
-  /** Function to apply the migration. */
+  /** Short description of the migration, shown in the migration status. */
+  description: string;
+  /** Function to apply the migration, the checksum covers the SQL it executes. */
   up: (db: Database) => void;
+  /** Function to roll back the migration, irreversible migrations have none. */
+  down?: (db: Database) => void;
 }
 
 /**
@@ -16,6 +20,7 @@ export interface Migration {
 const migrations: Migration[] = [
   {
     version: 1,
+    description: "Create models, changes and migrations tables",
     up: (db: Database) => {
       db.exec(
         `
@@ -46,6 +51,7 @@ const migrations: Migration[] = [
   },
   {
     version: 2,
+    description: "Add change type and primary key to changes",
     up: (db: Database) => {
       // Create a new table with the primary key constraint
       db.exec(
@@ -76,6 +82,7 @@ const migrations: Migration[] = [
   },
   {
     version: 3,
+    description: "Create removed_models and added_models tables",
     up: (db: Database) => {
       // Fix changes entries without data
       db.exec(
@@ -122,9 +129,15 @@ const migrations: Migration[] = [
       `
       );
     },
+    down: (db: Database) => {
+      // The fixed changes entries are kept
+      db.exec(`DROP TABLE added_models`);
+      db.exec(`DROP TABLE removed_models`);
+    },
   },
   {
     version: 4,
+    description: "Create last_api_check table",
     up: (db: Database) => {
       // Create table to store last API check timestamp
       db.exec(
@@ -136,9 +149,13 @@ const migrations: Migration[] = [
       `
       );
     },
+    down: (db: Database) => {
+      db.exec(`DROP TABLE last_api_check`);
+    },
   },
   {
     version: 5,
+    description: "Add last_status to last_api_check",
     up: (db: Database) => {
       // Create column to store last API check result status
       db.exec(
@@ -148,6 +165,222 @@ const migrations: Migration[] = [
       `
       );
     },
+    down: (db: Database) => {
+      db.exec(`ALTER TABLE last_api_check DROP COLUMN last_status`);
+    },
+  },
+  {
+    version: 6,
+    description: "Create snapshots and snapshot_history tables",
+    up: (db: Database) => {
+      // Create table to store distinct model lists, de-duplicated by content hash
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS snapshots (
+          hash TEXT PRIMARY KEY,
+          data TEXT
+        );
+      `
+      );
+      // Create table to store when a model list became current
+      // the same list can become current again (e.g. after a revert upstream)
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS snapshot_history (
+          timestamp TEXT PRIMARY KEY,
+          hash TEXT NOT NULL
+        );
+      `
+      );
+    },
+    down: (db: Database) => {
+      db.exec(`DROP TABLE snapshot_history`);
+      db.exec(`DROP TABLE snapshots`);
+    },
+  },
+  {
+    version: 7,
+    description: "Create check_runs table and link changes to check runs",
+    up: (db: Database) => {
+      // Create table to store one row per API check
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS check_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          status TEXT,
+          model_count INTEGER,
+          change_count INTEGER
+        );
+      `
+      );
+      // Create column to link changes to the check run that detected them
+      db.exec(
+        `
+        ALTER TABLE changes
+          ADD run_id INTEGER
+      `
+      );
+    },
+    down: (db: Database) => {
+      db.exec(`ALTER TABLE changes DROP COLUMN run_id`);
+      db.exec(`DROP TABLE check_runs`);
+    },
+  },
+  {
+    version: 8,
+    description: "Create webhook_outbox and webhook_deliveries tables",
+    up: (db: Database) => {
+      // Create table to queue webhook payloads until they are delivered
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS webhook_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          status TEXT NOT NULL
+        );
+      `
+      );
+      // Create table to log every webhook delivery attempt
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          outbox_id INTEGER NOT NULL,
+          timestamp TEXT NOT NULL,
+          status_code INTEGER,
+          error TEXT,
+          duration_ms INTEGER
+        );
+      `
+      );
+    },
+    down: (db: Database) => {
+      db.exec(`DROP TABLE webhook_deliveries`);
+      db.exec(`DROP TABLE webhook_outbox`);
+    },
+  },
+  {
+    version: 9,
+    description: "Create model_versions and field_changes tables, replace models table",
+    up: (db: Database) => {
+      // Create table to store every version of a model, the current versions have no end
+      // typed columns are generated from the model data, so they can not get out of sync
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS model_versions (
+          id TEXT NOT NULL,
+          valid_from TEXT NOT NULL,
+          valid_until TEXT,
+          data TEXT NOT NULL,
+          name TEXT GENERATED ALWAYS AS (data ->> '$.name') STORED,
+          context_length INTEGER GENERATED ALWAYS AS (CAST(data ->> '$.context_length' AS INTEGER)) STORED,
+          max_completion_tokens INTEGER GENERATED ALWAYS AS (CAST(data ->> '$.top_provider.max_completion_tokens' AS INTEGER)) STORED,
+          modality TEXT GENERATED ALWAYS AS (data ->> '$.architecture.modality') STORED,
+          prompt_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.prompt' AS REAL)) STORED,
+          completion_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.completion' AS REAL)) STORED,
+          request_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.request' AS REAL)) STORED,
+          image_price REAL GENERATED ALWAYS AS (CAST(data ->> '$.pricing.image' AS REAL)) STORED,
+          PRIMARY KEY (id, valid_from)
+        );
+        CREATE INDEX IF NOT EXISTS model_versions_current ON model_versions (id) WHERE valid_until IS NULL;
+      `
+      );
+      // Create table to store one row per changed field, values are JSON encoded
+      db.exec(
+        `
+        CREATE TABLE IF NOT EXISTS field_changes (
+          id TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          path TEXT NOT NULL,
+          old TEXT,
+          new TEXT,
+          op TEXT,
+          PRIMARY KEY (id, timestamp, path)
+        );
+        CREATE INDEX IF NOT EXISTS field_changes_path ON field_changes (path, timestamp);
+      `
+      );
+      // Support paging through changes and loading the changes of a check run
+      db.exec(
+        `
+        CREATE INDEX IF NOT EXISTS changes_timestamp ON changes (timestamp DESC, id);
+        CREATE INDEX IF NOT EXISTS changes_run_id ON changes (run_id);
+      `
+      );
+      // Current models become current versions, valid since their last addition or change
+      db.exec(
+        `
+        INSERT OR IGNORE INTO model_versions (id, valid_from, data)
+          SELECT m.id, COALESCE(
+            (SELECT MAX(c.timestamp) FROM changes c WHERE c.id = m.id AND c.type != 'removed'),
+            m.timestamp
+          ), m.data
+          FROM models m
+      `
+      );
+      // Removed models become versions ending with the removal, older versions are unknown
+      db.exec(
+        `
+        INSERT OR IGNORE INTO model_versions (id, valid_from, valid_until, data)
+          SELECT r.id, COALESCE(
+            (SELECT MAX(c.timestamp) FROM changes c
+              WHERE c.id = r.id AND c.type != 'removed' AND c.timestamp < r.timestamp),
+            r.timestamp
+          ), r.timestamp, r.data
+          FROM removed_models r
+      `
+      );
+      // Split changed entries into their fields, entries fixed by migration 3 hold model data
+      db.exec(
+        `
+        INSERT OR IGNORE INTO field_changes (id, timestamp, path, old, new, op)
+          SELECT c.id, c.timestamp, f.key, f.value -> '$.old', f.value -> '$.new', f.value ->> '$.op'
+          FROM changes c, json_each(c.changes) f
+          WHERE c.type = 'changed' AND json_valid(c.changes) AND f.type = 'object'
+          ORDER BY c.rowid, f.id
+      `
+      );
+      db.exec(`DROP TABLE models`);
+    },
+    down: (db: Database) => {
+      db.exec(
+        `
+        CREATE TABLE models (
+          id TEXT PRIMARY KEY,
+          data TEXT,
+          timestamp TEXT
+        );
+        INSERT INTO models (id, data, timestamp)
+          SELECT id, data, valid_from FROM model_versions WHERE valid_until IS NULL;
+      `
+      );
+      db.exec(`DROP INDEX changes_run_id`);
+      db.exec(`DROP INDEX changes_timestamp`);
+      db.exec(`DROP TABLE field_changes`);
+      db.exec(`DROP TABLE model_versions`);
+    },
+  },
+  {
+    version: 10,
+    description: "Link webhook payloads to their webhook",
+    up: (db: Database) => {
+      // Create column for the name of the webhook, webhooks can share a url with other secrets or filters
+      db.exec(
+        `
+        ALTER TABLE webhook_outbox
+          ADD webhook TEXT
+      `
+      );
+    },
+    down: (db: Database) => {
+      db.exec(`ALTER TABLE webhook_outbox DROP COLUMN webhook`);
+    },
   },
 
   // Add more migrations here
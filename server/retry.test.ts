@@ -0,0 +1,85 @@
+// retry.test.ts
+import { describe, test, expect, vi, afterEach } from "vitest";
+import { CircuitBreaker, DEFAULT_RETRY_POLICY, backoffDelay, parseRetryAfter } from "./retry.js";
+
+describe("backoffDelay", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 1_000, maxDelay: 10_000 };
+
+  test("should double the delay with every attempt", () => {
+    expect(backoffDelay(0, policy, () => 1)).toBe(1_000);
+    expect(backoffDelay(1, policy, () => 1)).toBe(2_000);
+    expect(backoffDelay(3, policy, () => 1)).toBe(8_000);
+  });
+
+  test("should cap the delay", () => {
+    expect(backoffDelay(10, policy, () => 1)).toBe(10_000);
+  });
+
+  test("should apply jitter between half and the full delay", () => {
+    expect(backoffDelay(2, policy, () => 0)).toBe(2_000);
+    expect(backoffDelay(2, policy, () => 0.5)).toBe(3_000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-05-01T00:00:00.000Z");
+
+  test("should parse delay seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+  });
+
+  test("should parse HTTP dates", () => {
+    expect(parseRetryAfter("Wed, 01 May 2024 00:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter("Tue, 30 Apr 2024 00:00:00 GMT", now)).toBe(0);
+  });
+
+  test("should ignore missing or invalid values", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, failureThreshold: 3, cooldown: 60_000 };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("should open after reaching the failure threshold", () => {
+    const breaker = new CircuitBreaker(policy);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.canAttempt()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(breaker.canAttempt()).toBe(false);
+    expect(breaker.consecutiveFailures).toBe(3);
+  });
+
+  test("should allow a trial attempt after the cooldown and close on success", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(policy);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    vi.advanceTimersByTime(60_000);
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.canAttempt()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.consecutiveFailures).toBe(0);
+  });
+
+  test("should open again if the trial attempt fails", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(policy);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    vi.advanceTimersByTime(60_000);
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+  });
+});
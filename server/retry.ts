@@ -0,0 +1,140 @@
+// retry.ts
+import type { CircuitState } from "../shared/global";
+
+/**
+ * Represents the retry policy for OpenRouter API fetches.
+ */
+export interface RetryPolicy {
+  /** Delay before the first retry in milliseconds, doubles with every further retry. */
+  baseDelay: number;
+  /** Upper limit for the delay between retries in milliseconds. */
+  maxDelay: number;
+  /** Number of consecutive failures after which the circuit breaker opens. */
+  failureThreshold: number;
+  /** Time in milliseconds the circuit breaker stays open before allowing a trial fetch. */
+  cooldown: number;
+}
+
+/**
+ * Default retry policy.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelay: 30_000, // Thirty seconds
+  maxDelay: 600_000, // Ten minutes
+  failureThreshold: 8,
+  cooldown: 1_800_000, // Thirty minutes
+};
+
+/**
+ * Calculates the capped exponential backoff delay with jitter for a retry attempt.
+ * The delay lies randomly between half and the full exponential delay ("equal jitter"),
+ * so concurrent clients do not retry in lockstep.
+ * @param attempt - The number of the retry attempt, starting at 0.
+ * @param policy - The retry policy.
+ * @param random - Source of randomness between 0 and 1.
+ * @returns - The delay in milliseconds.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Parses the value of a Retry-After header, either delay seconds or an HTTP date.
+ * @param value - The header value.
+ * @param now - The current time in milliseconds.
+ * @returns - The requested delay in milliseconds or undefined if the value is missing or invalid.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1_000;
+  }
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(date - now, 0);
+}
+
+/**
+ * Circuit breaker for OpenRouter API fetches.
+ * After too many consecutive failures the circuit opens and no fetches are attempted
+ * until the cooldown has elapsed, then a single trial fetch decides whether it closes again.
+ */
+export class CircuitBreaker {
+  private policy: RetryPolicy;
+  private failures: number = 0;
+  private openUntil: Date | null = null;
+
+  /**
+   * Creates a new circuit breaker.
+   * @param policy - The retry policy to use.
+   */
+  constructor(policy: RetryPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Get the current state of the circuit breaker.
+   * @returns - The current circuit state.
+   */
+  get state(): CircuitState {
+    if (!this.openUntil) {
+      return "closed";
+    }
+    return Date.now() < this.openUntil.getTime() ? "open" : "half-open";
+  }
+
+  /**
+   * Get the number of consecutive failures.
+   * @returns - The number of consecutive failures.
+   */
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Get the time until which the circuit breaker stays open.
+   * @returns - The end of the cooldown or null if the circuit is closed.
+   */
+  get cooldownUntil(): Date | null {
+    return this.openUntil;
+  }
+
+  /**
+   * Checks whether a fetch may be attempted.
+   * @returns - True unless the circuit is open.
+   */
+  canAttempt(): boolean {
+    return this.state !== "open";
+  }
+
+  /**
+   * Records a successful fetch, closing the circuit.
+   */
+  recordSuccess() {
+    this.failures = 0;
+    this.openUntil = null;
+  }
+
+  /**
+   * Records a failed fetch, opening the circuit if the failure threshold is reached
+   * or a trial fetch in half-open state failed.
+   */
+  recordFailure() {
+    this.failures++;
+    if (this.state === "half-open" || this.failures >= this.policy.failureThreshold) {
+      this.openUntil = new Date(Date.now() + this.policy.cooldown);
+    }
+  }
+}
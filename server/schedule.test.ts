@@ -0,0 +1,57 @@
+// schedule.test.ts
+import { describe, test, expect } from "vitest";
+import { parseDuration, parseSchedule } from "./schedule.js";
+
+describe("parseSchedule", () => {
+  const from = new Date("2024-05-01T10:20:30.000Z"); // a Wednesday
+
+  test("should parse intervals with and without units", () => {
+    expect(parseSchedule("1h").next(from)).toEqual(new Date("2024-05-01T11:20:30.000Z"));
+    expect(parseSchedule("90m").next(from)).toEqual(new Date("2024-05-01T11:50:30.000Z"));
+    expect(parseSchedule(3_600_000).next(from)).toEqual(new Date("2024-05-01T11:20:30.000Z"));
+    expect(parseSchedule(" 2d ").expression).toBe("2d");
+  });
+
+  test("should reject intervals shorter than one minute", () => {
+    expect(() => parseSchedule("30s")).toThrow("shorter than one minute");
+  });
+
+  test("should find the next matching time for cron expressions", () => {
+    expect(parseSchedule("5 * * * *").next(from)).toEqual(new Date("2024-05-01T11:05:00.000Z"));
+    expect(parseSchedule("*/15 * * * *").next(from)).toEqual(new Date("2024-05-01T10:30:00.000Z"));
+    expect(parseSchedule("0 0 * * *").next(from)).toEqual(new Date("2024-05-02T00:00:00.000Z"));
+    expect(parseSchedule("0 9-17/4 * * 1-5").next(from)).toEqual(
+      new Date("2024-05-01T13:00:00.000Z")
+    );
+    expect(parseSchedule("0 0 1 */3 *").next(from)).toEqual(new Date("2024-07-01T00:00:00.000Z"));
+    // Sunday as 7
+    expect(parseSchedule("30 6 * * 7").next(from)).toEqual(new Date("2024-05-05T06:30:00.000Z"));
+  });
+
+  test("should match either day field if both are restricted", () => {
+    // 15th of the month or Friday, whichever comes first
+    expect(parseSchedule("0 0 15 * 5").next(from)).toEqual(new Date("2024-05-03T00:00:00.000Z"));
+  });
+
+  test("should always return a time strictly after the given time", () => {
+    const onTheHour = new Date("2024-05-01T10:00:00.000Z");
+    expect(parseSchedule("0 * * * *").next(onTheHour)).toEqual(
+      new Date("2024-05-01T11:00:00.000Z")
+    );
+  });
+
+  test("should reject invalid expressions", () => {
+    expect(() => parseSchedule("hourly")).toThrow("Invalid schedule");
+    expect(() => parseSchedule("60 * * * *")).toThrow("out of range");
+    expect(() => parseSchedule("0 0 30 2 *")).toThrow("never matches");
+  });
+});
+
+describe("parseDuration", () => {
+  test("should parse durations with and without units", () => {
+    expect(parseDuration("3h")).toBe(10_800_000);
+    expect(parseDuration(" 90s ")).toBe(90_000);
+    expect(parseDuration(500)).toBe(500);
+    expect(() => parseDuration("5 * * * *")).toThrow("Invalid duration");
+  });
+});
@@ -0,0 +1,181 @@
+// schedule.ts
+
+/**
+ * Represents a schedule for OpenRouter API checks.
+ */
+export interface Schedule {
+  /** The expression the schedule was created from. */
+  expression: string;
+  /**
+   * Calculates the next check time strictly after a given time.
+   * @param from - The time to calculate the next check time from.
+   * @returns - The next check time.
+   */
+  next: (from: Date) => Date;
+}
+
+/**
+ * Default schedule, check the API once per hour.
+ */
+export const DEFAULT_SCHEDULE = "1h";
+
+/**
+ * Minimum interval between API checks, don't hammer the OpenRouter API.
+ */
+const MIN_INTERVAL = 60_000; // One minute in milliseconds
+
+/**
+ * Multipliers for the units allowed in interval expressions.
+ */
+const intervalUnits: { [unit: string]: number } = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parses a duration with an optional unit (`ms`, `s`, `m`, `h`, `d`), plain numbers are milliseconds.
+ * @example `"3h"`, `"90m"`, `3600000`
+ * @param expression - The duration expression.
+ * @returns - The duration in milliseconds, undefined if the expression is no duration.
+ */
+function parseInterval(expression: string): number | undefined {
+  const match = expression.match(/^(\d+)\s*(ms|s|m|h|d)?$/);
+  return match ? parseInt(match[1], 10) * intervalUnits[match[2] ?? "ms"] : undefined;
+}
+
+/**
+ * Parses a duration, e.g. the maximum age of the last successful API check.
+ * @example `"3h"`, `"90m"`, `3600000`
+ * @param expression - The duration expression.
+ * @returns - The duration in milliseconds.
+ * @throws - If the expression is no duration.
+ */
+export function parseDuration(expression: string | number): number {
+  const trimmed = expression.toString().trim();
+  const duration = parseInterval(trimmed);
+  if (duration === undefined) {
+    throw new Error(`Invalid duration "${trimmed}", expected a number with an optional unit`);
+  }
+  return duration;
+}
+
+/**
+ * Allowed value ranges for the five cron fields: minute, hour, day of month, month, day of week.
+ */
+const cronRanges: [min: number, max: number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7], // 0 and 7 are both Sunday
+];
+
+/**
+ * Parses a schedule expression, either a fixed interval or a cron expression.
+ * Intervals are a number with an optional unit (`ms`, `s`, `m`, `h`, `d`), plain numbers are milliseconds.
+ * Cron expressions consist of the five standard fields and get evaluated in UTC.
+ * @example `"1h"`, `"90m"`, `3600000`, `"5 * * * *"`, `"0 *\/6 * * 1-5"`
+ * @param expression - The schedule expression.
+ * @returns - The parsed schedule.
+ */
+export function parseSchedule(expression: string | number): Schedule {
+  const trimmed = expression.toString().trim();
+  const interval = parseInterval(trimmed);
+  if (interval !== undefined) {
+    if (interval < MIN_INTERVAL) {
+      throw new Error(`Schedule interval "${trimmed}" is shorter than one minute`);
+    }
+    return {
+      expression: trimmed,
+      next: (from: Date) => new Date(from.getTime() + interval),
+    };
+  }
+
+  const fields = trimmed.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid schedule "${trimmed}", expected an interval or five cron fields`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseCronField(field, ...cronRanges[index])
+  );
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  // Standard cron behaviour: if both day fields are restricted, either one has to match
+  const daysRestricted = fields[2] !== "*";
+  const weekdaysRestricted = fields[4] !== "*";
+
+  const matchesDay = (date: Date): boolean => {
+    const dayMatch = days.has(date.getUTCDate());
+    const weekdayMatch = weekdays.has(date.getUTCDay());
+    if (daysRestricted && weekdaysRestricted) {
+      return dayMatch || weekdayMatch;
+    }
+    return dayMatch && weekdayMatch;
+  };
+
+  const next = (from: Date): Date => {
+    const date = new Date(from.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+    // Every valid expression matches at least once within a leap year cycle
+    const limit = from.getTime() + 5 * 366 * 86_400_000;
+    while (date.getTime() <= limit) {
+      if (!months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0);
+      } else if (!matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0);
+      } else if (!hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0);
+      } else if (!minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1);
+      } else {
+        return date;
+      }
+    }
+    throw new Error(`Schedule "${trimmed}" never matches`);
+  };
+
+  // Fail early for expressions that are valid, but never match (e.g. 30th of February)
+  next(new Date());
+
+  return { expression: trimmed, next };
+}
+
+/**
+ * Parses a single cron field into the set of matching values.
+ * Supports `*`, single values, ranges (`a-b`), steps (`*\/n`, `a-b/n`, `a/n`) and lists (`a,b-c`).
+ * @param field - The cron field to parse.
+ * @param min - The minimum allowed value.
+ * @param max - The maximum allowed value.
+ * @returns - The set of matching values.
+ */
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      start = parseInt(match[2], 10);
+      // A single value with a step (e.g. 5/15) runs until the end of the range
+      end = match[3] ? parseInt(match[3], 10) : match[4] ? max : start;
+    }
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
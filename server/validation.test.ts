@@ -0,0 +1,84 @@
+// validation.test.ts
+import { describe, test, expect } from "vitest";
+import { validateModelList } from "./validation.js";
+
+describe("validateModelList", () => {
+  const model = {
+    id: "1",
+    name: "Model 1",
+    description: "Description 1",
+    pricing: {
+      prompt: "0.01",
+      completion: "0.02",
+      request: "0.03",
+      image: "0.04",
+    },
+    context_length: 1024,
+    architecture: {
+      modality: "text",
+      tokenizer: "gpt2",
+      instruct_type: null,
+    },
+    top_provider: {
+      max_completion_tokens: 2048,
+      is_moderated: true,
+    },
+    per_request_limits: null,
+  };
+
+  test("should accept a valid model list", () => {
+    expect(validateModelList([model])).toEqual({
+      models: [model],
+      keptIds: [],
+      errors: [],
+      unknownFields: [],
+    });
+  });
+
+  test("should keep and report unknown fields", () => {
+    const extended = { ...model, created: 1, pricing: { ...model.pricing, web_search: "0" } };
+    const result = validateModelList([extended]);
+    expect(result.errors).toEqual([]);
+    expect(result.models).toEqual([extended]);
+    expect(result.unknownFields).toEqual(["created", "pricing.web_search"]);
+  });
+
+  test("should report missing fields and wrong types", () => {
+    const broken: any = { ...model, id: "2", context_length: "1024", architecture: null };
+    delete broken.name;
+    expect(validateModelList([broken]).errors).toEqual([
+      "model 2: name is missing",
+      "model 2: context_length is string, expected number",
+      "model 2: architecture is null, expected object",
+    ]);
+  });
+
+  test("should report duplicate ids and entries that are no objects", () => {
+    expect(validateModelList([model, model, "model"]).errors).toEqual([
+      "model 1: duplicate id",
+      "model #2: entry is string, expected object",
+    ]);
+  });
+
+  test("should leave invalid entries out of the validated list", () => {
+    const broken = { ...model, id: "2", context_length: "1024" };
+    const other = { ...model, id: "3" };
+    expect(validateModelList([model, broken, other, model]).models).toEqual([model, other]);
+  });
+
+  test("should replace invalid entries of known models by their known version", () => {
+    const known = { ...model, id: "2" };
+    const broken = { ...known, context_length: "1024" };
+    const result = validateModelList(
+      [model, broken, { ...broken, id: "3" }],
+      new Map([["2", known]])
+    );
+    expect(result.models).toEqual([model, known]);
+    expect(result.keptIds).toEqual(["2"]);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  test("should reject anything that is not an array", () => {
+    expect(validateModelList({ data: [] }).errors).toEqual(["model list is not an array"]);
+  });
+});
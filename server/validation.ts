@@ -0,0 +1,141 @@
+// validation.ts
+import type { Model } from "../shared/global";
+
+/**
+ * Represents the expected shape of a field, a list of allowed types or a nested shape.
+ */
+type Shape = string[] | { [key: string]: Shape };
+
+/**
+ * Expected shape of an OpenRouter model, mirrors ORModel in shared/global.d.ts.
+ */
+const modelShape: Shape = {
+  id: ["string"],
+  name: ["string"],
+  description: ["string"],
+  pricing: {
+    prompt: ["string"],
+    completion: ["string"],
+    request: ["string"],
+    image: ["string"],
+  },
+  context_length: ["number"],
+  architecture: {
+    modality: ["string"],
+    tokenizer: ["string"],
+    instruct_type: ["string", "null"],
+  },
+  top_provider: {
+    max_completion_tokens: ["number", "null"],
+    is_moderated: ["boolean"],
+  },
+  per_request_limits: ["object", "null"],
+};
+
+/**
+ * Represents the result of validating a model list from the OpenRouter API.
+ */
+export interface ModelListValidation {
+  /** The valid entries of the model list, unknown fields are kept. */
+  models: Model[];
+  /** Ids of known models whose invalid entries got replaced by their known version. */
+  keptIds: string[];
+  /** Descriptions of all entries not matching the expected shape. */
+  errors: string[];
+  /** Paths of all fields not part of the expected shape, sorted. */
+  unknownFields: string[];
+}
+
+/**
+ * Validates a model list from the OpenRouter API against the expected model shape.
+ * Invalid entries of known models are replaced by their known version, so they are not taken
+ * as removed. Other invalid entries and later entries with a duplicate id are left out.
+ * @param data - The `data` array of the API response.
+ * @param known - The known models by id, e.g. the current model list.
+ * @returns - The validation result.
+ */
+export function validateModelList(
+  data: unknown,
+  known: Map<string, Model> = new Map()
+): ModelListValidation {
+  if (!Array.isArray(data)) {
+    return { models: [], keptIds: [], errors: ["model list is not an array"], unknownFields: [] };
+  }
+  const models: Model[] = [];
+  const keptIds: string[] = [];
+  const errors: string[] = [];
+  const unknownFields = new Set<string>();
+  const ids = new Set<string>();
+  data.forEach((entry, index) => {
+    const label = typeof entry?.id === "string" ? entry.id : `#${index}`;
+    const entryErrors = validateShape(entry, modelShape, "", unknownFields);
+    const duplicate = ids.has(entry?.id);
+    if (duplicate) {
+      entryErrors.push("duplicate id");
+    }
+    ids.add(entry?.id);
+    if (entryErrors.length === 0) {
+      models.push(entry);
+    } else if (!duplicate && known.has(entry?.id)) {
+      models.push(known.get(entry.id)!);
+      keptIds.push(entry.id);
+    }
+    errors.push(...entryErrors.map((error) => `model ${label}: ${error}`));
+  });
+  return { models, keptIds, errors, unknownFields: [...unknownFields].sort() };
+}
+
+/**
+ * Returns the type of a value as used in shapes, distinguishing null and arrays from objects.
+ * @param value - The value to get the type for.
+ * @returns - The type name.
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+/**
+ * Recursively validates a value against a shape.
+ * @param value - The value to validate.
+ * @param shape - The expected shape.
+ * @param path - The path of the value, used in error messages.
+ * @param unknownFields - Collects the paths of fields not part of the shape.
+ * @returns - Descriptions of all mismatches.
+ */
+function validateShape(
+  value: unknown,
+  shape: Shape,
+  path: string,
+  unknownFields: Set<string>
+): string[] {
+  const name = path === "" ? "entry" : path;
+  if (Array.isArray(shape)) {
+    const type = typeOf(value);
+    return shape.includes(type) ? [] : [`${name} is ${type}, expected ${shape.join(" or ")}`];
+  }
+  if (typeOf(value) !== "object") {
+    return [`${name} is ${typeOf(value)}, expected object`];
+  }
+  const object = value as { [key: string]: unknown };
+  const errors: string[] = [];
+  for (const [key, fieldShape] of Object.entries(shape)) {
+    const fieldPath = path === "" ? key : `${path}.${key}`;
+    if (!(key in object)) {
+      errors.push(`${fieldPath} is missing`);
+    } else {
+      errors.push(...validateShape(object[key], fieldShape, fieldPath, unknownFields));
+    }
+  }
+  for (const key of Object.keys(object)) {
+    if (!(key in shape)) {
+      unknownFields.add(path === "" ? key : `${path}.${key}`);
+    }
+  }
+  return errors;
+}
@@ -67,7 +67,14 @@ describe("OpenRouterAPIWatcher", () => {
     console.log = vi.fn();
     console.error = vi.fn();
     db = new database(":memory:");
-    watcher = new OpenRouterAPIWatcher({ db, dataDir, backupDir, logFilePath: "", dbFilePath: "" });
+    watcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir,
+      quarantineDir: path.join(dataDir, "quarantine"),
+      logFilePath: "",
+      dbFilePath: "",
+    });
   });
 
   afterEach(() => {
@@ -118,15 +125,45 @@ describe("OpenRouterAPIWatcher", () => {
         id: "1",
         type: "changed",
         changes: {
-          name: { old: "Model 1", new: "Model 1 Updated" },
-          "architecture.instruct_type": { old: null, new: "instruct" },
-          "top_provider.is_moderated": { old: true, new: false },
+          name: { old: "Model 1", new: "Model 1 Updated", op: "edited" },
+          "architecture.instruct_type": { old: null, new: "instruct", op: "edited" },
+          "top_provider.is_moderated": { old: true, new: false, op: "edited" },
+        },
+        timestamp: expect.stringContaining("Z"),
+      },
+    ]);
+  });
+
+  test("should find added, removed and array element changes", () => {
+    const oldModel: any = { ...JSON.parse(JSON.stringify(dummyModel)), tags: ["a", "b"] };
+    const newModel: any = JSON.parse(JSON.stringify(oldModel));
+    newModel.pricing.input_cache_read = "0.005";
+    delete newModel.per_request_limits;
+    newModel.tags.push("c");
+
+    const changes = watcher.findChanges([newModel], [oldModel]);
+
+    expect(changes).toEqual([
+      {
+        id: "1",
+        type: "changed",
+        changes: {
+          "pricing.input_cache_read": { old: null, new: "0.005", op: "added" },
+          per_request_limits: { old: null, new: null, op: "removed" },
+          "tags.2": { old: null, new: "c", op: "array" },
         },
         timestamp: expect.stringContaining("Z"),
       },
     ]);
   });
 
+  test("should not report locally added properties as removed fields", () => {
+    const oldModels: Model[] = [{ ...dummyModel, added_at: new Date().toISOString() }];
+    const newModels: Model[] = [dummyModel];
+    const changes = watcher.findChanges(newModels, oldModels);
+    expect(changes).toEqual([]);
+  });
+
   test("should not report changes between identical model lists", () => {
     const oldModels: Model[] = [dummyModel];
     const newModels: Model[] = [dummyModel];
@@ -164,6 +201,151 @@ describe("OpenRouterAPIWatcher", () => {
     ]);
   });
 
+  test("should load a single model with its timeline and change history", () => {
+    const changedModel = { ...otherModel, pricing: { ...otherModel.pricing, prompt: "0.05" } };
+    const steps: [Model[], string][] = [
+      [[dummyModel, otherModel], "2024-05-01T00:00:00.000Z"],
+      [[dummyModel, changedModel], "2024-05-02T00:00:00.000Z"],
+      [[dummyModel], "2024-05-03T00:00:00.000Z"],
+    ];
+    let oldModels: Model[] = [dummyModel];
+    for (const [newModels, timestamp] of steps) {
+      watcher.storeChanges(watcher.findChanges(newModels, oldModels, new Date(timestamp)));
+      watcher.storeModelList(newModels, new Date(timestamp));
+      oldModels = newModels;
+    }
+
+    const history = watcher.loadModelHistory("2")!;
+    expect(history.removed).toBe(true);
+    expect(history.model.pricing.prompt).toBe("0.05");
+    expect(history.model.removed_at).toBe("2024-05-03T00:00:00.000Z");
+    expect(history.timeline).toEqual([
+      { type: "added", timestamp: "2024-05-01T00:00:00.000Z" },
+      { type: "removed", timestamp: "2024-05-03T00:00:00.000Z" },
+    ]);
+    expect(history.changes.map((change) => change.type)).toEqual(["removed", "changed", "added"]);
+
+    const current = watcher.loadModelHistory("1")!;
+    expect(current.removed).toBe(false);
+    expect(current.model).toEqual(dummyModel);
+    expect(current.changes).toEqual([]);
+
+    expect(watcher.loadModelHistory("unknown")).toBeUndefined();
+  });
+
+  test("should derive the price history of a model from its changes", () => {
+    const priced = (prompt: string): Model => ({
+      ...otherModel,
+      pricing: { ...otherModel.pricing, prompt },
+    });
+    const steps: [Model[], string][] = [
+      [[dummyModel, priced("0.01")], "2024-05-01T00:00:00.000Z"],
+      [[dummyModel, { ...priced("0.02"), name: "Renamed" }], "2024-05-02T00:00:00.000Z"],
+      [[dummyModel], "2024-05-03T00:00:00.000Z"],
+      [[dummyModel, priced("0.03")], "2024-05-04T00:00:00.000Z"],
+    ];
+    let oldModels: Model[] = [dummyModel];
+    for (const [newModels, timestamp] of steps) {
+      watcher.storeChanges(watcher.findChanges(newModels, oldModels, new Date(timestamp)));
+      watcher.storeModelList(newModels, new Date(timestamp));
+      oldModels = newModels;
+    }
+
+    const prices = (id: string) =>
+      watcher
+        .loadPriceHistory(id)!
+        .points.map(({ timestamp, prompt, request }) => [timestamp, prompt, request]);
+
+    expect(prices("2")).toEqual([
+      ["2024-05-01T00:00:00.000Z", 0.01, 0.03],
+      ["2024-05-02T00:00:00.000Z", 0.02, 0.03],
+      ["2024-05-03T00:00:00.000Z", null, null],
+      ["2024-05-04T00:00:00.000Z", 0.03, 0.03],
+    ]);
+    // Prices of models without changes are known since the start of the recording
+    expect(prices("1")).toEqual([["2024-05-01T00:00:00.000Z", 0.01, 0.03]]);
+    expect(watcher.loadPriceHistory("unknown")).toBeUndefined();
+  });
+
+  describe("queryChanges", () => {
+    const changed = (id: string, field: string, timestamp: string): ModelDiff => ({
+      id,
+      type: "changed",
+      changes: { [field]: { old: "0.01", new: "0.02", op: "edited" } },
+      timestamp,
+    });
+
+    beforeEach(() => {
+      watcher.storeChanges([
+        changed("anthropic/claude-3-haiku", "pricing.prompt", "2024-05-03T00:00:00.000Z"),
+        changed("openai/gpt-4o", "pricing.prompt", "2024-05-03T00:00:00.000Z"),
+        changed("openai/gpt-4o", "name", "2024-05-02T00:00:00.000Z"),
+        {
+          id: "openai/gpt-4o-mini",
+          type: "added",
+          model: dummyModel,
+          timestamp: "2024-05-01T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    test("should paginate changes with a cursor", () => {
+      const first = watcher.queryChanges({ limit: 3 });
+      expect(first.changes.map((change) => [change.id, change.timestamp])).toEqual([
+        ["anthropic/claude-3-haiku", "2024-05-03T00:00:00.000Z"],
+        ["openai/gpt-4o", "2024-05-03T00:00:00.000Z"],
+        ["openai/gpt-4o", "2024-05-02T00:00:00.000Z"],
+      ]);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = watcher.queryChanges({ limit: 3, cursor: first.nextCursor! });
+      expect(second.changes.map((change) => change.id)).toEqual(["openai/gpt-4o-mini"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    test("should continue pages within changes sharing a timestamp", () => {
+      const first = watcher.queryChanges({ limit: 1 });
+      const second = watcher.queryChanges({ limit: 1, cursor: first.nextCursor! });
+      expect(first.changes[0].id).toBe("anthropic/claude-3-haiku");
+      expect(second.changes[0].id).toBe("openai/gpt-4o");
+      expect(second.changes[0].timestamp).toBe("2024-05-03T00:00:00.000Z");
+    });
+
+    test("should filter by type, model id, field and time range", () => {
+      const ids = (query: Parameters<typeof watcher.queryChanges>[0]) =>
+        watcher.queryChanges(query).changes.map((change) => `${change.id}@${change.timestamp}`);
+
+      expect(ids({ types: ["added"] })).toEqual(["openai/gpt-4o-mini@2024-05-01T00:00:00.000Z"]);
+      expect(ids({ id: "openai/gpt-4o" })).toEqual([
+        "openai/gpt-4o@2024-05-03T00:00:00.000Z",
+        "openai/gpt-4o@2024-05-02T00:00:00.000Z",
+      ]);
+      expect(ids({ ids: ["anthropic/claude-3-haiku", "openai/gpt-4o-mini"] })).toEqual([
+        "anthropic/claude-3-haiku@2024-05-03T00:00:00.000Z",
+        "openai/gpt-4o-mini@2024-05-01T00:00:00.000Z",
+      ]);
+      expect(ids({ prefix: "anthropic/" })).toEqual([
+        "anthropic/claude-3-haiku@2024-05-03T00:00:00.000Z",
+      ]);
+      expect(ids({ id: "openai/*", field: "pricing.*" })).toEqual([
+        "openai/gpt-4o@2024-05-03T00:00:00.000Z",
+      ]);
+      expect(
+        ids({
+          since: new Date("2024-05-01T00:00:00.000Z"),
+          until: new Date("2024-05-03T00:00:00.000Z"),
+        })
+      ).toEqual([
+        "openai/gpt-4o@2024-05-02T00:00:00.000Z",
+        "openai/gpt-4o-mini@2024-05-01T00:00:00.000Z",
+      ]);
+    });
+
+    test("should reject invalid cursors", () => {
+      expect(() => watcher.queryChanges({ cursor: "garbage" })).toThrow("Invalid cursor");
+    });
+  });
+
   test("should load the most recent model list from the database", async () => {
     const oldModels: Model[] = [dummyModel];
     const date1 = new Date(2023, 4, 1);
@@ -177,6 +359,438 @@ describe("OpenRouterAPIWatcher", () => {
     expect(loadedModels).toEqual([dummyModel, otherModel]);
   });
 
+  test("should store model versions and changed fields for queries in SQL", () => {
+    const priced = (completion: string): Model => ({
+      ...dummyModel,
+      pricing: { ...dummyModel.pricing, completion },
+    });
+    const steps: [Model[], string][] = [
+      [[priced("0.02"), otherModel], "2024-05-01T00:00:00.000Z"],
+      [[priced("0.03"), otherModel], "2024-05-02T00:00:00.000Z"],
+      [[priced("0.031")], "2024-05-03T00:00:00.000Z"],
+    ];
+    let oldModels: Model[] = [];
+    for (const [newModels, timestamp] of steps) {
+      watcher.storeChanges(watcher.findChanges(newModels, oldModels, new Date(timestamp)));
+      watcher.storeModelList(newModels, new Date(timestamp));
+      oldModels = newModels;
+    }
+
+    expect(
+      db
+        .prepare(
+          "SELECT id, valid_from, valid_until, completion_price FROM model_versions ORDER BY id, valid_from"
+        )
+        .all()
+    ).toEqual([
+      { id: "1", valid_from: steps[0][1], valid_until: steps[1][1], completion_price: 0.02 },
+      { id: "1", valid_from: steps[1][1], valid_until: steps[2][1], completion_price: 0.03 },
+      { id: "1", valid_from: steps[2][1], valid_until: null, completion_price: 0.031 },
+      { id: "2", valid_from: steps[0][1], valid_until: steps[2][1], completion_price: 0.02 },
+    ]);
+    // Completion price changes above 20%
+    const increases = db
+      .prepare(
+        `SELECT id, timestamp FROM field_changes
+        WHERE path = 'pricing.completion'
+          AND CAST(new ->> '$' AS REAL) > CAST(old ->> '$' AS REAL) * 1.2`
+      )
+      .all();
+    expect(increases).toEqual([{ id: "1", timestamp: steps[1][1] }]);
+    expect(watcher.loadModelList()).toEqual([{ ...priced("0.031"), added_at: steps[0][1] }]);
+    expect(watcher.queryChanges({ field: "pricing.*" }).changes).toEqual([
+      {
+        id: "1",
+        type: "changed",
+        changes: { "pricing.completion": { old: "0.03", new: "0.031", op: "edited" } },
+        timestamp: steps[2][1],
+      },
+      {
+        id: "1",
+        type: "changed",
+        changes: { "pricing.completion": { old: "0.02", new: "0.03", op: "edited" } },
+        timestamp: steps[1][1],
+      },
+    ]);
+  });
+
+  test("should store and load model list snapshots by point in time", () => {
+    const date1 = new Date("2024-05-01T00:00:00.000Z");
+    const date2 = new Date("2024-05-02T00:00:00.000Z");
+    const date3 = new Date("2024-05-03T00:00:00.000Z");
+    watcher.storeSnapshot([dummyModel], date1);
+    watcher.storeSnapshot([otherModel, dummyModel], date2);
+    // Same content in different order must not create a new snapshot
+    watcher.storeSnapshot([dummyModel, otherModel], date3);
+
+    expect(watcher.loadSnapshot(new Date("2024-04-30T00:00:00.000Z"))).toBeUndefined();
+    expect(watcher.loadSnapshot(new Date("2024-05-01T12:00:00.000Z"))?.models).toEqual([
+      dummyModel,
+    ]);
+    const latest = watcher.loadSnapshot(new Date("2024-06-01T00:00:00.000Z"));
+    expect(latest?.timestamp).toBe(date2.toISOString());
+    expect(latest?.models).toEqual([dummyModel, otherModel]);
+  });
+
+  test("should record a reverted model list as a new history entry", () => {
+    watcher.storeSnapshot([dummyModel], new Date("2024-05-01T00:00:00.000Z"));
+    watcher.storeSnapshot([dummyModel, otherModel], new Date("2024-05-02T00:00:00.000Z"));
+    watcher.storeSnapshot([dummyModel], new Date("2024-05-03T00:00:00.000Z"));
+
+    const snapshot = watcher.loadSnapshot(new Date("2024-05-04T00:00:00.000Z"));
+    expect(snapshot?.timestamp).toBe("2024-05-03T00:00:00.000Z");
+    expect(snapshot?.models).toEqual([dummyModel]);
+    expect(snapshot?.hash).toBe(watcher.loadSnapshot(new Date("2024-05-01T00:00:00.000Z"))?.hash);
+  });
+
+  test("should compare the snapshots at two points in time without storing changes", () => {
+    const modifiedModel: Model = JSON.parse(JSON.stringify(dummyModel));
+    modifiedModel.name = "Model 1 Updated";
+    watcher.storeSnapshot([dummyModel], new Date("2024-05-01T00:00:00.000Z"));
+    watcher.storeSnapshot([modifiedModel, otherModel], new Date("2024-05-02T00:00:00.000Z"));
+
+    const result = watcher.diffSnapshots(
+      new Date("2024-05-01T12:00:00.000Z"),
+      new Date("2024-05-03T00:00:00.000Z")
+    );
+    expect(result?.from.timestamp).toBe("2024-05-01T00:00:00.000Z");
+    expect(result?.to.timestamp).toBe("2024-05-02T00:00:00.000Z");
+    expect(result?.changes.map((change) => [change.id, change.type])).toEqual([
+      ["1", "changed"],
+      ["2", "added"],
+    ]);
+    expect(result?.changes[0].changes).toEqual({
+      name: { old: "Model 1", new: "Model 1 Updated", op: "edited" },
+    });
+    expect(watcher.loadChanges()).toEqual([]);
+    expect(watcher.diffSnapshots(new Date("2024-04-01"), new Date("2024-05-03"))).toBeUndefined();
+  });
+
+  test("should link all changes of one check run with a shared timestamp", () => {
+    const modifiedModel: Model = JSON.parse(JSON.stringify(dummyModel));
+    modifiedModel.name = "Model 1 Updated";
+    const timestamp = new Date("2024-05-01T00:00:00.000Z");
+
+    const run = watcher.startCheckRun(timestamp);
+    const changes = watcher.findChanges([modifiedModel, otherModel], [dummyModel], timestamp, run);
+    watcher.storeChanges(changes);
+    watcher.finishCheckRun(run, "success", 2, changes.length);
+
+    expect(changes.map((change) => [change.timestamp, change.run])).toEqual([
+      [timestamp.toISOString(), run],
+      [timestamp.toISOString(), run],
+    ]);
+    expect(watcher.loadCheckRuns()).toEqual([
+      {
+        id: run,
+        startedAt: timestamp.toISOString(),
+        finishedAt: expect.stringContaining("Z"),
+        status: "success",
+        modelCount: 2,
+        changeCount: 2,
+      },
+    ]);
+    expect(watcher.loadCheckRun(run)?.changes).toHaveLength(2);
+    expect(watcher.loadCheckRun(run + 1)).toBeUndefined();
+  });
+
+  test("should load the check runs page by page", () => {
+    const runs = [1, 2, 3].map(() => watcher.startCheckRun(new Date()));
+
+    expect(watcher.loadCheckRuns(2).map((run) => run.id)).toEqual([runs[2], runs[1]]);
+    expect(watcher.loadCheckRuns(2, runs[1]).map((run) => run.id)).toEqual([runs[0]]);
+  });
+
+  test("should treat non-2xx API responses as failed fetches", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: [dummyModel] }), { status: 503 })
+    );
+
+    const models = await watcher.getAPIModelList();
+
+    expect(models).toEqual([]);
+    expect(watcher.getAPILastCheckStatus).toBe("failed");
+    vi.restoreAllMocks();
+  });
+
+  test("should retry failed API fetches honouring Retry-After", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("", { status: 429, headers: { "Retry-After": "300" } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [dummyModel] })));
+
+    const done = watcher.runOnce(1);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(watcher.getAPIConsecutiveFailures).toBe(1);
+    expect(watcher.getAPINextRetry?.getTime()).toBeGreaterThanOrEqual(Date.now() + 300_000);
+
+    await vi.advanceTimersByTimeAsync(300_000);
+    await done;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(watcher.getAPIConsecutiveFailures).toBe(0);
+    expect(watcher.getAPINextRetry).toBeNull();
+    expect(watcher.getLists.models.map((model) => model.id)).toEqual(["1"]);
+
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  test("should finish the check run as failed if storing the changes fails", async () => {
+    watcher.storeModelList([dummyModel]);
+    const failingWatcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      logFilePath: "",
+      dbFilePath: "",
+    });
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: [dummyModel, otherModel] }))
+    );
+    vi.spyOn(failingWatcher, "storeChanges").mockImplementation(() => {
+      throw new Error("database is locked");
+    });
+
+    const run = await failingWatcher.runOnce();
+
+    expect(run).toMatchObject({ status: "failed", finishedAt: expect.any(String) });
+    expect(failingWatcher.getAPILastCheckStatus).toBe("failed");
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("check failed: Error: database is locked")
+    );
+    vi.restoreAllMocks();
+  });
+
+  test("should fail a single check right away without retries", async () => {
+    watcher.storeModelList([dummyModel]);
+    const onceWatcher = new OpenRouterAPIWatcher({ db, dataDir, logFilePath: "", dbFilePath: "" });
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockResolvedValue(new Response("", { status: 503 }));
+
+    const run = await onceWatcher.runOnce();
+
+    expect(run.status).toBe("failed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onceWatcher.getAPINextRetry).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  test("should quarantine invalid model lists from the API", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ ...dummyModel, context_length: "1024" }] }))
+    );
+
+    const models = await watcher.getAPIModelList();
+
+    expect(models).toEqual([]);
+    const quarantined = fs.readdirSync(path.join(dataDir, "quarantine"));
+    expect(quarantined).toEqual([expect.stringMatching(/^models-.*-invalid\.json$/)]);
+    vi.restoreAllMocks();
+  });
+
+  test("should drop invalid entries from an otherwise valid API model list", async () => {
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({ data: [dummyModel, { ...otherModel, context_length: "1024" }] })
+      )
+    );
+
+    const models = await watcher.getAPIModelList();
+
+    expect(models).toEqual([dummyModel]);
+    const quarantined = fs.readdirSync(path.join(dataDir, "quarantine"));
+    expect(quarantined).toEqual([expect.stringMatching(/^models-.*-invalid\.json$/)]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("dropped 1 invalid models"));
+    vi.restoreAllMocks();
+  });
+
+  test("should not take known models with invalid entries as removed", async () => {
+    watcher.storeModelList([dummyModel, otherModel]);
+    const knownWatcher = new OpenRouterAPIWatcher({ db, dataDir, logFilePath: "", dbFilePath: "" });
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({ data: [dummyModel, { ...otherModel, context_length: "1024" }] })
+      )
+    );
+
+    const run = await knownWatcher.runOnce();
+
+    expect(run.status).toBe("success");
+    expect(run.changes).toEqual([]);
+    expect(knownWatcher.getLists.models.map((model) => model.id)).toEqual(["1", "2"]);
+    expect(knownWatcher.loadChanges()).toEqual([]);
+    vi.restoreAllMocks();
+  });
+
+  test("should refuse to start with an invalid share of removed models", () => {
+    for (const maxRemovedShare of [NaN, -0.1, 1.5]) {
+      expect(
+        () =>
+          new OpenRouterAPIWatcher({
+            db,
+            dataDir,
+            logFilePath: "",
+            dbFilePath: "",
+            maxRemovedShare,
+          })
+      ).toThrow("Invalid maximum share of removed models");
+    }
+  });
+
+  test("should reject model lists removing more than the allowed share of models", async () => {
+    watcher.storeModelList([dummyModel, otherModel]);
+    watcher.loadLists();
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ ...otherModel, id: "3" }] }))
+    );
+
+    await watcher.runOnce();
+
+    expect(watcher.getLists.models.map((model) => model.id)).toEqual(["1", "2"]);
+    expect(watcher.getLists.changes).toEqual([]);
+    expect(watcher.loadCheckRuns()[0].status).toBe("rejected");
+    const quarantined = fs.readdirSync(path.join(dataDir, "quarantine"));
+    expect(quarantined).toEqual([expect.stringMatching(/^models-.*-removals\.json$/)]);
+    vi.restoreAllMocks();
+  });
+
+  test("should notify webhooks about detected changes", async () => {
+    watcher.storeModelList([dummyModel]);
+    const webhookWatcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir,
+      logFilePath: "",
+      dbFilePath: "",
+      webhooks: [{ url: "http://127.0.0.1/hook", types: ["added"] }],
+    });
+    const fetchMock = vi
+      .spyOn(global, "fetch")
+      .mockImplementation(async (input) =>
+        input === "http://127.0.0.1/hook"
+          ? new Response(null, { status: 204 })
+          : new Response(JSON.stringify({ data: [dummyModel, otherModel] }))
+      );
+
+    await webhookWatcher.runOnce();
+
+    const [, init] = fetchMock.mock.calls.find(([input]) => input === "http://127.0.0.1/hook")!;
+    const payload = JSON.parse(init!.body as string);
+    expect(payload.changes.map((change: ModelDiff) => change.id)).toEqual(["2"]);
+    expect(payload.run).toBe(webhookWatcher.loadCheckRuns()[0].id);
+    vi.restoreAllMocks();
+  });
+
+  test("should seed a fresh database and return the run of a single check", async () => {
+    let apiModels: Model[] = [dummyModel];
+    vi.spyOn(global, "fetch").mockImplementation(
+      async () => new Response(JSON.stringify({ data: apiModels }))
+    );
+    const freshDb = new database(":memory:");
+    const freshWatcher = new OpenRouterAPIWatcher({
+      db: freshDb,
+      dataDir,
+      backupDir,
+      logFilePath: "",
+      dbFilePath: "",
+    });
+
+    await freshWatcher.ready();
+    expect(freshWatcher.getLists.models.map((model) => model.id)).toEqual(["1"]);
+
+    // The check must not store its snapshot in the same millisecond as the seeding
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 60_000);
+    apiModels = [dummyModel, otherModel];
+    const run = await freshWatcher.runOnce();
+    vi.useRealTimers();
+    expect(run).toMatchObject({ status: "success", modelCount: 2, changeCount: 1 });
+    expect(run.changes.map((change) => [change.id, change.type])).toEqual([["2", "added"]]);
+
+    freshDb.close();
+    vi.restoreAllMocks();
+  });
+
+  test("should expose metrics of checks, fetches and recorded changes", async () => {
+    watcher.storeModelList([dummyModel]);
+    const metricsWatcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir,
+      logFilePath: "",
+      dbFilePath: "",
+    });
+    expect(metricsWatcher.renderMetrics()).toContain("orw_last_success_timestamp_seconds 0\n");
+    vi.spyOn(global, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ data: [dummyModel, otherModel] }))
+    );
+
+    const run = await metricsWatcher.runOnce();
+
+    const metrics = metricsWatcher.renderMetrics();
+    expect(metrics).toContain('orw_check_duration_seconds_count{outcome="success"} 1\n');
+    expect(metrics).toContain('orw_api_fetch_duration_seconds_count{outcome="success"} 1\n');
+    expect(metrics).toContain('orw_changes_recorded_total{type="added"} 1\n');
+    expect(metrics).toContain('orw_models{list="current"} 2\n');
+    expect(metrics).toContain('orw_models{list="removed"} 0\n');
+    expect(metrics).toContain(
+      `orw_last_success_timestamp_seconds ${Date.parse(run.finishedAt!) / 1_000}\n`
+    );
+    vi.restoreAllMocks();
+  });
+
+  test("should report health and readiness of the watcher", async () => {
+    watcher.storeModelList([dummyModel]);
+    const healthWatcher = new OpenRouterAPIWatcher({
+      db,
+      dataDir,
+      backupDir,
+      logFilePath: "",
+      dbFilePath: "",
+      maxCheckAge: "3h",
+    });
+    expect(healthWatcher.checkHealth()).toMatchObject({
+      ok: false,
+      checks: { database: { ok: true }, backgroundLoop: { ok: false, state: "stopped" } },
+    });
+    expect(healthWatcher.checkReadiness().checks.lastSuccessfulCheck).toMatchObject({
+      ok: false,
+      message: "no successful API check yet",
+      timestamp: null,
+    });
+
+    const insertRun = db.prepare(
+      "INSERT INTO check_runs (started_at, finished_at, status) VALUES (?, ?, 'success')"
+    );
+    const twoHoursAgo = new Date(Date.now() - 7_200_000).toISOString();
+    insertRun.run(twoHoursAgo, twoHoursAgo);
+    expect(healthWatcher.checkReadiness().checks.lastSuccessfulCheck).toEqual({
+      ok: true,
+      timestamp: twoHoursAgo,
+      staleAfter: new Date(Date.parse(twoHoursAgo) + 10_800_000).toISOString(),
+    });
+
+    // A background loop that died fails both checks
+    vi.spyOn(healthWatcher as any, "sleepUntil").mockResolvedValue(undefined);
+    vi.spyOn(healthWatcher as any, "runBackgroundLoop").mockRejectedValue(new Error("boom"));
+    await healthWatcher.enterBackgroundMode();
+    expect(healthWatcher.checkHealth().checks.backgroundLoop).toMatchObject({
+      ok: false,
+      state: "died",
+    });
+    expect(healthWatcher.checkReadiness().ok).toBe(false);
+
+    db.close();
+    expect(healthWatcher.checkReadiness().checks).toMatchObject({
+      database: { ok: false, message: expect.stringContaining("not open") },
+      lastSuccessfulCheck: { ok: false, message: "database unreachable" },
+    });
+    db = new database(":memory:"); // closed again after the test
+    vi.restoreAllMocks();
+  });
+
   test("should handle an empty database", () => {
     const loadedModels = watcher.loadModelList();
     expect(loadedModels).toEqual([]);
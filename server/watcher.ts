@@ -1,16 +1,68 @@
 // watcher.ts
 import process from "node:process";
 import fs from "node:fs";
+import os from "node:os";
+import crypto from "node:crypto";
 import path from "node:path";
+import { Buffer } from "node:buffer";
 import { fileURLToPath } from "node:url";
 import { createGzip } from "node:zlib";
 import { pipeline } from "node:stream/promises";
 import database, { type Database } from "better-sqlite3";
 import diffpkg from "deep-diff";
 const { diff } = diffpkg; // workaround
-import type { Model, ModelDiff, Lists } from "../shared/global";
+import type {
+  Model,
+  ModelDiff,
+  Lists,
+  FieldChange,
+  ModelListSnapshot,
+  ModelHistory,
+  ModelChangeType,
+  PriceHistory,
+  PricePoint,
+  CheckRun,
+  CircuitState,
+  DatabaseBackup,
+  HealthStatus,
+  LoopState,
+} from "../shared/global";
 import { runMigrations } from "./db-migration.js";
 import { httpServer } from "./httpServer.js";
+import { DEFAULT_SCHEDULE, parseDuration, parseSchedule, type Schedule } from "./schedule.js";
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  parseRetryAfter,
+  type RetryPolicy,
+} from "./retry.js";
+import { validateModelList } from "./validation.js";
+import { WebhookDispatcher, loadWebhookConfig, type WebhookConfig } from "./webhooks.js";
+import { MIGRATION_OPTIONS, isCommand, runCLI, runMigrationCLI } from "./cli.js";
+import { exportLines, type ExportFormat, type ExportTable } from "./export.js";
+import { fetchBackup, mergeHistory, type ImportReport } from "./import.js";
+import {
+  DEFAULT_RETENTION,
+  backupDatabaseSync,
+  backupFileName,
+  checkIntegrity,
+  expiredBackups,
+  listBackups,
+  parseRetention,
+  restoreDatabase,
+  type RetentionPolicy,
+} from "./backups.js";
+import { MetricsRegistry } from "./metrics.js";
+import {
+  DEFAULT_LOG_ROTATION,
+  Logger,
+  isLogLevel,
+  parseLogRotation,
+  type LogFields,
+  type LogFormat,
+  type LogLevel,
+} from "./logger.js";
 import { FETCH_TIMEOUT, OPENROUTER_API_URL, VERSION } from "../shared/constants.js";
 
 export const isDevelopment = process.env.NODE_ENV === "development" || false;
@@ -19,8 +71,17 @@ const dataDir = process.env.ORW_DATA_PATH || "./data";
 const defaultConfig = {
   dataDir,
   backupDir: process.env.ORW_BACKUP_PATH || path.join(dataDir, "backup"),
+  quarantineDir: process.env.ORW_QUARANTINE_PATH || path.join(dataDir, "quarantine"),
   logFilePath: process.env.ORW_LOG_PATH ?? path.join(dataDir, "orw.log"),
+  logLevel: process.env.ORW_LOG_LEVEL as LogLevel | undefined,
+  logFormat: process.env.ORW_LOG_FORMAT as LogFormat | undefined,
+  logRotation: process.env.ORW_LOG_ROTATION ?? DEFAULT_LOG_ROTATION,
   dbFilePath: process.env.ORW_DB_PATH ?? path.join(dataDir, "orw.db"),
+  checkSchedule: process.env.ORW_CHECK_SCHEDULE ?? DEFAULT_SCHEDULE,
+  backupRetention: process.env.ORW_BACKUP_RETENTION ?? DEFAULT_RETENTION,
+  maxRemovedShare: Number(process.env.ORW_MAX_REMOVED_SHARE || "0.5"),
+  webhooksFilePath: process.env.ORW_WEBHOOKS_PATH,
+  maxCheckAge: process.env.ORW_MAX_CHECK_AGE,
   fixedModelList: undefined,
 };
 
@@ -32,6 +93,10 @@ export interface WatcherStatus {
   apiLastCheck: Date;
   /** Status of the last API check. */
   apiLastCheckStatus: string;
+  /** Timestamp of the next scheduled API check. */
+  apiNextCheck: Date;
+  /** Timestamp of the next retry after a failed API check, null if none is pending. */
+  apiNextRetry: Date | null;
   /** Timestamp of the data in the database. */
   dbLastChange: Date;
 }
@@ -48,19 +113,145 @@ export interface WatcherConfig {
   dbFilePath?: string;
   /** Directory for storing backup files. */
   backupDir?: string;
+  /** Directory for storing rejected model lists for inspection. */
+  quarantineDir?: string;
   /** Path to the logfile, log only if set. */
   logFilePath?: string;
+  /** Minimum level of log entries, `info` by default. */
+  logLevel?: LogLevel;
+  /** Format of log entries, `text` lines by default or `json` lines. */
+  logFormat?: LogFormat;
+  /** Rotation of the logfile, e.g. `"size=10M,keep=5"`, `"daily,keep=7"` or `"off"`. */
+  logRotation?: string;
+  /** Only write informational messages to the logfile, keeps the console free for command output. */
+  quiet?: boolean;
+  /** Schedule for API checks, either an interval (e.g. `"1h"`) or a cron expression. */
+  checkSchedule?: string | number;
+  /** Retention policy for database backups, e.g. `"hourly=24,daily=30,monthly=all"`. */
+  backupRetention?: string;
+  /** Retry policy for failed API checks, missing values get taken from the default policy. */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Maximum share (0 to 1) of models a single check may remove, larger removals get rejected. */
+  maxRemovedShare?: number;
+  /** Webhooks to notify about detected changes, overrides the webhooks file. */
+  webhooks?: WebhookConfig[];
+  /** Path to a JSON file containing the webhook configuration. */
+  webhooksFilePath?: string;
+  /**
+   * Maximum age of the last successful API check before the watcher is no longer ready (e.g. `"3h"`),
+   * by default two scheduled checks may fail.
+   */
+  maxCheckAge?: string | number;
   /** Fixed model list, if set, no API calls are made. */
   fixedModelList?: Model[];
 }
 
+/**
+ * Represents the filters and pagination options for querying changes.
+ */
+export interface ChangesQuery {
+  /** Only return changes of these types. */
+  types?: ModelChangeType[];
+  /** Only return changes for model ids matching this glob (e.g. `anthropic/*`). */
+  id?: string;
+  /** Only return changes for these model ids, e.g. a personal watchlist. */
+  ids?: string[];
+  /** Only return changes for model ids starting with this prefix. */
+  prefix?: string;
+  /** Only return changes with a changed field matching this glob (e.g. `pricing.*`), implies type `changed`. */
+  field?: string;
+  /** Only return changes at or after this time. */
+  since?: Date;
+  /** Only return changes before this time. */
+  until?: Date;
+  /** Opaque cursor from a previous page to continue from. */
+  cursor?: string;
+  /** The maximum number of changes to return. */
+  limit?: number;
+}
+
+/**
+ * Represents one page of changes, newest first.
+ */
+export interface ChangesPage {
+  changes: ModelDiff[];
+  /** Cursor for the next page, null if this is the last page. */
+  nextCursor: string | null;
+}
+
+/**
+ * Default and maximum page size when querying changes.
+ */
+export const CHANGES_PAGE_SIZE = 100;
+export const CHANGES_PAGE_SIZE_MAX = 1_000;
+
+/**
+ * Default and maximum number of check runs loaded at once, one run gets recorded per check.
+ */
+export const CHECK_RUNS_PAGE_SIZE = 100;
+export const CHECK_RUNS_PAGE_SIZE_MAX = 1_000;
+
+/**
+ * Columns selected from the changes table, the fields of changed entries come from the
+ * field_changes table as JSON array of `[path, old, new, op]` in the order they were recorded.
+ */
+const CHANGES_COLUMNS = `
+  id, type, changes, timestamp, run_id,
+  (
+    SELECT json_group_array(json_array(f.path, f.old, f.new, f.op) ORDER BY f.rowid)
+    FROM field_changes f
+    WHERE f.id = changes.id AND f.timestamp = changes.timestamp
+  ) AS fields`;
+
+/**
+ * Time a scheduled API check may be overdue before the background loop is considered dead.
+ */
+const LOOP_GRACE_PERIOD = 600_000; // Ten minutes in milliseconds
+
 /**
  * Watches for changes in OpenRouter models and stores the changes in a SQLite database.
  */
 export class OpenRouterAPIWatcher {
   private config: WatcherConfig;
+  private logger: Logger;
   private status: WatcherStatus;
   private lists: Lists; // Memory cache for lists from database.
+  private schedule: Schedule;
+  private retention: RetentionPolicy;
+  private retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker;
+  private apiRetryAfter: number | undefined; // Delay requested by the API via Retry-After
+  private reportedUnknownFields = new Set<string>(); // Report each unknown field only once
+  private webhooks: WebhookDispatcher | undefined;
+  private seeding: Promise<void> = Promise.resolve(); // Seeding of a fresh database
+  private maxCheckAge: number | undefined;
+  private loopState: LoopState = "stopped";
+  private metrics = new MetricsRegistry();
+  private checkDuration = this.metrics.histogram(
+    "orw_check_duration_seconds",
+    "Duration of API checks by outcome (success, failed or rejected)"
+  );
+  private fetchDuration = this.metrics.histogram(
+    "orw_api_fetch_duration_seconds",
+    "Duration of fetching the model list from the OpenRouter API by outcome"
+  );
+  private lastSuccess = this.metrics.gauge(
+    "orw_last_success_timestamp_seconds",
+    "Time of the last successful API check, 0 if there was none"
+  );
+  private modelCount = this.metrics.gauge("orw_models", "Number of current and removed models");
+  private changesRecorded = this.metrics.counter(
+    "orw_changes_recorded_total",
+    "Changes recorded by type"
+  );
+  private backupDuration = this.metrics.histogram(
+    "orw_backup_duration_seconds",
+    "Duration of database backups by outcome"
+  );
+  private backupSize = this.metrics.gauge(
+    "orw_backup_size_bytes",
+    "Size of the newest database backup"
+  );
 
   /**
    * Creates a new instance of the OpenRouterAPIWatcher class.
@@ -72,6 +263,20 @@ export class OpenRouterAPIWatcher {
       ...config, // command line + directly invoked settings (these overwrite defaults)
     };
 
+    if (this.config.logLevel && !isLogLevel(this.config.logLevel)) {
+      throw new Error(`Invalid log level "${this.config.logLevel}"`);
+    }
+    if (this.config.logFormat && !["text", "json"].includes(this.config.logFormat)) {
+      throw new Error(`Invalid log format "${this.config.logFormat}"`);
+    }
+    this.logger = new Logger({
+      level: this.config.logLevel,
+      format: this.config.logFormat,
+      filePath: this.config.logFilePath || undefined,
+      rotation: parseLogRotation(this.config.logRotation ?? DEFAULT_LOG_ROTATION),
+      quiet: this.config.quiet,
+    });
+
     this.lists = {
       models: [],
       removed: [],
@@ -82,11 +287,43 @@ export class OpenRouterAPIWatcher {
       dbLastChange: new Date(0),
       apiLastCheck: new Date(0),
       apiLastCheckStatus: "unknown",
+      apiNextCheck: new Date(0),
+      apiNextRetry: null,
     };
 
-    runMigrations(this.config.db);
+    this.schedule = parseSchedule(this.config.checkSchedule ?? DEFAULT_SCHEDULE);
+    this.retention = parseRetention(this.config.backupRetention ?? DEFAULT_RETENTION);
+    this.maxCheckAge = this.config.maxCheckAge ? parseDuration(this.config.maxCheckAge) : undefined;
+    // An invalid share would silently disable the guard against mass removals
+    const maxRemovedShare = this.config.maxRemovedShare;
+    if (maxRemovedShare !== undefined && !(maxRemovedShare >= 0 && maxRemovedShare <= 1)) {
+      throw new Error(
+        `Invalid maximum share of removed models ${maxRemovedShare}, expected a number from 0 to 1`
+      );
+    }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...this.config.retryPolicy };
+    this.circuitBreaker = new CircuitBreaker(this.retryPolicy);
+
+    runMigrations(this.config.db, {
+      log: (message) => this.log(message),
+      // Upgrades run unattended, keep the database as it was before migrating
+      backup: (version) => this.backupBeforeMigration(version),
+    });
+    const webhooks =
+      this.config.webhooks ??
+      (this.config.webhooksFilePath ? loadWebhookConfig(this.config.webhooksFilePath) : []);
+    if (webhooks.length > 0) {
+      this.webhooks = new WebhookDispatcher({
+        db: this.config.db,
+        webhooks,
+        log: (message) => this.log(message),
+        error: (message) => this.error(message),
+      });
+    }
     this.loadLists();
+    this.seedSnapshots();
     this.loadAPILastCheck();
+    this.status.apiNextCheck = this.schedule.next(this.status.apiLastCheck);
     if (this.lists.changes.length > 0) {
       const lastChangeTimestamp = this.lists.changes.at(0)?.timestamp;
       if (lastChangeTimestamp) {
@@ -102,27 +339,13 @@ export class OpenRouterAPIWatcher {
     if (this.lists.models.length === 0) {
       // Seed the database with the current model list if it's a fresh database
       this.log("empty model list in database");
-
-      this.getAPIModelList().then((newModels) => {
-        if (newModels.length > 0) {
-          this.status.apiLastCheckStatus = "success";
-          this.updateAPILastCheck();
-          this.lists.models = newModels;
-          this.status.dbLastChange = new Date();
-          this.storeModelList(newModels, this.status.dbLastChange);
-          this.log("seeded database with model list from API");
-        }
-      });
+      this.seeding = this.seedModelList().catch((err) =>
+        this.error(`seeding database failed: ${err}`)
+      );
     }
 
-    if (this.config.logFilePath) {
-      // Check if the log file exists, if not, create it
-      if (!fs.existsSync(this.config.logFilePath)) {
-        fs.writeFileSync(this.config.logFilePath, "");
-      }
-      if (isDevelopment) {
-        this.log("watcher initialized");
-      }
+    if (isDevelopment) {
+      this.logger.debug("watcher initialized");
     }
 
     if (this.config.backupDir) {
@@ -131,15 +354,37 @@ export class OpenRouterAPIWatcher {
         try {
           fs.mkdirSync(this.config.backupDir, { recursive: true });
         } catch (err) {
-          const message = `Error creating backup directory at ${this.config.backupDir}: ${err}`;
-          this.error(message);
-          console.error(message);
+          this.error(`Error creating backup directory at ${this.config.backupDir}: ${err}`);
           throw err;
         }
       }
     }
   }
 
+  /**
+   * Seeds a fresh database with the current model list from the API.
+   */
+  private async seedModelList() {
+    const newModels = await this.getAPIModelList();
+    if (newModels.length > 0) {
+      this.status.apiLastCheckStatus = "success";
+      this.updateAPILastCheck();
+      this.lists.models = newModels;
+      this.status.dbLastChange = new Date();
+      this.storeModelList(newModels, this.status.dbLastChange);
+      this.storeSnapshot(newModels, this.status.dbLastChange);
+      this.log("seeded database with model list from API");
+    }
+  }
+
+  /**
+   * Waits until a fresh database got seeded with the model list from the API.
+   * @returns - A Promise that resolves once seeding finished (or failed), immediately for existing databases.
+   */
+  ready(): Promise<void> {
+    return this.seeding;
+  }
+
   /**
    * Get cached database lists
    * @returns - The cached database lists object.
@@ -162,6 +407,42 @@ export class OpenRouterAPIWatcher {
   get getAPILastCheck(): Date {
     return this.status.apiLastCheck;
   }
+  /**
+   * Get timestamp of the next scheduled OpenRouter API check
+   * @returns - Next API check timestamp
+   */
+  get getAPINextCheck(): Date {
+    return this.status.apiNextCheck;
+  }
+  /**
+   * Get the time between the next two scheduled OpenRouter API checks
+   * @returns - Check interval in milliseconds
+   */
+  get getCheckInterval(): number {
+    const next = this.schedule.next(new Date());
+    return this.schedule.next(next).getTime() - next.getTime();
+  }
+  /**
+   * Get timestamp of the next retry after a failed OpenRouter API check
+   * @returns - Next retry timestamp or null if no retry is pending
+   */
+  get getAPINextRetry(): Date | null {
+    return this.status.apiNextRetry;
+  }
+  /**
+   * Get number of consecutive failed OpenRouter API fetches
+   * @returns - Number of consecutive failures
+   */
+  get getAPIConsecutiveFailures(): number {
+    return this.circuitBreaker.consecutiveFailures;
+  }
+  /**
+   * Get state of the circuit breaker for OpenRouter API fetches
+   * @returns - Circuit breaker state
+   */
+  get getAPICircuitState(): CircuitState {
+    return this.circuitBreaker.state;
+  }
   /**
    * Get status of the last OpenRouter API check result
    * @returns - Last API check result status
@@ -171,51 +452,151 @@ export class OpenRouterAPIWatcher {
   }
 
   /**
-   * Get the path to the current database backup file.
-   * @returns -  The path to the current database backup file.
+   * Get the path to the newest database backup file, labelled backups have no gzipped copy.
+   * @returns -  The path to the newest database backup file, undefined if there is none.
    */
   get getDbBackupPath(): string | undefined {
-    if (this.config.backupDir && this.config.dbFilePath) {
-      return path.join(this.config.backupDir, path.basename(this.config.dbFilePath) + ".backup");
+    const newest = this.listBackups().find((backup) => !backup.label);
+    if (newest && this.config.backupDir) {
+      return path.join(this.config.backupDir, newest.name);
     }
     return undefined;
   }
 
   /**
-   * Receives error messages and outputs to console and logfile
-   * @param message - Error message
+   * Renders the watcher metrics in Prometheus text format, gauges of stored data get updated first.
+   * @returns - The metrics, e.g. for the `/metrics` endpoint.
    */
-  error(message: string) {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] Error: ${message}`;
+  renderMetrics(): string {
+    this.modelCount.set(this.lists.models.length, { list: "current" });
+    this.modelCount.set(this.lists.removed.length, { list: "removed" });
+    this.lastSuccess.set((this.loadLastSuccessfulCheck()?.getTime() ?? 0) / 1_000);
+    return this.metrics.render();
+  }
 
-    // Log the message to the console
-    console.error(logMessage);
+  /**
+   * Loads the time of the last successful API check from the database, so it survives restarts.
+   * Seeding a fresh database counts as successful check.
+   * @returns - The time of the last successful API check, null if there was none.
+   */
+  loadLastSuccessfulCheck(): Date | null {
+    const lastSuccess = this.config.db
+      .prepare(
+        `SELECT MAX(timestamp) FROM (
+          SELECT MAX(finished_at) AS timestamp FROM check_runs WHERE status = 'success'
+          UNION ALL
+          SELECT last_check FROM last_api_check WHERE last_status = 'success'
+        )`
+      )
+      .pluck()
+      .get() as string | null;
+    return lastSuccess ? new Date(lastSuccess) : null;
+  }
+
+  /**
+   * Checks if the watcher is alive: the database answers queries and the background loop
+   * neither died nor missed a scheduled API check.
+   * @returns - The health status with the result of every check.
+   */
+  checkHealth(): HealthStatus {
+    let database: HealthStatus["checks"]["database"] = { ok: true };
+    try {
+      this.config.db.prepare("SELECT 1").get();
+    } catch (err) {
+      database = { ok: false, message: `${err}` };
+    }
 
-    // Log the message to the log file
-    if (this.config.logFilePath) {
-      fs.appendFileSync(this.config.logFilePath, `${logMessage}\n`);
+    const nextCheck = this.status.apiNextCheck;
+    let backgroundLoop: HealthStatus["checks"]["backgroundLoop"] = {
+      ok: this.loopState === "starting" || this.loopState === "running",
+      state: this.loopState,
+      nextCheck: nextCheck.toISOString(),
+    };
+    if (this.loopState === "running" && Date.now() > nextCheck.getTime() + LOOP_GRACE_PERIOD) {
+      backgroundLoop = { ...backgroundLoop, ok: false, message: "scheduled API check is overdue" };
+    } else if (!backgroundLoop.ok) {
+      backgroundLoop.message = `background loop ${this.loopState}`;
     }
+
+    return { ok: database.ok && backgroundLoop.ok, checks: { database, backgroundLoop } };
   }
 
   /**
-   * Receives informational messages and outputs to console and logfile
-   * @param message - Message text
+   * Checks if the watcher is ready to serve current data: it is alive and the last successful
+   * API check is not older than the configured maximum age.
+   * @returns - The health status with the result of every check.
    */
-  log(message: string = "") {
-    const timestamp = new Date().toISOString();
-    let logMessage = ""; // just generate a newline by default, without timestamp
-    if (!(message === "")) {
-      logMessage = `[${timestamp}] ${message}`;
+  checkReadiness(): HealthStatus {
+    const health = this.checkHealth();
+    let lastSuccessfulCheck: NonNullable<HealthStatus["checks"]["lastSuccessfulCheck"]>;
+    if (!health.checks.database.ok) {
+      lastSuccessfulCheck = {
+        ok: false,
+        message: "database unreachable",
+        timestamp: null,
+        staleAfter: null,
+      };
+    } else {
+      const lastSuccess = this.loadLastSuccessfulCheck();
+      let staleAfter: Date | null = null;
+      if (lastSuccess && this.maxCheckAge !== undefined) {
+        staleAfter = new Date(lastSuccess.getTime() + this.maxCheckAge);
+      } else if (lastSuccess) {
+        // Two scheduled checks may fail, the third one has to succeed
+        const thirdCheck = this.schedule.next(this.schedule.next(lastSuccess));
+        staleAfter = new Date(thirdCheck.getTime() + LOOP_GRACE_PERIOD);
+      }
+      const ok = staleAfter !== null && Date.now() <= staleAfter.getTime();
+      lastSuccessfulCheck = {
+        ok,
+        timestamp: lastSuccess?.toISOString() ?? null,
+        staleAfter: staleAfter?.toISOString() ?? null,
+      };
+      if (!ok) {
+        lastSuccessfulCheck.message = lastSuccess
+          ? "last successful API check is stale"
+          : "no successful API check yet";
+      }
     }
+    return {
+      ok: health.ok && lastSuccessfulCheck.ok,
+      checks: { ...health.checks, lastSuccessfulCheck },
+    };
+  }
 
-    // Log the message to the console
-    console.log(logMessage);
+  /**
+   * Gets the logger of the watcher, e.g. for the web server.
+   * @returns - The logger writing to the console and the logfile.
+   */
+  get getLogger(): Logger {
+    return this.logger;
+  }
 
-    // Log the message to the log file
-    if (this.config.logFilePath) {
-      fs.appendFileSync(this.config.logFilePath, `${logMessage}\n`);
-    }
+  /**
+   * Receives error messages and outputs to console and logfile
+   * @param message - Error message
+   * @param fields - Context fields, e.g. `{ run: 42 }`
+   */
+  error(message: string, fields?: LogFields) {
+    this.logger.error(message, fields);
+  }
+
+  /**
+   * Receives warnings and outputs to console and logfile
+   * @param message - Warning message
+   * @param fields - Context fields, e.g. `{ run: 42 }`
+   */
+  warn(message: string, fields?: LogFields) {
+    this.logger.warn(message, fields);
+  }
+
+  /**
+   * Receives informational messages and outputs to console and logfile
+   * @param message - Message text
+   * @param fields - Context fields, e.g. `{ model: "openai/gpt-4" }`
+   */
+  log(message: string, fields?: LogFields) {
+    this.logger.info(message, fields);
   }
 
   /**
@@ -224,26 +605,61 @@ export class OpenRouterAPIWatcher {
    */
   async getAPIModelList(): Promise<Model[]> {
     if (isDevelopment) {
-      this.log(
-        "Warning: using fixed model list, switch to production mode to load live model list from API"
+      this.warn(
+        "using fixed model list, switch to production mode to load live model list from API"
       );
       return this.config.fixedModelList ?? [];
     }
     this.log("API check");
     this.status.apiLastCheck = new Date();
+    this.apiRetryAfter = undefined;
+    const observeFetch = (outcome: "success" | "failed") =>
+      this.fetchDuration.observe((Date.now() - this.status.apiLastCheck.getTime()) / 1_000, {
+        outcome,
+      });
     try {
       const response = await fetch(OPENROUTER_API_URL, {
         signal: AbortSignal.timeout(FETCH_TIMEOUT),
       });
+      if (!response.ok) {
+        this.apiRetryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        throw new Error(`HTTP status ${response.status} ${response.statusText}`);
+      }
       if (response) {
         const { data } = await response.json();
         if (data) {
+          const known = new Map(this.lists.models.map((model) => [model.id, model]));
+          const { models, keptIds, errors, unknownFields } = validateModelList(data, known);
+          if (errors.length > 0) {
+            this.quarantineModelList("invalid", data, errors);
+            if (models.length === keptIds.length) {
+              throw new Error(`invalid model list (${errors.length} errors): ${errors[0]}`);
+            }
+            // Invalid entries of known models must not be taken as removals
+            if (keptIds.length > 0) {
+              this.warn(`kept the known version of ${keptIds.length} invalid models`, {
+                models: keptIds.join(","),
+              });
+            }
+            const dropped = data.length - models.length;
+            if (dropped > 0) {
+              this.warn(`dropped ${dropped} invalid models from the API model list`);
+            }
+            this.warn(`invalid entries in the API model list: ${errors.join("; ")}`);
+          }
+          const newUnknownFields = unknownFields.filter((f) => !this.reportedUnknownFields.has(f));
+          if (newUnknownFields.length > 0) {
+            this.warn(`API model list contains unknown fields: ${newUnknownFields.join(", ")}`);
+            newUnknownFields.forEach((field) => this.reportedUnknownFields.add(field));
+          }
           this.status.apiLastCheckStatus = "success";
           this.updateAPILastCheck();
-          return data;
+          observeFetch("success");
+          return models;
         } else {
           this.status.apiLastCheckStatus = "failed";
           this.updateAPILastCheck();
+          observeFetch("failed");
           return [];
         }
       }
@@ -259,9 +675,51 @@ export class OpenRouterAPIWatcher {
     }
     this.status.apiLastCheckStatus = "failed";
     this.updateAPILastCheck();
+    observeFetch("failed");
     return [];
   }
 
+  /**
+   * Stores a rejected model list in the quarantine directory for later inspection.
+   * @param reason - Short reason for the rejection, part of the file name.
+   * @param data - The rejected model list.
+   * @param errors - Descriptions of the problems found.
+   */
+  quarantineModelList(reason: string, data: unknown, errors: string[]) {
+    if (!this.config.quarantineDir) {
+      return;
+    }
+    try {
+      fs.mkdirSync(this.config.quarantineDir, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/:/g, "-");
+      const filePath = path.join(this.config.quarantineDir, `models-${timestamp}-${reason}.json`);
+      fs.writeFileSync(filePath, JSON.stringify({ reason, errors, data }, null, 2));
+      this.log(`Rejected model list quarantined at ${filePath}`);
+    } catch (err) {
+      this.error(`Error quarantining rejected model list: ${err}`);
+    }
+  }
+
+  /**
+   * Checks whether a new model list would remove more models than allowed in one check.
+   * A partial list from the API would otherwise get recorded as mass removal.
+   * @param newModels - The new list of models.
+   * @param oldModels - The last stored list of models.
+   * @returns - A description of the problem or undefined if the new list is acceptable.
+   */
+  checkRemovalLimit(newModels: Model[], oldModels: Model[]): string | undefined {
+    if (oldModels.length === 0) {
+      return undefined;
+    }
+    const newIds = new Set(newModels.map((model) => model.id));
+    const removedCount = oldModels.filter((model) => !newIds.has(model.id)).length;
+    const maxRemovedShare = this.config.maxRemovedShare ?? 0.5;
+    if (removedCount / oldModels.length > maxRemovedShare) {
+      return `model list would remove ${removedCount} of ${oldModels.length} models, more than the allowed share of ${maxRemovedShare}`;
+    }
+    return undefined;
+  }
+
   /**
    * Loads all relevant lists from database.
    */
@@ -283,13 +741,14 @@ export class OpenRouterAPIWatcher {
       GROUP BY id
     )
     SELECT
-      m.id,
-      m.data,
-      m.timestamp AS model_timestamp,
+      v.id,
+      v.data,
       lam.latest_timestamp AS added_timestamp
-    FROM models m
+    FROM model_versions v
     LEFT JOIN latest_added_models lam
-      ON m.id = lam.id
+      ON v.id = lam.id
+    WHERE v.valid_until IS NULL
+    ORDER BY v.id
     `;
     const models: Model[] = this.config.db
       .prepare(query)
@@ -306,18 +765,106 @@ export class OpenRouterAPIWatcher {
 
   /**
    * Stores the current list of OpenRouter models in the SQLite database.
+   * Added and changed models get a new version, the versions of removed models end.
    * @param models - An array of Model objects to store.
    * @param timestamp - The timestamp to associate with the model list.
    */
   storeModelList(models: Model[], timestamp: Date = new Date()) {
-    const deleteModels = this.config.db.prepare("DELETE FROM models");
-    deleteModels.run();
-    const insertModels = this.config.db.prepare(
-      "INSERT INTO models (id, data, timestamp) VALUES (?, ?, ?)"
+    const current = new Map<string, string>(
+      this.config.db
+        .prepare("SELECT id, data FROM model_versions WHERE valid_until IS NULL")
+        .all()
+        .map((row: any) => [row.id, row.data])
+    );
+    const endVersion = this.config.db.prepare(
+      "UPDATE model_versions SET valid_until = ? WHERE id = ? AND valid_until IS NULL"
+    );
+    // A version replaced at the time it became valid never was current
+    const insertVersion = this.config.db.prepare(
+      "INSERT OR REPLACE INTO model_versions (id, valid_from, data) VALUES (?, ?, ?)"
     );
-    for (const model of models) {
-      insertModels.run([model.id, JSON.stringify(model), timestamp.toISOString()]);
+    this.config.db.transaction(() => {
+      for (const model of models) {
+        const data = JSON.stringify(model);
+        if (current.get(model.id) !== data) {
+          endVersion.run([timestamp.toISOString(), model.id]);
+          insertVersion.run([model.id, timestamp.toISOString(), data]);
+        }
+        current.delete(model.id);
+      }
+      for (const id of current.keys()) {
+        endVersion.run([timestamp.toISOString(), id]);
+      }
+    })();
+  }
+
+  /**
+   * Stores a snapshot of a fetched model list, de-duplicated by content hash.
+   * A new history entry only gets recorded if the list differs from the latest snapshot.
+   * @param models - The model list as fetched from the API.
+   * @param timestamp - The timestamp when the model list was fetched.
+   */
+  storeSnapshot(models: Model[], timestamp: Date = new Date()) {
+    // Sort by id, so the order in the API response does not affect the hash
+    const data = JSON.stringify([...models].sort((a, b) => a.id.localeCompare(b.id)));
+    const hash = crypto.createHash("sha256").update(data).digest("hex");
+    const latest: any = this.config.db
+      .prepare("SELECT hash FROM snapshot_history ORDER BY timestamp DESC LIMIT 1")
+      .get();
+    if (latest?.hash === hash) {
+      return;
+    }
+    this.config.db
+      .prepare("INSERT OR IGNORE INTO snapshots (hash, data) VALUES (?, ?)")
+      .run([hash, data]);
+    this.config.db
+      .prepare("INSERT INTO snapshot_history (timestamp, hash) VALUES (?, ?)")
+      .run([timestamp.toISOString(), hash]);
+  }
+
+  /**
+   * Loads the model list snapshot that was current at a given point in time.
+   * @param at - The point in time to load the model list for.
+   * @returns - The snapshot or undefined if no model list was known at that time.
+   */
+  loadSnapshot(at: Date = new Date()): ModelListSnapshot | undefined {
+    const row: any = this.config.db
+      .prepare(
+        `
+        SELECT h.timestamp, h.hash, s.data
+        FROM snapshot_history h
+        JOIN snapshots s ON s.hash = h.hash
+        WHERE h.timestamp <= ?
+        ORDER BY h.timestamp DESC
+        LIMIT 1
+        `
+      )
+      .get(at.toISOString());
+    if (!row) {
+      return undefined;
     }
+    return { timestamp: row.timestamp, hash: row.hash, models: JSON.parse(row.data) };
+  }
+
+  /**
+   * Seeds the snapshot history with the stored model list, if no snapshot exists yet.
+   * Databases created before snapshots were kept only contain the latest model list.
+   */
+  private seedSnapshots() {
+    const rows: any[] = this.config.db
+      .prepare("SELECT data, valid_from AS timestamp FROM model_versions WHERE valid_until IS NULL")
+      .all();
+    if (rows.length === 0 || this.config.db.prepare("SELECT 1 FROM snapshot_history").get()) {
+      return;
+    }
+    const timestamp = rows.reduce(
+      (latest: string, row: any) => (row.timestamp > latest ? row.timestamp : latest),
+      ""
+    );
+    this.storeSnapshot(
+      rows.map((row) => JSON.parse(row.data)),
+      new Date(timestamp)
+    );
   }
 
   /**
@@ -348,6 +895,65 @@ export class OpenRouterAPIWatcher {
     insertModel.run([model.id, JSON.stringify(model), timestamp.toISOString()]);
   }
 
+  /**
+   * Loads a single model with its additions, removals and changes from the SQLite database.
+   * @param id - The id of the model.
+   * @returns - The model history or undefined if the model id is unknown.
+   */
+  loadModelHistory(id: string): ModelHistory | undefined {
+    const timeline = this.config.db
+      .prepare(
+        `
+        SELECT 'added' AS type, timestamp FROM added_models WHERE id = ?
+        UNION ALL
+        SELECT 'removed' AS type, timestamp FROM removed_models WHERE id = ?
+        ORDER BY timestamp
+        `
+      )
+      .all([id, id]) as ModelHistory["timeline"];
+    const lastAdded = timeline.filter((entry) => entry.type === "added").at(-1)?.timestamp;
+
+    let model: Model;
+    let removed = false;
+    const current: any = this.config.db
+      .prepare("SELECT data FROM model_versions WHERE id = ? AND valid_until IS NULL")
+      .get(id);
+    if (current) {
+      model = JSON.parse(current.data);
+      if (lastAdded) {
+        model.added_at = lastAdded;
+      }
+    } else {
+      const last: any = this.config.db
+        .prepare(
+          "SELECT data, timestamp FROM removed_models WHERE id = ? ORDER BY timestamp DESC LIMIT 1"
+        )
+        .get(id);
+      if (!last) {
+        return undefined;
+      }
+      model = { ...JSON.parse(last.data), removed_at: last.timestamp };
+      removed = true;
+    }
+
+    const changes = this.config.db
+      .prepare(`SELECT ${CHANGES_COLUMNS} FROM changes WHERE id = ? ORDER BY timestamp DESC`)
+      .all(id)
+      .map(this.transformChangesRow);
+
+    return { model, removed, timeline, changes };
+  }
+
+  /**
+   * Exports a table of the SQLite database as flat rows, changes get one row per changed field.
+   * @param table - The table to export.
+   * @param format - The export format.
+   * @returns - A generator yielding the exported lines, the rows get read in batches.
+   */
+  exportTable(table: ExportTable, format: ExportFormat): Generator<string> {
+    return exportLines(this.config.db, table, format);
+  }
+
   /**
    * Loads the most recent model changes from the SQLite database.
    * @param n - The maximum number of changes to load.
@@ -356,58 +962,328 @@ export class OpenRouterAPIWatcher {
   loadChanges(n?: number): ModelDiff[] {
     if (n) {
       return this.config.db
-        .prepare("SELECT id, type, changes, timestamp FROM changes ORDER BY timestamp DESC LIMIT ?")
+        .prepare(`SELECT ${CHANGES_COLUMNS} FROM changes ORDER BY timestamp DESC LIMIT ?`)
         .all(n)
         .map(this.transformChangesRow);
     } else {
       return this.config.db
-        .prepare("SELECT id, type, changes, timestamp FROM changes ORDER BY timestamp DESC")
+        .prepare(`SELECT ${CHANGES_COLUMNS} FROM changes ORDER BY timestamp DESC`)
         .all()
         .map(this.transformChangesRow);
     }
   }
 
+  /**
+   * Derives the price history of a model from its stored change history.
+   * Starting with the current (or last known) prices, all price changes get reverted step by step.
+   * @param id - The id of the model.
+   * @returns - The price history or undefined if the model id is unknown.
+   */
+  loadPriceHistory(id: string): PriceHistory | undefined {
+    const history = this.loadModelHistory(id);
+    if (!history) {
+      return undefined;
+    }
+    const priceFields = ["prompt", "completion", "request", "image"] as const;
+    type Prices = Omit<PricePoint, "timestamp">;
+    const toPrice = (value: unknown): number | null =>
+      value === null || value === undefined || isNaN(Number(value)) ? null : Number(value);
+    const pricesOf = (model?: Model): Prices => ({
+      prompt: toPrice(model?.pricing?.prompt),
+      completion: toPrice(model?.pricing?.completion),
+      request: toPrice(model?.pricing?.request),
+      image: toPrice(model?.pricing?.image),
+    });
+    const unlisted: Prices = { prompt: null, completion: null, request: null, image: null };
+
+    // Walk backwards in time, prices holds the prices valid right after each change
+    const points: PricePoint[] = [];
+    let prices = pricesOf(history.model);
+    let listedBefore = true; // whether the model was listed before the oldest change
+    for (const change of history.changes) {
+      if (change.type === "removed") {
+        points.push({ timestamp: change.timestamp, ...unlisted });
+        prices = pricesOf(change.model);
+        listedBefore = true;
+      } else if (change.type === "added") {
+        prices = pricesOf(change.model);
+        points.push({ timestamp: change.timestamp, ...prices });
+        listedBefore = false;
+      } else {
+        const priceChanges = priceFields.filter((field) => change.changes?.[`pricing.${field}`]);
+        if (priceChanges.length === 0) {
+          continue;
+        }
+        points.push({ timestamp: change.timestamp, ...prices });
+        prices = { ...prices };
+        for (const field of priceChanges) {
+          prices[field] = toPrice(change.changes![`pricing.${field}`].old);
+        }
+        listedBefore = true;
+      }
+    }
+
+    // Prices before the oldest change are known from the start of the recording
+    if (listedBefore) {
+      const row: any = this.config.db.prepare("SELECT MIN(timestamp) AS start FROM changes").get();
+      const start: string | null = row?.start ?? null;
+      const oldest = points.at(-1)?.timestamp;
+      if (!oldest) {
+        points.push({ timestamp: start ?? new Date().toISOString(), ...prices });
+      } else if (start && start < oldest) {
+        points.push({ timestamp: start, ...prices });
+      }
+    }
+
+    return { id, points: points.reverse() };
+  }
+
+  /**
+   * Queries one page of changes from the SQLite database, newest first.
+   * All filters are applied in SQL, pages are continued by a cursor (keyset pagination).
+   * @param query - The filters and pagination options.
+   * @returns - The page of changes with the cursor for the next page.
+   * @throws - If the cursor is invalid.
+   */
+  queryChanges(query: ChangesQuery = {}): ChangesPage {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.types && query.types.length > 0) {
+      conditions.push(`type IN (${query.types.map(() => "?").join(", ")})`);
+      params.push(...query.types);
+    }
+    if (query.id) {
+      conditions.push("id GLOB ?");
+      params.push(query.id);
+    }
+    if (query.ids && query.ids.length > 0) {
+      conditions.push(`id IN (${query.ids.map(() => "?").join(", ")})`);
+      params.push(...query.ids);
+    }
+    if (query.prefix) {
+      conditions.push("substr(id, 1, length(?)) = ?");
+      params.push(query.prefix, query.prefix);
+    }
+    if (query.field) {
+      // Only changed entries store field changes, the others store the full model
+      conditions.push(
+        `type = 'changed' AND EXISTS (
+          SELECT 1 FROM field_changes f
+          WHERE f.id = changes.id AND f.timestamp = changes.timestamp AND f.path GLOB ?
+        )`
+      );
+      params.push(query.field);
+    }
+    if (query.since) {
+      conditions.push("timestamp >= ?");
+      params.push(query.since.toISOString());
+    }
+    if (query.until) {
+      conditions.push("timestamp < ?");
+      params.push(query.until.toISOString());
+    }
+    if (query.cursor) {
+      // All changes of one check run share a timestamp, the model id breaks ties
+      const [timestamp, id] = this.decodeChangesCursor(query.cursor);
+      conditions.push("(timestamp < ? OR (timestamp = ? AND id > ?))");
+      params.push(timestamp, timestamp, id);
+    }
+    const limit = Math.min(Math.max(query.limit ?? CHANGES_PAGE_SIZE, 1), CHANGES_PAGE_SIZE_MAX);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const changes = this.config.db
+      .prepare(
+        `
+        SELECT ${CHANGES_COLUMNS} FROM changes
+        ${where}
+        ORDER BY timestamp DESC, id ASC
+        LIMIT ?
+        `
+      )
+      .all([...params, limit + 1])
+      .map(this.transformChangesRow);
+
+    let nextCursor: string | null = null;
+    if (changes.length > limit) {
+      changes.length = limit;
+      const last = changes[limit - 1];
+      nextCursor = Buffer.from(JSON.stringify([last.timestamp, last.id])).toString("base64url");
+    }
+    return { changes, nextCursor };
+  }
+
+  /**
+   * Decodes a cursor created by queryChanges.
+   * @param cursor - The cursor to decode.
+   * @returns - The timestamp and model id of the last change on the previous page.
+   * @throws - If the cursor is invalid.
+   */
+  private decodeChangesCursor(cursor: string): [string, string] {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 2 &&
+        decoded.every((value) => typeof value === "string")
+      ) {
+        return decoded as [string, string];
+      }
+    } catch {
+      // fall through
+    }
+    throw new Error("Invalid cursor");
+  }
+
   /**
    * Transform a row from the changes table to an ModelDiff object
    * @param row - The row from the database to transform
    * @returns
    */
   private transformChangesRow = (row: any): ModelDiff => {
-    const changes = JSON.parse(row.changes);
+    const run = row.run_id ? { run: row.run_id } : {};
     if (row.type === "changed") {
+      const changes: { [key: string]: FieldChange } = {};
+      for (const [path, old, value, op] of JSON.parse(row.fields)) {
+        // Field changes recorded before operations were stored have none
+        changes[path] = {
+          old: old === null ? undefined : JSON.parse(old),
+          new: value === null ? undefined : JSON.parse(value),
+          ...(op ? { op } : {}),
+        };
+      }
       return {
         id: row.id,
         type: row.type,
         changes,
         timestamp: row.timestamp,
+        ...run,
       };
     }
     return {
       id: row.id,
       type: row.type,
-      model: changes,
+      model: JSON.parse(row.changes),
       timestamp: row.timestamp,
+      ...run,
     };
   };
 
   /**
    * Stores a list of model changes in the SQLite database.
+   * The fields of changed entries additionally get stored one row each, with JSON encoded values.
    * @param changes - An array of ModelDiff objects to store.
    */
   storeChanges(changes: ModelDiff[]) {
     const insertChanges = this.config.db.prepare(
-      "INSERT INTO changes (id, type, changes, timestamp) VALUES (?, ?, ?, ?)"
+      "INSERT INTO changes (id, type, changes, timestamp, run_id) VALUES (?, ?, ?, ?, ?)"
+    );
+    const insertFieldChanges = this.config.db.prepare(
+      "INSERT INTO field_changes (id, timestamp, path, old, new, op) VALUES (?, ?, ?, ?, ?, ?)"
     );
+    const toJSON = (value: unknown) => (value === undefined ? null : JSON.stringify(value));
+    this.config.db.transaction(() => {
+      for (const change of changes) {
+        insertChanges.run([
+          change.id,
+          change.type,
+          change.changes ? JSON.stringify(change.changes) : JSON.stringify(change.model),
+          change.timestamp,
+          change.run ?? null,
+        ]);
+        for (const [path, field] of Object.entries(change.changes ?? {})) {
+          insertFieldChanges.run([
+            change.id,
+            change.timestamp,
+            path,
+            toJSON(field.old),
+            toJSON(field.new),
+            field.op ?? null,
+          ]);
+        }
+      }
+    })();
     for (const change of changes) {
-      insertChanges.run([
-        change.id,
-        change.type,
-        change.changes ? JSON.stringify(change.changes) : JSON.stringify(change.model),
-        change.timestamp,
-      ]);
+      this.changesRecorded.inc({ type: change.type });
     }
   }
 
+  /**
+   * Records the start of a new API check run in the SQLite database.
+   * @param timestamp - The timestamp when the check run started.
+   * @returns - The id of the new check run.
+   */
+  startCheckRun(timestamp: Date = new Date()): number {
+    const result = this.config.db
+      .prepare("INSERT INTO check_runs (started_at, status) VALUES (?, 'running')")
+      .run([timestamp.toISOString()]);
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Records the result of an API check run in the SQLite database.
+   * @param id - The id of the check run.
+   * @param status - The result status of the check run.
+   * @param modelCount - The number of models received from the API.
+   * @param changeCount - The number of changes detected.
+   */
+  finishCheckRun(id: number, status: string, modelCount: number, changeCount: number) {
+    const finishedAt = new Date();
+    const run: any = this.config.db
+      .prepare(
+        "UPDATE check_runs SET finished_at = ?, status = ?, model_count = ?, change_count = ? WHERE id = ? RETURNING started_at"
+      )
+      .get([finishedAt.toISOString(), status, modelCount, changeCount, id]);
+    if (run) {
+      this.checkDuration.observe((finishedAt.getTime() - Date.parse(run.started_at)) / 1_000, {
+        outcome: status,
+      });
+    }
+  }
+
+  /**
+   * Loads the most recent API check runs from the SQLite database.
+   * @param n - The maximum number of check runs to load.
+   * @param before - Only load check runs older than this one, continues a previous page.
+   * @returns - An array of CheckRun objects, newest first.
+   */
+  loadCheckRuns(n: number = CHECK_RUNS_PAGE_SIZE, before?: number): CheckRun[] {
+    return this.config.db
+      .prepare("SELECT * FROM check_runs WHERE id < ? ORDER BY id DESC LIMIT ?")
+      .all(before ?? Number.MAX_SAFE_INTEGER, n)
+      .map(this.transformCheckRunRow);
+  }
+
+  /**
+   * Loads a single API check run including all changes it detected.
+   * @param id - The id of the check run.
+   * @returns - The check run with its changes or undefined if the id is unknown.
+   */
+  loadCheckRun(id: number): (CheckRun & { changes: ModelDiff[] }) | undefined {
+    const row = this.config.db.prepare("SELECT * FROM check_runs WHERE id = ?").get(id);
+    if (!row) {
+      return undefined;
+    }
+    const changes = this.config.db
+      .prepare(`SELECT ${CHANGES_COLUMNS} FROM changes WHERE run_id = ? ORDER BY id`)
+      .all(id)
+      .map(this.transformChangesRow);
+    return { ...this.transformCheckRunRow(row), changes };
+  }
+
+  /**
+   * Transform a row from the check_runs table to a CheckRun object
+   * @param row - The row from the database to transform
+   * @returns
+   */
+  private transformCheckRunRow = (row: any): CheckRun => ({
+    id: row.id,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    status: row.status,
+    modelCount: row.model_count ?? 0,
+    changeCount: row.change_count ?? 0,
+  });
+
   /**
    * Stores an added model to the OpenRouter models list in the SQLite database.
    * @param model - Added Model object to store.
@@ -449,23 +1325,33 @@ export class OpenRouterAPIWatcher {
 
   /**
    * Finds the changes between a new list of models and the last stored list of models.
+   * All changes share the same timestamp and check run.
    * @param newModels - The new list of models.
    * @param oldModels - The last stored list of models.
+   * @param timestamp - The timestamp to associate with the changes.
+   * @param run - The id of the check run detecting the changes.
    * @returns An array of ModelDiff objects representing the changes.
    */
-  findChanges(newModels: Model[], oldModels: Model[]): ModelDiff[] {
+  findChanges(
+    newModels: Model[],
+    oldModels: Model[],
+    timestamp: Date = new Date(),
+    run?: number
+  ): ModelDiff[] {
     const changes: ModelDiff[] = [];
+    const runProperty = run ? { run } : {};
+    const oldById = new Map(oldModels.map((model) => [model.id, model]));
+    const newIds = new Set(newModels.map((model) => model.id));
 
     // Check for new models
     for (const newModel of newModels) {
-      const oldModel = oldModels.find((m) => m.id === newModel.id);
-      if (!oldModel) {
-        const timestamp = new Date();
+      if (!oldById.has(newModel.id)) {
         changes.push({
           id: newModel.id,
           type: "added",
           model: newModel,
           timestamp: timestamp.toISOString(),
+          ...runProperty,
         });
         this.storeAddedModel(newModel, timestamp);
       }
@@ -473,14 +1359,13 @@ export class OpenRouterAPIWatcher {
 
     // Check for removed models
     for (const oldModel of oldModels) {
-      const newModel = newModels.find((m) => m.id === oldModel.id);
-      if (!newModel) {
-        const timestamp = new Date();
+      if (!newIds.has(oldModel.id)) {
         changes.push({
           id: oldModel.id,
           type: "removed",
           model: oldModel,
           timestamp: timestamp.toISOString(),
+          ...runProperty,
         });
         this.storeRemovedModel(oldModel, timestamp);
       }
@@ -488,7 +1373,7 @@ export class OpenRouterAPIWatcher {
 
     // Check for changes in existing models
     for (const newModel of newModels) {
-      const oldModel = oldModels.find((m) => m.id === newModel.id);
+      const oldModel = oldById.get(newModel.id);
       if (oldModel) {
         const diff = this.diffModels(newModel, oldModel);
         if (Object.keys(diff.changes).length > 0) {
@@ -496,7 +1381,8 @@ export class OpenRouterAPIWatcher {
             ...diff,
             id: newModel.id,
             type: "changed",
-            timestamp: new Date().toISOString(),
+            timestamp: timestamp.toISOString(),
+            ...runProperty,
           });
         }
       }
@@ -505,8 +1391,48 @@ export class OpenRouterAPIWatcher {
     return changes;
   }
 
+  /**
+   * Compares the model list snapshots current at two points in time, without storing anything.
+   * @param from - The earlier point in time.
+   * @param to - The later point in time.
+   * @returns - Both snapshots and the changes between them, undefined if no snapshot is known for a point in time.
+   */
+  diffSnapshots(
+    from: Date,
+    to: Date
+  ): { from: ModelListSnapshot; to: ModelListSnapshot; changes: ModelDiff[] } | undefined {
+    const fromSnapshot = this.loadSnapshot(from);
+    const toSnapshot = this.loadSnapshot(to);
+    if (!fromSnapshot || !toSnapshot) {
+      return undefined;
+    }
+    const oldModels = new Map(fromSnapshot.models.map((model) => [model.id, model]));
+    const newModels = new Map(toSnapshot.models.map((model) => [model.id, model]));
+    const timestamp = toSnapshot.timestamp;
+    const changes: ModelDiff[] = [];
+    for (const [id, model] of newModels) {
+      const oldModel = oldModels.get(id);
+      if (!oldModel) {
+        changes.push({ id, type: "added", model, timestamp });
+        continue;
+      }
+      const diff = this.diffModels(model, oldModel);
+      if (Object.keys(diff.changes).length > 0) {
+        changes.push({ ...diff, id, type: "changed", timestamp });
+      }
+    }
+    for (const [id, model] of oldModels) {
+      if (!newModels.has(id)) {
+        changes.push({ id, type: "removed", model, timestamp });
+      }
+    }
+    return { from: fromSnapshot, to: toSnapshot, changes };
+  }
+
   /**
    * Compares two models and returns the differences between them.
+   * Every deep-diff kind gets recorded with its operation: edited values (E),
+   * added fields (N), removed fields (D) and changed array elements (A).
    * @param newModel - The new model to compare.
    * @param oldModel - The old model to compare.
    * @returns An object containing the changes between the two models.
@@ -514,16 +1440,39 @@ export class OpenRouterAPIWatcher {
   private diffModels(
     newModel: Model,
     oldModel: Model
-  ): { changes: { [key: string]: { old: any; new: any } } } {
-    const changes: { [key: string]: { old: any; new: any } } = {};
-    const diffs = diff(oldModel, newModel);
+  ): { changes: { [key: string]: FieldChange } } {
+    const changes: { [key: string]: FieldChange } = {};
+    // Skip properties added locally from the database, they are not part of the API model
+    const diffs = diff(
+      oldModel,
+      newModel,
+      (path, key) => path.length === 0 && (key === "added_at" || key === "removed_at")
+    );
 
     if (diffs) {
       for (const d of diffs) {
-        if (d.kind === "E") {
-          if (d.path) {
-            changes[d.path.join(".")] = { old: d.lhs, new: d.rhs };
-          }
+        if (!d.path) {
+          continue;
+        }
+        const key = d.path.join(".");
+        // JSON drops undefined values, use null for the missing side of a change
+        switch (d.kind) {
+          case "E":
+            changes[key] = { old: d.lhs, new: d.rhs, op: "edited" };
+            break;
+          case "N":
+            changes[key] = { old: null, new: d.rhs, op: "added" };
+            break;
+          case "D":
+            changes[key] = { old: d.lhs, new: null, op: "removed" };
+            break;
+          case "A":
+            changes[`${key}.${d.index}`] = {
+              old: d.item.kind === "E" || d.item.kind === "D" ? d.item.lhs : null,
+              new: d.item.kind === "E" || d.item.kind === "N" ? d.item.rhs : null,
+              op: "array",
+            };
+            break;
         }
       }
     }
@@ -532,101 +1481,331 @@ export class OpenRouterAPIWatcher {
   }
 
   /**
-   * High level check logic
+   * Fetches the current list of OpenRouter models, retrying failed fetches with capped
+   * exponential backoff and jitter until the next scheduled check is due.
+   * Honours Retry-After and stops retrying while the circuit breaker is open.
+   * @param maxRetries - The maximum number of retries, unlimited by default.
+   * @returns - A Promise that resolves to an array of Model objects, empty if all attempts failed.
    */
-  private async check() {
-    let newModels = await this.getAPIModelList();
-    if (newModels.length === 0) {
+  private async getAPIModelListWithRetry(maxRetries: number = Infinity): Promise<Model[]> {
+    for (let attempt = 0; ; attempt++) {
+      if (!this.circuitBreaker.canAttempt()) {
+        this.error(
+          `circuit breaker open until ${this.circuitBreaker.cooldownUntil?.toISOString()}, skipping API fetch`
+        );
+        return [];
+      }
+      const models = await this.getAPIModelList();
+      if (models.length > 0) {
+        this.circuitBreaker.recordSuccess();
+        this.status.apiNextRetry = null;
+        return models;
+      }
+      this.circuitBreaker.recordFailure();
+      this.status.apiNextRetry = null;
+      if (!this.circuitBreaker.canAttempt()) {
+        this.error(
+          `${this.circuitBreaker.consecutiveFailures} consecutive failures, opening circuit breaker`
+        );
+        return [];
+      }
+      if (attempt >= maxRetries) {
+        return [];
+      }
+      const delay = Math.max(backoffDelay(attempt, this.retryPolicy), this.apiRetryAfter ?? 0);
+      const retryAt = new Date(Date.now() + delay);
+      if (retryAt >= this.status.apiNextCheck) {
+        return []; // the next scheduled check takes over
+      }
+      this.status.apiNextRetry = retryAt;
       this.status.apiLastCheckStatus = "unknown";
       this.updateAPILastCheck();
-      this.error("empty model list from API, retry in one minute");
-      await new Promise((resolve) => setTimeout(resolve, 60_000)); // 1 minute
-      newModels = await this.getAPIModelList();
+      this.warn(
+        `empty model list from API, retry #${attempt + 1} in ${Math.round(delay / 1_000)} seconds`
+      );
+      await this.sleepUntil(retryAt);
     }
-    if (newModels.length === 0) {
-      this.status.apiLastCheckStatus = "failed";
-      this.error("empty model list from API after retry, skipping check");
-    } else {
-      const oldModels = this.lists.models;
-      const changes = this.findChanges(newModels, oldModels);
-      this.status.apiLastCheckStatus = "success";
-      this.updateAPILastCheck();
-      if (changes.length > 0) {
+  }
+
+  /**
+   * High level check logic
+   * @param maxRetries - The maximum number of retries of failed API fetches, unlimited by default.
+   */
+  private async check(maxRetries?: number): Promise<number> {
+    const run = this.startCheckRun();
+    let finished = false;
+    const finish = (status: string, modelCount: number, changeCount: number) => {
+      finished = true;
+      this.finishCheckRun(run, status, modelCount, changeCount);
+    };
+    try {
+      const newModels = await this.getAPIModelListWithRetry(maxRetries);
+      const rejection = this.checkRemovalLimit(newModels, this.lists.models);
+      if (newModels.length === 0) {
+        this.status.apiLastCheckStatus = "failed";
+        this.error("empty model list from API after retries, skipping check", { run });
+        finish("failed", 0, 0);
+      } else if (rejection) {
+        this.status.apiLastCheckStatus = "failed";
+        this.error(`${rejection}, rejecting model list`, { run });
+        this.quarantineModelList("removals", newModels, [rejection]);
+        finish("rejected", newModels.length, 0);
+      } else {
+        const oldModels = this.lists.models;
         const timestamp = new Date();
-        this.storeModelList(newModels, timestamp);
-        this.storeChanges(changes);
-        this.log("Changes detected:");
-        this.log(JSON.stringify(changes, null, 4));
+        const changes = this.findChanges(newModels, oldModels, timestamp, run);
+        this.status.apiLastCheckStatus = "success";
+        this.updateAPILastCheck();
+        this.storeSnapshot(newModels, timestamp);
+        if (changes.length > 0) {
+          this.storeModelList(newModels, timestamp);
+          this.storeChanges(changes);
+          this.log(`${changes.length} changes detected`, { run });
+          for (const change of changes) {
+            const fields = change.changes ? Object.keys(change.changes).join(",") : undefined;
+            this.log(`model ${change.type}`, { run, model: change.id, fields });
+            this.logger.debug(JSON.stringify(change, null, 4), { run, model: change.id });
+          }
 
-        // re-load lists from db to keep added properties
-        // copying the API model list removes all added properties
-        this.loadLists();
-        this.status.dbLastChange = timestamp;
+          // re-load lists from db to keep added properties
+          // copying the API model list removes all added properties
+          this.loadLists();
+          this.status.dbLastChange = timestamp;
+          finish("success", newModels.length, changes.length);
 
-        // Create a database backup
-        await this.backupDb();
-        // no need to fall through
-        return;
+          // Notify webhooks, failed deliveries stay in the outbox for retries
+          if (this.webhooks) {
+            this.webhooks.enqueue(changes, run);
+            await this.webhooks.deliverPending();
+          }
+
+          // Create a database backup, a failed backup must not stop the watcher
+          await this.backupDb().catch((err) => this.error(`${err}`));
+          // no need to fall through
+          return run;
+        }
+        finish("success", newModels.length, 0);
+      }
+    } catch (err) {
+      // A failing check must not stay running, e.g. if storing the model list failed
+      this.error(`check failed: ${err}`, { run });
+      if (!finished) {
+        this.status.apiLastCheckStatus = "failed";
+        finish("failed", 0, 0);
       }
     }
     this.updateAPILastCheck();
+    return run;
   }
 
   /**
    * Runs the OpenRouterAPIWatcher only once
+   * @param retries - The number of retries of a failed API fetch, none by default, so a failed
+   * check returns right away instead of backing off.
+   * @returns - The finished check run with the detected changes.
    */
-  public async runOnce() {
-    await this.check();
+  public async runOnce(retries: number = 0): Promise<CheckRun & { changes: ModelDiff[] }> {
+    // Retries never run beyond the time the next check would be due
+    this.status.apiNextCheck = this.schedule.next(new Date());
+    const run = await this.check(retries);
+    return this.loadCheckRun(run)!;
   }
 
   /**
-   * Backups the database, saving previous backup.
-   * @param initial - If set only create a backup if none exists.
+   * Lists the backups of the database.
+   * @returns - The backups, newest first, empty if backups are not configured.
    */
-  private async backupDb(initial: boolean = false) {
-    const dbBackupFilePath = this.getDbBackupPath;
-    if (!dbBackupFilePath) {
-      return; // no backup path, no backups
+  listBackups(): DatabaseBackup[] {
+    if (!this.config.backupDir || !this.config.dbFilePath) {
+      return [];
     }
+    return listBackups(this.config.backupDir, path.basename(this.config.dbFilePath));
+  }
 
-    // Skip creating a backup during initialisation, but create one if no backup exists.
-    if (initial && fs.existsSync(dbBackupFilePath)) {
+  /**
+   * Checks the integrity of a backup.
+   * @param name - The file name of the backup.
+   * @returns - The problems found, empty for intact backups.
+   */
+  verifyBackup(name: string): string[] {
+    const backup = this.listBackups().find((backup) => backup.name === name);
+    if (!backup) {
+      throw new Error(`Unknown backup: ${name}`);
+    }
+    return checkIntegrity(path.join(this.config.backupDir!, backup.name));
+  }
+
+  /**
+   * Backups the database before pending migrations get applied, the backup never expires.
+   * @param version - The current version of the database.
+   */
+  private backupBeforeMigration(version: number) {
+    if (!this.config.backupDir || !this.config.dbFilePath) {
       return;
     }
-    const dbPrevBackupFilePath = dbBackupFilePath + ".prev";
-    if (fs.existsSync(dbBackupFilePath)) {
-      this.log("Moving current database backup");
-      if (fs.existsSync(dbPrevBackupFilePath)) {
-        await fs.promises.unlink(dbPrevBackupFilePath);
-      }
-      await fs.promises.rename(dbBackupFilePath, dbPrevBackupFilePath);
+    const backup = backupDatabaseSync(
+      this.config.db,
+      this.config.backupDir,
+      path.basename(this.config.dbFilePath),
+      `pre-migration-v${version}`
+    );
+    this.log(`Database backup before migrating written to ${backup.name}`);
+  }
+
+  /**
+   * Backups the database to a timestamped file and removes backups expired by the retention policy.
+   * Backups failing the integrity check get deleted right away, they never replace older backups.
+   * @param initial - If set only create a backup if none exists.
+   * @returns - The new backup, undefined if backups are not configured or skipped.
+   */
+  async backupDb(initial: boolean = false): Promise<DatabaseBackup | undefined> {
+    if (!this.config.backupDir || !this.config.dbFilePath) {
+      return undefined; // no backup path, no backups
+    }
+    const backups = this.listBackups();
+    // Skip creating a backup during initialisation, but create one if no backup exists.
+    // Labelled backups don't count, they are not served for bootstrapping.
+    if (initial && backups.some((backup) => !backup.label)) {
+      return undefined;
     }
+
     this.log("Creating new database backup");
-    // this.config.db.run(`VACUUM INTO '${dbBackupFilePath}'`);
-    // TODO: VACUUM INTO can fail under extreme circumstances (e.g. concurrent write operation)
-    await this.config.db.backup(dbBackupFilePath); // sub-par solution IMHO, but testing it
-
-    // Create compressed backup file to serve for bootstrapping.
-    const dbBackupFilePathGz = dbBackupFilePath + ".gz";
-    if (fs.existsSync(dbBackupFilePathGz)) {
-      await fs.promises.unlink(dbBackupFilePathGz);
-    }
-    await pipeline(
-      fs.createReadStream(dbBackupFilePath),
-      createGzip(),
-      fs.createWriteStream(dbBackupFilePathGz)
+    const timestamp = new Date();
+    try {
+      const name = backupFileName(path.basename(this.config.dbFilePath), timestamp);
+      const backupFilePath = path.join(this.config.backupDir, name);
+      // this.config.db.run(`VACUUM INTO '${backupFilePath}'`);
+      // TODO: VACUUM INTO can fail under extreme circumstances (e.g. concurrent write operation)
+      await this.config.db.backup(`${backupFilePath}.tmp`); // sub-par solution IMHO, but testing it
+      const problems = checkIntegrity(`${backupFilePath}.tmp`);
+      if (problems.length > 0) {
+        await fs.promises.unlink(`${backupFilePath}.tmp`);
+        throw new Error(`Database backup failed the integrity check: ${problems.join(", ")}`);
+      }
+      await fs.promises.rename(`${backupFilePath}.tmp`, backupFilePath);
+
+      // Create compressed backup file to serve for bootstrapping, only for the newest backup.
+      await pipeline(
+        fs.createReadStream(backupFilePath),
+        createGzip(),
+        fs.createWriteStream(`${backupFilePath}.gz.tmp`)
+      );
+      await fs.promises.rename(`${backupFilePath}.gz.tmp`, `${backupFilePath}.gz`);
+      for (const backup of backups) {
+        await fs.promises.rm(path.join(this.config.backupDir, `${backup.name}.gz`), {
+          force: true,
+        });
+      }
+
+      const backup = {
+        name,
+        timestamp: timestamp.toISOString(),
+        size: fs.statSync(backupFilePath).size,
+      };
+      const expired = expiredBackups([backup, ...backups], this.retention);
+      for (const { name } of expired) {
+        await fs.promises.unlink(path.join(this.config.backupDir, name));
+      }
+      this.log(`Database backup finished, ${expired.length} expired backups removed`);
+      this.backupDuration.observe((Date.now() - timestamp.getTime()) / 1_000, {
+        outcome: "success",
+      });
+      this.backupSize.set(backup.size);
+      return backup;
+    } catch (err) {
+      this.backupDuration.observe((Date.now() - timestamp.getTime()) / 1_000, {
+        outcome: "failed",
+      });
+      throw err;
+    }
+  }
+
+  /**
+   * Restores the database from a backup, the current state gets backed up first.
+   * @param name - The file name of the backup.
+   * @returns - A Promise that resolves to the backup of the state before restoring.
+   */
+  async restoreBackup(name: string): Promise<DatabaseBackup | undefined> {
+    const problems = this.verifyBackup(name);
+    if (problems.length > 0) {
+      throw new Error(`Backup ${name} failed the integrity check: ${problems.join(", ")}`);
+    }
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(this.config.dataDir ?? os.tmpdir(), "restore-")
     );
+    try {
+      // Copy first, the backup of the current state may expire the restored backup
+      const filePath = path.join(tempDir, name);
+      await fs.promises.copyFile(path.join(this.config.backupDir!, name), filePath);
+      const previous = await this.backupDb();
+      restoreDatabase(this.config.db, filePath, (message) => this.log(message));
+      this.loadLists();
+      this.loadAPILastCheck();
+      this.status.dbLastChange = new Date();
+      this.log(`Restored database from backup ${name}`);
+      return previous;
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
 
-    this.log("Database backup finished");
+  /**
+   * Merges the history of another instance from its database backup into the database.
+   * @param source - The path or http(s) URL of the backup, e.g. `https://example.com/orw.db.gz`.
+   * @param window - Time window in milliseconds for skipping rows with identical content as near duplicates.
+   * @returns - A Promise that resolves to the report of merged, duplicate and conflicting rows.
+   */
+  async importHistory(source: string, window: number = 0): Promise<ImportReport> {
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(this.config.dataDir ?? os.tmpdir(), "import-")
+    );
+    try {
+      const filePath = path.join(tempDir, "orw.db");
+      await fetchBackup(source, filePath);
+      const report = mergeHistory(this.config.db, filePath, source, {
+        window,
+        log: (message) => this.log(message),
+      });
+      const imported = Object.values(report.tables).reduce((sum, table) => sum + table.imported, 0);
+      this.log(
+        `Imported ${imported} rows from ${source}, ${report.conflicts.length} conflicting rows kept`
+      );
+      if (imported > 0) {
+        this.loadLists();
+        this.status.dbLastChange = new Date();
+        await this.backupDb().catch((err) => this.error(`${err}`));
+      }
+      return report;
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
   }
 
   /**
-   * Runs the main check loop, continuously checking for model changes every hour.
+   * Runs the main check loop, continuously checking for model changes as scheduled.
    */
   private async runBackgroundLoop() {
     while (true) {
+      // Schedule from the start of the check, the last API check timestamp
+      // does not move if the check fails early (e.g. in development mode)
+      const checkStart = new Date();
+      this.status.apiNextCheck = this.schedule.next(checkStart);
       await this.check();
-      await new Promise((resolve) => setTimeout(resolve, 3_600_000)); // 1 hour
+      this.status.apiNextCheck = this.schedule.next(checkStart);
+      await this.sleepUntil(this.status.apiNextCheck);
+    }
+  }
+
+  /**
+   * Sleeps until a given point in time.
+   * @param date - The point in time to wake up.
+   */
+  private async sleepUntil(date: Date) {
+    // setTimeout fires immediately for delays longer than ~24.8 days, sleep in chunks
+    let remaining = date.getTime() - Date.now();
+    while (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, Math.min(remaining, 86_400_000)));
+      remaining = date.getTime() - Date.now();
     }
   }
 
@@ -634,24 +1813,29 @@ export class OpenRouterAPIWatcher {
    * Prepares the OpenRouterAPIWatcher for background mode.
    */
   public async enterBackgroundMode() {
-    this.backupDb(true);
-    this.log("Watcher running in background mode");
-    // Check the last API timestamp and check if it is older than one hour
-    const timeDiff = Date.now() - this.status.apiLastCheck.getTime();
-    if (timeDiff > 3_600_000) {
-      await this.runBackgroundLoop();
-      // this never returns...
-    }
-    // schedule the next API check after the remaining wait time has elapsed
-    const sleeptime = 3_600_000 - timeDiff;
-    if (sleeptime > 0) {
-      this.log(`Next API check in ${(sleeptime / 1_000 / 60).toFixed(0)} minutes`);
-      setTimeout(() => this.runBackgroundLoop(), sleeptime);
-      // this also should never return...
-    } else {
-      // this should never happen
-      this.log("Rip in the spacetime continuum detected, proceeding anyway");
-      await this.runBackgroundLoop();
+    this.loopState = "starting";
+    try {
+      await this.seeding;
+      this.backupDb(true).catch((err) => this.error(`${err}`));
+      this.log(`Watcher running in background mode with schedule "${this.schedule.expression}"`);
+      // Check if the next API check after the last one is already due
+      this.status.apiNextCheck = this.schedule.next(this.status.apiLastCheck);
+      this.loopState = "running";
+      const sleeptime = this.status.apiNextCheck.getTime() - Date.now();
+      if (sleeptime <= 0) {
+        await this.runBackgroundLoop();
+        // this never returns...
+      } else {
+        // schedule the next API check after the remaining wait time has elapsed
+        this.log(`Next API check in ${(sleeptime / 1_000 / 60).toFixed(0)} minutes`);
+        await this.sleepUntil(this.status.apiNextCheck);
+        await this.runBackgroundLoop();
+        // this also should never return...
+      }
+    } catch (err) {
+      // Keep serving the stored data, the health endpoints report the dead loop
+      this.loopState = "died";
+      this.error(`background loop died: ${err}`);
     }
   }
 
@@ -672,8 +1856,14 @@ export class OpenRouterAPIWatcher {
         console.log(
           `Change detected for model ${change.id} at ${change.timestamp.toLocaleString()}:`
         );
-        for (const [key, { old, new: newValue }] of Object.entries(change.changes!)) {
-          console.log(`  ${key}: ${old} -> ${newValue}`);
+        for (const [key, { old, new: newValue, op }] of Object.entries(change.changes!)) {
+          if (op === "added") {
+            console.log(`  ${key}: field added -> ${JSON.stringify(newValue)}`);
+          } else if (op === "removed") {
+            console.log(`  ${key}: field removed, was ${JSON.stringify(old)}`);
+          } else {
+            console.log(`  ${key}: ${old} -> ${newValue}`);
+          }
         }
       }
       console.log();
@@ -698,7 +1888,41 @@ if (process.argv[1] === fileURLToPath(import.meta.url)) {
   }
 
   // Usage:
-  if (process.argv.includes("--version")) {
+  // --once is a shortcut for the check command
+  const args = process.argv.includes("--once")
+    ? ["check", ...process.argv.slice(2).filter((arg) => arg !== "--once")]
+    : process.argv.slice(2);
+  if (isCommand(args[0])) {
+    const command = args[0];
+    let db: Database | undefined;
+    runCLI(args, () => {
+      // Only a check or an import may create a new database
+      if (!["check", "import"].includes(command) && !fs.existsSync(defaultConfig.dbFilePath)) {
+        throw `database ${defaultConfig.dbFilePath} not found`;
+      }
+      db = new database(defaultConfig.dbFilePath);
+      return new OpenRouterAPIWatcher({ db, quiet: true });
+    }).then((exitCode) => {
+      db?.close();
+      process.exit(exitCode);
+    });
+  } else if (MIGRATION_OPTIONS.some((option) => process.argv.includes(option))) {
+    if (!fs.existsSync(defaultConfig.dbFilePath)) {
+      console.error(`Error: database ${defaultConfig.dbFilePath} not found`);
+      process.exit(1);
+    }
+    const db = new database(defaultConfig.dbFilePath);
+    const exitCode = runMigrationCLI(args, db, (label) =>
+      backupDatabaseSync(
+        db,
+        defaultConfig.backupDir,
+        path.basename(defaultConfig.dbFilePath),
+        label
+      )
+    );
+    db.close();
+    process.exit(exitCode);
+  } else if (process.argv.includes("--version")) {
     console.log(`orw Version ${VERSION}`);
     process.exit(0);
   } else if (process.argv.includes("--query")) {
@@ -712,12 +1936,6 @@ if (process.argv[1] === fileURLToPath(import.meta.url)) {
     watcher.runQueryMode(n);
     db.close();
     process.exit(0);
-  } else if (process.argv.includes("--once")) {
-    const db = new database(defaultConfig.dbFilePath);
-    const watcher = new OpenRouterAPIWatcher({ db });
-    watcher.runOnce();
-    db.close();
-    process.exit(0);
   } else {
     const db = new database(defaultConfig.dbFilePath);
     const watcher = new OpenRouterAPIWatcher({ db });
@@ -0,0 +1,249 @@
+// webhooks.test.ts
+import http from "node:http";
+import { type AddressInfo } from "node:net";
+import database, { type Database } from "better-sqlite3";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
+import { runMigrations } from "./db-migration.js";
+import {
+  WebhookDispatcher,
+  filterChanges,
+  matchesGlob,
+  signPayload,
+  type WebhookConfig,
+} from "./webhooks.js";
+import { DEFAULT_RETRY_POLICY } from "./retry.js";
+import type { ModelDiff } from "../shared/global";
+
+const changes: ModelDiff[] = [
+  {
+    id: "anthropic/claude-3-haiku",
+    type: "changed",
+    changes: {
+      "pricing.prompt": { old: "0.01", new: "0.02", op: "edited" },
+      context_length: { old: 1024, new: 2048, op: "edited" },
+    },
+    timestamp: "2024-05-01T00:00:00.000Z",
+  },
+  {
+    id: "openai/gpt-4o",
+    type: "added",
+    timestamp: "2024-05-01T00:00:00.000Z",
+  },
+];
+
+describe("matchesGlob", () => {
+  test("should match wildcards", () => {
+    expect(matchesGlob("anthropic/claude-3-haiku", "anthropic/*")).toBe(true);
+    expect(matchesGlob("pricing.prompt", "pricing.*")).toBe(true);
+    expect(matchesGlob("pricing.prompt", "pricing.?rompt")).toBe(true);
+    expect(matchesGlob("openai/gpt-4o", "anthropic/*")).toBe(false);
+  });
+
+  test("should match other characters literally", () => {
+    expect(matchesGlob("pricing.prompt", "pricing.prompt")).toBe(true);
+    expect(matchesGlob("pricingXprompt", "pricing.prompt")).toBe(false);
+    expect(matchesGlob("a+b", "a+b")).toBe(true);
+  });
+});
+
+describe("filterChanges", () => {
+  test("should pass all changes without filters", () => {
+    expect(filterChanges(changes, { url: "http://localhost" })).toEqual(changes);
+  });
+
+  test("should filter by change type and model id", () => {
+    expect(filterChanges(changes, { url: "", types: ["added"] })).toEqual([changes[1]]);
+    expect(filterChanges(changes, { url: "", ids: ["anthropic/*"] })).toEqual([changes[0]]);
+  });
+
+  test("should reduce changed fields to matching ones", () => {
+    const filtered = filterChanges(changes, { url: "", fields: ["pricing.*"] });
+    expect(filtered).toHaveLength(2);
+    expect(Object.keys(filtered[0].changes!)).toEqual(["pricing.prompt"]);
+    expect(filterChanges(changes, { url: "", types: ["changed"], fields: ["name"] })).toEqual([]);
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  let db: Database;
+  let server: http.Server;
+  let url: string;
+  let responseStatus: number;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let dispatcher: WebhookDispatcher;
+  const messages: string[] = [];
+
+  const createDispatcher = (webhooks: WebhookConfig[], maxAttempts = 3) =>
+    new WebhookDispatcher({
+      db,
+      webhooks,
+      log: (message) => messages.push(message),
+      error: (message) => messages.push(message),
+      maxAttempts,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, baseDelay: 60_000 },
+    });
+
+  // Make all pending payloads due immediately
+  const expireRetries = () =>
+    db
+      .prepare("UPDATE webhook_outbox SET next_attempt_at = ? WHERE status = 'pending'")
+      .run(new Date(0).toISOString());
+
+  beforeEach(async () => {
+    // Silence migration output
+    console.log = vi.fn();
+    db = new database(":memory:");
+    runMigrations(db);
+    received = [];
+    responseStatus = 204;
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(responseStatus);
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    dispatcher?.stop();
+    db.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should deliver signed payloads", async () => {
+    dispatcher = createDispatcher([{ url, secret: "s3cret" }]);
+    expect(dispatcher.enqueue(changes, 7)).toBe(1);
+    await dispatcher.deliverPending();
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers["content-type"]).toBe("application/json");
+    expect(headers["x-orw-signature"]).toBe(signPayload(body, "s3cret"));
+    const payload = JSON.parse(body);
+    expect(payload.event).toBe("changes");
+    expect(payload.run).toBe(7);
+    expect(payload.changes.map((change: ModelDiff) => change.id)).toEqual([
+      "anthropic/claude-3-haiku",
+      "openai/gpt-4o",
+    ]);
+
+    const deliveries = dispatcher.loadDeliveries();
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].statusCode).toBe(204);
+    expect(deliveries[0].error).toBeNull();
+  });
+
+  test("should not send unsigned payloads with a signature header", async () => {
+    dispatcher = createDispatcher([{ url }]);
+    dispatcher.enqueue(changes);
+    await dispatcher.deliverPending();
+    expect(received[0].headers["x-orw-signature"]).toBeUndefined();
+  });
+
+  test("should sign payloads with the secret of their webhook if webhooks share a url", async () => {
+    dispatcher = createDispatcher([
+      { url, secret: "first", types: ["added"] },
+      { name: "prices", url, secret: "second", fields: ["pricing.*"] },
+    ]);
+    expect(dispatcher.enqueue(changes)).toBe(2);
+    await dispatcher.deliverPending();
+
+    expect(
+      received.map(({ headers, body }) => headers["x-orw-signature"] === signPayload(body, "first"))
+    ).toEqual([true, false]);
+    expect(received[1].headers["x-orw-signature"]).toBe(signPayload(received[1].body, "second"));
+    expect(db.prepare("SELECT webhook FROM webhook_outbox ORDER BY id").pluck().all()).toEqual([
+      "#1",
+      "prices",
+    ]);
+  });
+
+  test("should drop payloads of webhooks no longer configured", async () => {
+    createDispatcher([{ url, secret: "old" }]).enqueue(changes);
+    // Payloads queued before webhooks got names are delivered by their url
+    db.prepare(
+      "INSERT INTO webhook_outbox (url, payload, created_at, next_attempt_at, status) VALUES (?, '{}', ?, ?, 'pending')"
+    ).run(url, new Date().toISOString(), new Date().toISOString());
+
+    dispatcher = createDispatcher([{ name: "renamed", url, secret: "new" }]);
+    await dispatcher.deliverPending();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers["x-orw-signature"]).toBe(signPayload("{}", "new"));
+    expect(messages).toContain("webhook #1 no longer configured, dropping payload #1");
+  });
+
+  test("should skip webhooks without matching changes", async () => {
+    dispatcher = createDispatcher([{ url, ids: ["mistralai/*"] }]);
+    expect(dispatcher.enqueue(changes)).toBe(0);
+    await dispatcher.deliverPending();
+    expect(received).toHaveLength(0);
+  });
+
+  test("should retry failed deliveries", async () => {
+    dispatcher = createDispatcher([{ url }]);
+    dispatcher.enqueue(changes);
+    responseStatus = 500;
+    await dispatcher.deliverPending();
+    expect(received).toHaveLength(1);
+
+    // Not due yet, nothing happens
+    await dispatcher.deliverPending();
+    expect(received).toHaveLength(1);
+
+    responseStatus = 200;
+    expireRetries();
+    await dispatcher.deliverPending();
+    expect(received).toHaveLength(2);
+    expect(received[0].body).toBe(received[1].body);
+
+    const deliveries = dispatcher.loadDeliveries();
+    expect(deliveries.map((delivery) => delivery.statusCode)).toEqual([200, 500]);
+    expect(deliveries[1].error).toBe("HTTP status 500");
+  });
+
+  test("should give up after the maximum number of attempts", async () => {
+    dispatcher = createDispatcher([{ url }], 2);
+    dispatcher.enqueue(changes);
+    responseStatus = 503;
+    await dispatcher.deliverPending();
+    expireRetries();
+    await dispatcher.deliverPending();
+    expireRetries();
+    await dispatcher.deliverPending();
+
+    expect(received).toHaveLength(2);
+    const row: any = db.prepare("SELECT status, attempts FROM webhook_outbox").get();
+    expect(row).toEqual({ status: "failed", attempts: 2 });
+  });
+
+  test("should keep pending payloads across restarts", async () => {
+    const stopped = createDispatcher([{ url }]);
+    stopped.enqueue(changes);
+    stopped.stop();
+    expect(received).toHaveLength(0);
+
+    dispatcher = createDispatcher([{ url }]);
+    await dispatcher.deliverPending();
+    expect(received).toHaveLength(1);
+  });
+
+  test("should log unreachable webhooks as failed attempts", async () => {
+    await new Promise((resolve) => server.close(resolve));
+    dispatcher = createDispatcher([{ url }]);
+    dispatcher.enqueue(changes);
+    await dispatcher.deliverPending();
+
+    const deliveries = dispatcher.loadDeliveries();
+    expect(deliveries[0].statusCode).toBeNull();
+    expect(deliveries[0].error).toBeTruthy();
+    // Restart the stand-in for afterEach
+    server = http.createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+});
@@ -0,0 +1,381 @@
+// webhooks.ts
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { type Database } from "better-sqlite3";
+import type { ModelChangeType, ModelDiff } from "../shared/global";
+import { FETCH_TIMEOUT, VERSION } from "../shared/constants.js";
+import { backoffDelay, type RetryPolicy } from "./retry.js";
+
+/**
+ * Represents the configuration of a single webhook.
+ */
+export interface WebhookConfig {
+  /** Unique name of the webhook, its position in the configuration (e.g. `#1`) if not set. */
+  name?: string;
+  /** The URL to POST the payload to. */
+  url: string;
+  /** Secret for the HMAC-SHA256 signature in the X-ORW-Signature header, unsigned if not set. */
+  secret?: string;
+  /** Only send changes of these types, all types if not set. */
+  types?: ModelChangeType[];
+  /** Only send changes for model ids matching one of these globs (e.g. `anthropic/*`). */
+  ids?: string[];
+  /** Only send changed fields matching one of these globs (e.g. `pricing.*`), applies to type `changed`. */
+  fields?: string[];
+}
+
+/**
+ * Represents the JSON payload POSTed to webhooks.
+ */
+export interface WebhookPayload {
+  event: "changes";
+  /** Id of the check run that detected the changes. */
+  run?: number;
+  timestamp: string;
+  changes: ModelDiff[];
+}
+
+/**
+ * Represents one delivery attempt in the webhook delivery log.
+ */
+export interface WebhookDelivery {
+  outboxId: number;
+  url: string;
+  timestamp: string;
+  /** HTTP status code of the response, null if the request failed. */
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Options for the webhook dispatcher.
+ */
+export interface WebhookDispatcherOptions {
+  /** The SQLite database holding the outbox and delivery log. */
+  db: Database;
+  /** The configured webhooks. */
+  webhooks: WebhookConfig[];
+  /** Function receiving informational messages. */
+  log: (message: string) => void;
+  /** Function receiving error messages. */
+  error: (message: string) => void;
+  /** Maximum number of delivery attempts per payload. */
+  maxAttempts?: number;
+  /** Retry policy for failed deliveries. */
+  retryPolicy?: RetryPolicy;
+}
+
+/**
+ * Default retry policy for failed webhook deliveries, the circuit breaker settings are unused.
+ */
+const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  baseDelay: 60_000, // One minute
+  maxDelay: 3_600_000, // One hour
+  failureThreshold: 0,
+  cooldown: 0,
+};
+
+/**
+ * Gets the name identifying a webhook in the outbox.
+ * @param webhook - The webhook configuration.
+ * @param index - The position of the webhook in the configuration.
+ * @returns - The configured name, `#<position>` for unnamed webhooks.
+ */
+const webhookName = (webhook: WebhookConfig, index: number): string =>
+  webhook.name ?? `#${index + 1}`;
+
+/**
+ * Loads the webhook configuration from a JSON file containing an array of webhooks.
+ * @param filePath - The path to the JSON file.
+ * @returns - The configured webhooks.
+ */
+export function loadWebhookConfig(filePath: string): WebhookConfig[] {
+  const webhooks = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (!Array.isArray(webhooks) || webhooks.some((webhook) => typeof webhook?.url !== "string")) {
+    throw new Error(`Invalid webhook configuration in ${filePath}, expected an array of webhooks`);
+  }
+  const names = webhooks.map(webhookName);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`Invalid webhook configuration in ${filePath}, duplicate name "${duplicate}"`);
+  }
+  return webhooks;
+}
+
+/**
+ * Checks whether a value matches a glob pattern, `*` matches any sequence, `?` a single character.
+ * @param value - The value to check.
+ * @param pattern - The glob pattern.
+ * @returns - True if the value matches.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  const regExp = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${regExp}$`).test(value);
+}
+
+/**
+ * Reduces a list of changes to the ones a webhook is interested in.
+ * @param changes - The list of changes.
+ * @param webhook - The webhook configuration with its filters.
+ * @returns - The filtered list of changes, changed fields get filtered as well.
+ */
+export function filterChanges(changes: ModelDiff[], webhook: WebhookConfig): ModelDiff[] {
+  const filtered: ModelDiff[] = [];
+  for (const change of changes) {
+    if (webhook.types && !webhook.types.includes(change.type)) {
+      continue;
+    }
+    if (webhook.ids && !webhook.ids.some((pattern) => matchesGlob(change.id, pattern))) {
+      continue;
+    }
+    if (webhook.fields && change.changes) {
+      const fields = Object.entries(change.changes).filter(([key]) =>
+        webhook.fields!.some((pattern) => matchesGlob(key, pattern))
+      );
+      if (fields.length === 0) {
+        continue;
+      }
+      filtered.push({ ...change, changes: Object.fromEntries(fields) });
+      continue;
+    }
+    filtered.push(change);
+  }
+  return filtered;
+}
+
+/**
+ * Calculates the signature for a webhook payload.
+ * @param body - The JSON payload.
+ * @param secret - The shared secret.
+ * @returns - The signature in the form `sha256=<hex digest>`.
+ */
+export function signPayload(body: string, secret: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Delivers detected changes to webhooks via a persistent outbox in the SQLite database.
+ * Failed deliveries get retried with exponential backoff, every attempt gets logged.
+ */
+export class WebhookDispatcher {
+  private options: Required<WebhookDispatcherOptions>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delivering: Promise<void> | null = null;
+
+  /**
+   * Creates a new webhook dispatcher and schedules delivery of pending payloads.
+   * @param options - The dispatcher options.
+   */
+  constructor(options: WebhookDispatcherOptions) {
+    this.options = { maxAttempts: 10, retryPolicy: WEBHOOK_RETRY_POLICY, ...options };
+    this.scheduleNext();
+  }
+
+  /**
+   * Stores a payload for every webhook interested in the changes in the outbox.
+   * @param changes - The detected changes.
+   * @param run - The id of the check run that detected the changes.
+   * @returns - The number of payloads added to the outbox.
+   */
+  enqueue(changes: ModelDiff[], run?: number): number {
+    const insert = this.options.db.prepare(
+      "INSERT INTO webhook_outbox (webhook, url, payload, created_at, attempts, next_attempt_at, status) VALUES (?, ?, ?, ?, 0, ?, 'pending')"
+    );
+    const now = new Date().toISOString();
+    let count = 0;
+    for (const [index, webhook] of this.options.webhooks.entries()) {
+      const filtered = filterChanges(changes, webhook);
+      if (filtered.length === 0) {
+        continue;
+      }
+      const payload: WebhookPayload = { event: "changes", run, timestamp: now, changes: filtered };
+      insert.run([webhookName(webhook, index), webhook.url, JSON.stringify(payload), now, now]);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Delivers all pending payloads that are due, then schedules the next retry.
+   * Concurrent calls wait for the running delivery instead of sending twice.
+   */
+  async deliverPending(): Promise<void> {
+    if (this.delivering) {
+      return this.delivering;
+    }
+    this.delivering = this.deliverDue().finally(() => {
+      this.delivering = null;
+      this.scheduleNext();
+    });
+    return this.delivering;
+  }
+
+  /**
+   * Loads the most recent entries from the delivery log.
+   * @param n - The maximum number of entries to load.
+   * @returns - The delivery log entries, newest first.
+   */
+  loadDeliveries(n: number = 100): WebhookDelivery[] {
+    return this.options.db
+      .prepare(
+        `
+        SELECT d.outbox_id, o.url, d.timestamp, d.status_code, d.error, d.duration_ms
+        FROM webhook_deliveries d
+        JOIN webhook_outbox o ON o.id = d.outbox_id
+        ORDER BY d.id DESC
+        LIMIT ?
+        `
+      )
+      .all(n)
+      .map((row: any) => ({
+        outboxId: row.outbox_id,
+        url: row.url,
+        timestamp: row.timestamp,
+        statusCode: row.status_code,
+        error: row.error,
+        durationMs: row.duration_ms,
+      }));
+  }
+
+  /**
+   * Stops the retry timer, pending payloads stay in the outbox.
+   */
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Attempts delivery of all due payloads from the outbox.
+   */
+  private async deliverDue() {
+    const due: any[] = this.options.db
+      .prepare(
+        "SELECT id, webhook, url, payload, attempts FROM webhook_outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY id"
+      )
+      .all(new Date().toISOString());
+    for (const row of due) {
+      await this.deliver(row);
+    }
+  }
+
+  /**
+   * Attempts delivery of a single payload and records the result.
+   * @param row - The outbox row to deliver.
+   */
+  private async deliver(row: {
+    id: number;
+    webhook: string | null;
+    url: string;
+    payload: string;
+    attempts: number;
+  }) {
+    // Payloads queued before webhooks got names only know their url
+    const webhook = this.options.webhooks.find(
+      (webhook, index) =>
+        (row.webhook === null || webhookName(webhook, index) === row.webhook) &&
+        webhook.url === row.url
+    );
+    if (!webhook) {
+      this.updateOutbox(row.id, row.attempts, "failed", null);
+      this.options.error(
+        `webhook ${row.webhook ?? row.url} no longer configured, dropping payload #${row.id}`
+      );
+      return;
+    }
+
+    const headers: { [key: string]: string } = {
+      "Content-Type": "application/json",
+      "User-Agent": `orw/${VERSION}`,
+      "X-ORW-Delivery": row.id.toString(),
+    };
+    if (webhook.secret) {
+      headers["X-ORW-Signature"] = signPayload(row.payload, webhook.secret);
+    }
+
+    const start = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(row.url, {
+        method: "POST",
+        headers,
+        body: row.payload,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `HTTP status ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : `${err}`;
+    }
+    this.options.db
+      .prepare(
+        "INSERT INTO webhook_deliveries (outbox_id, timestamp, status_code, error, duration_ms) VALUES (?, ?, ?, ?, ?)"
+      )
+      .run([row.id, new Date(start).toISOString(), statusCode, error, Date.now() - start]);
+
+    const attempts = row.attempts + 1;
+    if (!error) {
+      this.updateOutbox(row.id, attempts, "delivered", null);
+      this.options.log(`webhook payload #${row.id} delivered to ${row.url}`);
+    } else if (attempts >= this.options.maxAttempts) {
+      this.updateOutbox(row.id, attempts, "failed", null);
+      this.options.error(
+        `webhook payload #${row.id} to ${row.url} failed with ${error}, giving up after ${attempts} attempts`
+      );
+    } else {
+      const retryAt = new Date(Date.now() + backoffDelay(attempts - 1, this.options.retryPolicy));
+      this.updateOutbox(row.id, attempts, "pending", retryAt);
+      this.options.error(
+        `webhook payload #${row.id} to ${row.url} failed with ${error}, retry at ${retryAt.toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * Updates the delivery state of an outbox entry.
+   * @param id - The id of the outbox entry.
+   * @param attempts - The number of delivery attempts so far.
+   * @param status - The new status.
+   * @param nextAttempt - The time of the next attempt, if any.
+   */
+  private updateOutbox(id: number, attempts: number, status: string, nextAttempt: Date | null) {
+    this.options.db
+      .prepare(
+        "UPDATE webhook_outbox SET attempts = ?, status = ?, next_attempt_at = ? WHERE id = ?"
+      )
+      .run([attempts, status, nextAttempt?.toISOString() ?? null, id]);
+  }
+
+  /**
+   * Schedules delivery of the next pending payload in the outbox.
+   */
+  private scheduleNext() {
+    this.stop();
+    const row: any = this.options.db
+      .prepare("SELECT MIN(next_attempt_at) AS next FROM webhook_outbox WHERE status = 'pending'")
+      .get();
+    if (!row?.next) {
+      return;
+    }
+    // Cap the delay, setTimeout fires immediately for delays longer than ~24.8 days
+    const delay = Math.min(Math.max(Date.parse(row.next) - Date.now(), 0), 86_400_000);
+    this.timer = setTimeout(() => {
+      this.deliverPending().catch((err) => this.options.error(`webhook delivery failed: ${err}`));
+    }, delay);
+    // Pending retries should not keep the process alive (e.g. in one-shot mode)
+    this.timer.unref();
+  }
+}
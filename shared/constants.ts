@@ -6,13 +6,19 @@ export const VERSION = "0.4.0-dev1";
 /**
  * API version number, server and client must match to be considered valid
  */
-export const API_VERSION = 3;
+export const API_VERSION = 4;
 
 /**
  * API endpoints
  */
 export const API__LISTS = "/api/lists";
 export const API__STATUS = "/api/status";
+export const API__SNAPSHOT = "/api/snapshot";
+export const API__RUNS = "/api/runs";
+export const API__MODELS = "/api/models";
+export const API__CHANGES = "/api/changes";
+export const API__EXPORT = "/api/export";
+export const API__BACKUPS = "/api/backups";
 
 /**
  * OpenRouter API URL
@@ -31,12 +37,11 @@ export const FETCH_TIMEOUT = 4_000; // 4 secdonds
 export const INITIAL_INTERVAL = 30_000; // Thirty seconds in milliseconds
 
 /**
- * Refresh interval, the amount of time after which the web client considers its data stale.
- * The amount of time passed since the last API checks gets subtracted from this value.
+ * Refresh delay, the amount of time after the next scheduled API check after which the web client considers its data stale.
  * After this time has elapsed, the web client will connect to the API to check if fresh data is available.
  */
-export const REFRESH_INTERVAL = 3600_000 + 60_000; // One hour and one minute in milliseconds
+export const REFRESH_DELAY = 60_000; // One minute in milliseconds
 
 // Values for testing during development
 // const INITIAL_INTERVAL = 5_000; // Five seconds in milliseconds
-// const REFRESH_INTERVAL = 10_000; // Ten seconds in milliseconds
+// const REFRESH_DELAY = 10_000; // Ten seconds in milliseconds
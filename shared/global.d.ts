@@ -34,6 +34,25 @@ export interface Model extends ORModel {
  */
 export type ModelChangeType = "added" | "removed" | "changed";
 
+/**
+ * Represents the operation recorded for a single changed field.
+ * - `edited`: the value of an existing field changed
+ * - `added`: a new field appeared
+ * - `removed`: an existing field disappeared
+ * - `array`: an element of an array field changed
+ */
+export type FieldChangeOperation = "edited" | "added" | "removed" | "array";
+
+/**
+ * Represents a change of a single field in an OpenRouter model.
+ */
+export interface FieldChange {
+  old: any;
+  new: any;
+  /** Missing for changes recorded before operations were tracked, these are edits. */
+  op?: FieldChangeOperation;
+}
+
 /**
  * Represents a change in an OpenRouter model.
  */
@@ -41,10 +60,79 @@ export interface ModelDiff {
   id: string;
   type: ModelChangeType;
   model?: Model;
-  changes?: { [key: string]: { old: any; new: any } };
+  changes?: { [key: string]: FieldChange };
   timestamp: string;
+  /** Id of the check run that detected this change, missing for older changes. */
+  run?: number;
 }
 
+/**
+ * Represents one check of the OpenRouter API.
+ */
+export type CheckRun = {
+  id: number;
+  startedAt: string;
+  finishedAt: string | null;
+  status: string;
+  modelCount: number;
+  changeCount: number;
+};
+
+/**
+ * Represents a verified backup of the database.
+ */
+export type DatabaseBackup = {
+  /** File name of the backup in the backup directory. */
+  name: string;
+  /** Timestamp when the backup was created. */
+  timestamp: string;
+  /** Size of the backup in bytes. */
+  size: number;
+  /** Label of backups exempt from the retention policy, e.g. `pre-migration-v8`. */
+  label?: string;
+};
+
+/**
+ * Represents the result of a single health check.
+ */
+export type HealthCheck = {
+  ok: boolean;
+  /** Reason why the check failed, e.g. the database error. */
+  message?: string;
+};
+
+/**
+ * Represents the state of the background loop checking the OpenRouter API.
+ */
+export type LoopState = "stopped" | "starting" | "running" | "died";
+
+/**
+ * Represents the response of the health (`/healthz`) and readiness (`/readyz`) endpoints.
+ */
+export type HealthStatus = {
+  ok: boolean;
+  checks: {
+    database: HealthCheck;
+    backgroundLoop: HealthCheck & {
+      state: LoopState;
+      /** Timestamp of the next scheduled API check. */
+      nextCheck: string;
+    };
+    /** Only checked for readiness. */
+    lastSuccessfulCheck?: HealthCheck & {
+      /** Timestamp of the last successful API check, null if there was none. */
+      timestamp: string | null;
+      /** Timestamp after which the last successful API check is stale, null if there was none. */
+      staleAfter: string | null;
+    };
+  };
+};
+
+/**
+ * Represents the state of the circuit breaker for OpenRouter API fetches.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
 /**
  * Represents status information in an API response.
  */
@@ -53,6 +141,10 @@ export type APIStatus = {
   isDevelopment: boolean;
   apiLastCheck: string;
   apiLastCheckStatus: string;
+  apiNextCheck: string;
+  apiNextRetry: string | null;
+  consecutiveFailures: number;
+  circuitState: CircuitState;
   dbLastChange: string;
 };
 
@@ -65,6 +157,51 @@ export type Lists = {
   changes: ModelDiff[];
 };
 
+/**
+ * Represents the full model list as fetched from the API at a point in time.
+ */
+export type ModelListSnapshot = {
+  /** Timestamp when this model list was fetched and became current. */
+  timestamp: string;
+  /** Content hash of the model list. */
+  hash: string;
+  models: Model[];
+};
+
+/**
+ * Represents a single model with its lifecycle and full change history.
+ */
+export type ModelHistory = {
+  /** The current model or the last known version if it got removed. */
+  model: Model;
+  /** Whether the model is part of the current model list. */
+  removed: boolean;
+  /** All additions and removals of the model, oldest first. */
+  timeline: { type: "added" | "removed"; timestamp: string }[];
+  /** All changes recorded for the model, newest first. */
+  changes: ModelDiff[];
+};
+
+/**
+ * Represents the prices of a model from a point in time on, null while the model was not listed.
+ */
+export type PricePoint = {
+  timestamp: string;
+  prompt: number | null;
+  completion: number | null;
+  request: number | null;
+  image: number | null;
+};
+
+/**
+ * Represents the price history of a model as a step function, oldest point first.
+ */
+export type PriceHistory = {
+  id: string;
+  /** Each point is valid until the next one, the last one until now. */
+  points: PricePoint[];
+};
+
 /**
  * Represents a generic API response.
  */
@@ -72,4 +209,13 @@ export interface APIResponse {
   version: number;
   status?: APIStatus;
   lists?: Lists;
+  snapshot?: ModelListSnapshot;
+  runs?: CheckRun[];
+  run?: CheckRun & { changes: ModelDiff[] };
+  backups?: DatabaseBackup[];
+  model?: ModelHistory;
+  prices?: PriceHistory;
+  changes?: ModelDiff[];
+  /** Cursor for the next page of changes or check runs, null if there are no more. */
+  nextCursor?: string | null;
 }
@@ -5,6 +5,9 @@ import { NavBar } from "./NavBar";
 import { ModelDetail } from "./ModelDetail";
 import { ChangeList } from "./ChangeList";
 import { ModelList } from "./ModelList";
+import { RunDetail } from "./RunDetail";
+import { ModelCompare } from "./ModelCompare";
+import { CostEstimator } from "./CostEstimator";
 import { GlobalProvider } from "./GlobalState";
 import { ErrorContainer } from "./ErrorContainer";
 import { Brain } from "./Brain";
@@ -26,6 +29,9 @@ const App: FC = (): ReactNode => {
               <Route path="/removed" element={<ModelList removed />} />
               <Route path="/model" element={<ModelDetail />} />
               <Route path="/changes" element={<ChangeList />} />
+              <Route path="/run" element={<RunDetail />} />
+              <Route path="/compare" element={<ModelCompare />} />
+              <Route path="/costs" element={<CostEstimator />} />
               <Route path="/" element={<Navigate to="/changes" replace />} />
             </Routes>
           </ErrorContainer>
@@ -8,7 +8,7 @@ import {
   FETCH_TIMEOUT,
   VERSION,
   INITIAL_INTERVAL,
-  REFRESH_INTERVAL,
+  REFRESH_DELAY,
 } from "../shared/constants";
 import { durationAgo } from "./utils";
 
@@ -103,7 +103,7 @@ export const Brain: FC = (): ReactNode => {
           dbLastChange: durationAgo(localStatus.dbLastChange),
           apiLastCheck: localStatus.isDevelopment
             ? "[dev mode]"
-            : durationAgo(localStatus.apiLastCheck, true),
+            : durationAgo(localStatus.apiNextCheck, true),
         },
       }));
     };
@@ -144,9 +144,9 @@ export const Brain: FC = (): ReactNode => {
 
     const updateLoop = () => {
       updateDuration();
-      // If last API check is longer than an hour ago, check for new data, trigger a refresh if needed
+      // If the next scheduled API check has passed, check for new data, trigger a refresh if needed
       const now = Date.now();
-      if (now - new Date(localStatus.apiLastCheck).getTime() > REFRESH_INTERVAL) {
+      if (now - new Date(localStatus.apiNextCheck).getTime() > REFRESH_DELAY) {
         handleRefresh().catch((err) => {
           errorHandler(`Error trying to reload data from API: ${err}`);
         });
@@ -1,45 +1,129 @@
 import { useContext, useEffect, useCallback, useState, type FC, ReactNode } from "react";
-import { Link } from "react-router-dom";
+import type { ChangeEvent } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { FilterComponent } from "./FilterComponent";
 import { GlobalContext } from "./GlobalState";
-import { dateStringDuration } from "./utils";
+import { dateStringDuration, setSearchParam } from "./utils";
 import { ChangeSnippet } from "./ChangeSnippet";
 import type { ModelDiff } from "../shared/global";
+import { markChangesSeen, unseenChanges, watchlistQuery } from "./watchlist";
 
 /**
  * A component that displays a list of recorded changes.
  * @returns - A component that displays a list of recorded changes.
  */
 export const ChangeList: FC = (): ReactNode => {
-  const { globalLists, globalClient } = useContext(GlobalContext);
-  const [filteredChanges, setFilteredChanges] = useState<ModelDiff[]>([]);
-
-  const filterChanges = useCallback(
-    (filterText: string) =>
-      setFilteredChanges(
-        globalLists.state.changes.filter(
-          (item: ModelDiff) => item.id && item.id.toLowerCase().includes(filterText.toLowerCase())
-        )
-      ),
-    [globalLists.state.changes]
+  const { globalLists, globalClient, globalWatchlist } = useContext(GlobalContext);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filterText, setFilterText] = useState(searchParams.get("q") ?? "");
+  // Changes newer than the previous visit stay highlighted until they are marked as read
+  const [lastSeen, setLastSeen] = useState(globalWatchlist.state.lastSeen);
+  const onlyWatched = searchParams.get("watched") === "1";
+  const watchedIds = new Set(globalWatchlist.state.ids);
+
+  const filteredChanges = globalLists.state.changes.filter(
+    (item: ModelDiff) =>
+      item.id &&
+      item.id.toLowerCase().includes(filterText.toLowerCase()) &&
+      (!onlyWatched || watchedIds.has(item.id))
   );
 
+  const unseenCount = unseenChanges(globalLists.state.changes, globalWatchlist.state).length;
+
+  // Showing only watched models shows their new changes, this clears the badge in the navigation bar
+  useEffect(() => {
+    if (onlyWatched) {
+      globalWatchlist.setState((prevState) =>
+        markChangesSeen(prevState, globalLists.state.changes)
+      );
+    }
+  }, [globalLists.state.changes, onlyWatched]);
+
+  /**
+   * Marks the changes of watched models as read, also clears their highlighting.
+   */
+  const handleMarkAsRead = () => {
+    globalWatchlist.setState((prevState) => markChangesSeen(prevState, globalLists.state.changes));
+    setLastSeen(globalLists.state.changes[0]?.timestamp ?? lastSeen);
+  };
+
+  /**
+   * Stores the "only watched models" option in the URL.
+   * @param event - The change event of the checkbox.
+   */
+  const handleWatchedChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setSearchParams(
+      (prevParams) => {
+        if (event.target.checked) {
+          prevParams.set("watched", "1");
+        } else {
+          prevParams.delete("watched");
+        }
+        return prevParams;
+      },
+      { replace: true }
+    );
+  };
+
+  const filterChanges = useCallback((text: string) => setFilterText(text), []);
+
+  // Keep the filter text in the URL, so the view can be bookmarked
+  useEffect(() => {
+    if (filterText === (searchParams.get("q") ?? "")) {
+      return;
+    }
+    setSearchParams((prevParams) => setSearchParam(prevParams, "q", filterText), { replace: true });
+  }, [filterText]);
+
   useEffect(() => {
     globalClient.setState((prevState) => ({
       ...prevState,
-      navBarDynamicElement: <FilterComponent filter={filterChanges} />,
+      navBarDynamicElement: <FilterComponent filter={filterChanges} initialText={filterText} />,
     }));
   }, [filterChanges]);
 
   return (
     <div className="change-list">
+      <div className="watch-bar">
+        <label>
+          <input type="checkbox" checked={onlyWatched} onChange={handleWatchedChange} /> Only
+          watched models ({globalWatchlist.state.ids.length})
+        </label>
+        {unseenCount > 0 && (
+          <button type="button" onClick={handleMarkAsRead}>
+            Mark {unseenCount} new changes of watched models as read
+          </button>
+        )}
+        {onlyWatched && globalWatchlist.state.ids.length > 0 && (
+          <span>
+            Personal feed: <a href={`/rss?${watchlistQuery(globalWatchlist.state.ids)}`}>RSS</a>{" "}
+            <a href={`/atom?${watchlistQuery(globalWatchlist.state.ids)}`}>Atom</a>{" "}
+            <a href={`/feed.json?${watchlistQuery(globalWatchlist.state.ids)}`}>JSON</a>
+            {" · "}Webhook filter:{" "}
+            <code>{`"ids": ${JSON.stringify(globalWatchlist.state.ids)}`}</code>
+          </span>
+        )}
+      </div>
       {filteredChanges.map((change, index) => (
-        <div key={index} className="change-entry">
+        <div
+          key={index}
+          className={
+            watchedIds.has(change.id) && change.timestamp > lastSeen
+              ? "change-entry unseen"
+              : "change-entry"
+          }
+        >
           <p>
             <Link to={`/model?id=${change.id}`}>
               <b>{change.id}</b>
             </Link>{" "}
             {change.type} at {dateStringDuration(change.timestamp)}
+            {change.run && (
+              <>
+                {" "}
+                in <Link to={`/run?id=${change.run}`}>check run #{change.run}</Link>
+              </>
+            )}
           </p>
           <ChangeSnippet change={change} hideTypes={["removed"]} />
         </div>
@@ -46,6 +46,21 @@ const showPrice = (
   return [oldPrice, newPrice, percentageString];
 };
 
+/**
+ * Formats a field value for display, objects and arrays get shown as JSON.
+ * @param value - The value to format.
+ * @returns - The formatted value.
+ */
+const showValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "[null]";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return value.toLocaleString();
+};
+
 /**
  * Renders a snippet of a change.
  * @param props - The props for the component.
@@ -59,7 +74,27 @@ export const ChangeSnippet: ChangeSnippetType = ({
     return;
   }
   if (typeof change.changes === "object") {
-    return Object.entries(change.changes).map(([key, { old, new: newValue }]) => {
+    return Object.entries(change.changes).map(([key, { old, new: newValue, op }]) => {
+      if (op === "added") {
+        return (
+          <p key={key}>
+            {key}: field added → {showValue(newValue)}
+          </p>
+        );
+      } else if (op === "removed") {
+        return (
+          <p key={key}>
+            {key}: field removed (was {showValue(old)})
+          </p>
+        );
+      } else if (op === "array") {
+        return (
+          <p key={key}>
+            {key}: array element changed {showValue(old)} → {showValue(newValue)}
+          </p>
+        );
+      }
+
       let percentage = "";
       if (key === "pricing.prompt" || key === "pricing.completion") {
         [old, newValue, percentage] = showPrice(old, newValue, showPricePerMillion, "tokens");
@@ -0,0 +1,170 @@
+import { useContext, useEffect, useMemo } from "react";
+import type { FC, ReactNode } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import DataTable, { type TableColumn } from "react-data-table-component";
+import type { Model } from "../shared/global";
+import { GlobalContext } from "./GlobalState";
+import { estimateCost, searchParamChangeHandler, showPrice, type Workload } from "./utils";
+
+/**
+ * Represents a model with its estimated cost for the entered workload.
+ */
+interface ModelCost {
+  id: string;
+  model: Model;
+  cost: number;
+}
+
+/**
+ * Inputs for the workload, stored under the same names in the URL.
+ */
+const workloadInputs: { param: keyof Workload; label: string }[] = [
+  { param: "prompt", label: "Prompt tokens" },
+  { param: "completion", label: "Completion tokens" },
+  { param: "requests", label: "Requests" },
+  { param: "images", label: "Images" },
+];
+
+/**
+ * Defines the columns for the DataTable component.
+ */
+const columns: TableColumn<ModelCost>[] = [
+  {
+    name: "Rank",
+    cell: (_row, index) => index + 1,
+    width: "5em",
+    right: true,
+  },
+  {
+    name: "ID",
+    selector: (row) => row.model.id,
+    grow: 3,
+  },
+  {
+    name: "Context",
+    selector: (row) => row.model.context_length,
+    format: (row) => row.model.context_length.toLocaleString(),
+    right: true,
+  },
+  {
+    name: "Modality",
+    selector: (row) => row.model.architecture.modality,
+    hide: 599,
+  },
+  {
+    name: "Cost/Month",
+    selector: (row) => row.cost,
+    format: (row) => showPrice(row.cost.toString(), 1),
+    right: true,
+  },
+];
+
+/**
+ * Parses a non-negative number from a URL parameter.
+ * @param value - The parameter value.
+ * @returns - The parsed number, 0 if missing or invalid.
+ */
+const parseAmount = (value: string | null): number => {
+  const amount = parseFloat(value ?? "");
+  return isNaN(amount) || amount < 0 ? 0 : amount;
+};
+
+/**
+ * CostEstimator component ranks all active models by their cost for a monthly workload.
+ * The workload and the filters are kept in the URL, so an estimate can be shared.
+ * @returns The CostEstimator component.
+ */
+export const CostEstimator: FC = (): ReactNode => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { globalLists, globalClient } = useContext(GlobalContext);
+
+  useEffect(() => {
+    globalClient.setState((prevState) => ({
+      ...prevState,
+      navBarDynamicElement: (
+        <>
+          <span className="dynamic-element"></span>
+        </>
+      ),
+    }));
+  }, []);
+
+  const workload: Workload = {
+    prompt: parseAmount(searchParams.get("prompt")),
+    completion: parseAmount(searchParams.get("completion")),
+    requests: parseAmount(searchParams.get("requests")),
+    images: parseAmount(searchParams.get("images")),
+  };
+  const minContext = parseAmount(searchParams.get("minContext"));
+  const modality = searchParams.get("modality") ?? "";
+
+  const modalities = useMemo(
+    () => [...new Set(globalLists.state.models.map((model) => model.architecture.modality))].sort(),
+    [globalLists.state.models]
+  );
+
+  const costs: ModelCost[] = globalLists.state.models
+    .filter((model) => model.context_length >= minContext)
+    .filter((model) => modality === "" || model.architecture.modality === modality)
+    .flatMap((model) => {
+      const cost = estimateCost(model, workload);
+      return cost === null ? [] : [{ id: model.id, model, cost }];
+    })
+    .sort((a, b) => a.cost - b.cost);
+
+  // The workload and filters are read back from the URL on every render
+  const handleChange = searchParamChangeHandler(setSearchParams);
+
+  return (
+    <>
+      <h2 style={{ textAlign: "center" }}>Estimated monthly cost per model</h2>
+      <form className="cost-form" onSubmit={(event) => event.preventDefault()}>
+        {workloadInputs.map(({ param, label }) => (
+          <label key={param}>
+            {label}
+            <input
+              type="number"
+              min={0}
+              value={searchParams.get(param) ?? ""}
+              placeholder="0"
+              onChange={handleChange(param)}
+            />
+          </label>
+        ))}
+        <label>
+          Minimum context
+          <input
+            type="number"
+            min={0}
+            value={searchParams.get("minContext") ?? ""}
+            placeholder="0"
+            onChange={handleChange("minContext")}
+          />
+        </label>
+        <label>
+          Modality
+          <select value={modality} onChange={handleChange("modality")}>
+            <option value="">any</option>
+            {modalities.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </form>
+      <DataTable
+        columns={columns}
+        data={costs}
+        onRowClicked={(row) => {
+          return navigate(`/model?id=${row.model.id}`);
+        }}
+        dense
+        highlightOnHover
+        theme="dark"
+        noDataComponent=""
+      />
+    </>
+  );
+};
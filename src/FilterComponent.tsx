@@ -54,6 +54,8 @@ const ClearButton = styled.button`
 export interface FilterComponentProps {
   /** Function to filter data based on the filter text. */
   filter: (filterText: string) => void;
+  /** Initial filter text, e.g. taken from the URL. */
+  initialText?: string;
 }
 
 /**
@@ -63,8 +65,9 @@ export interface FilterComponentProps {
  */
 export const FilterComponent: FC<FilterComponentProps> = ({
   filter,
+  initialText = "",
 }: FilterComponentProps): ReactNode => {
-  const [filterText, setFilterText] = useState("");
+  const [filterText, setFilterText] = useState(initialText);
 
   const inputRef = useRef<HTMLInputElement>(null);
 
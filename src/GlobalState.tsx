@@ -1,7 +1,8 @@
 // GlobalState.tsx
-import { createContext, useState } from "react";
+import { createContext, useEffect, useState } from "react";
 import type { FC, ReactNode, Dispatch, SetStateAction } from "react";
-import type { GlobalClient, GlobalError } from "./client";
+import type { GlobalClient, GlobalError, Watchlist } from "./client";
+import { loadWatchlist, saveWatchlist, WATCHLIST_KEY } from "./watchlist";
 import type { APIStatus, Lists } from "../shared/global";
 
 /**
@@ -23,6 +24,10 @@ const defaults: ContextDefaults = {
     isDevelopment: false,
     apiLastCheck: "",
     apiLastCheckStatus: "",
+    apiNextCheck: "",
+    apiNextRetry: null,
+    consecutiveFailures: 0,
+    circuitState: "closed",
     dbLastChange: "",
   },
   Lists: {
@@ -62,6 +67,7 @@ export interface GlobalContextType {
   globalStatus: ContextType<APIStatus>;
   globalLists: ContextType<Lists>;
   globalClient: ContextType<GlobalClient>;
+  globalWatchlist: ContextType<Watchlist>;
   globalError: {
     state: GlobalError;
     setState: (message?: string, preventClearing?: boolean) => void;
@@ -75,6 +81,7 @@ const contextDefaults: GlobalContextType = {
   globalStatus: { state: defaults.Status, setState: () => {} },
   globalLists: { state: defaults.Lists, setState: () => {} },
   globalClient: { state: defaults.GlobalClient, setState: () => {} },
+  globalWatchlist: { state: { ids: [], lastSeen: "" }, setState: () => {} },
   globalError: { state: defaults.GlobalError, setState: () => {} },
 };
 
@@ -97,6 +104,22 @@ export const GlobalProvider: FC<{ children: ReactNode }> = ({
   const [globalLists, setGlobalLists] = useState<Lists>(defaults.Lists);
   const [globalClient, setGlobalClient] = useState<GlobalClient>(defaults.GlobalClient);
   const [globalError, setGlobalError] = useState<GlobalError>(defaults.GlobalError);
+  const [globalWatchlist, setGlobalWatchlist] = useState<Watchlist>(loadWatchlist);
+
+  useEffect(() => {
+    saveWatchlist(globalWatchlist);
+  }, [globalWatchlist]);
+
+  // Pick up changes to the watchlist made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === WATCHLIST_KEY) {
+        setGlobalWatchlist(loadWatchlist());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
 
   // Convenience function for setting a global error state.
   const setError = (message?: string, preventClearing: boolean = false) => {
@@ -112,6 +135,7 @@ export const GlobalProvider: FC<{ children: ReactNode }> = ({
     globalStatus: { state: globalStatus, setState: setGlobalStatus },
     globalLists: { state: globalLists, setState: setGlobalLists },
     globalClient: { state: globalClient, setState: setGlobalClient },
+    globalWatchlist: { state: globalWatchlist, setState: setGlobalWatchlist },
     globalError: { state: globalError, setState: setError },
   };
 
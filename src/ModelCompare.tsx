@@ -0,0 +1,209 @@
+import { useContext, useEffect, useState } from "react";
+import type { FC, ReactNode } from "react";
+import { Link } from "react-router-dom";
+import type { Model } from "../shared/global";
+import { GlobalContext } from "./GlobalState";
+import { ModelName } from "./ModelName";
+import { showPricePerMillion, showPricePerThousand } from "./utils";
+
+/**
+ * Represents a model shown in the comparison, removed models are taken from the removed list.
+ */
+interface ComparedModel {
+  model: Model;
+  removed: boolean;
+}
+
+/**
+ * Represents a row of the comparison table.
+ */
+interface CompareRow {
+  /** The label of the row. */
+  label: string;
+  /** Extracts the value to display from a model. */
+  render: (model: Model) => ReactNode;
+  /** Extracts the numeric value used to find the best model, null if not comparable. */
+  value?: (model: Model) => number | null;
+  /** Whether the lowest (cheapest) or highest (largest) value is the best. */
+  best?: "min" | "max";
+}
+
+/**
+ * Converts a price string to a number, negative prices (e.g. for openrouter/auto) are not comparable.
+ * @param price - The price as a string.
+ * @returns - The price as a number or null if it is not comparable.
+ */
+const priceValue = (price: string): number | null => {
+  const value = parseFloat(price);
+  return isNaN(value) || value < 0 ? null : value;
+};
+
+/**
+ * Defines the rows of the comparison table.
+ */
+const rows: CompareRow[] = [
+  {
+    label: "Input",
+    render: (model) => showPricePerMillion(model.pricing.prompt, "tokens"),
+    value: (model) => priceValue(model.pricing.prompt),
+    best: "min",
+  },
+  {
+    label: "Output",
+    render: (model) => showPricePerMillion(model.pricing.completion, "tokens"),
+    value: (model) => priceValue(model.pricing.completion),
+    best: "min",
+  },
+  {
+    label: "Request",
+    render: (model) => showPricePerThousand(model.pricing.request, "requests"),
+    value: (model) => priceValue(model.pricing.request),
+    best: "min",
+  },
+  {
+    label: "Image",
+    render: (model) => showPricePerThousand(model.pricing.image, "images"),
+    value: (model) => priceValue(model.pricing.image),
+    best: "min",
+  },
+  {
+    label: "Context Length",
+    render: (model) => model.context_length.toLocaleString(),
+    value: (model) => model.context_length,
+    best: "max",
+  },
+  {
+    label: "Max Completion Tokens",
+    render: (model) => model.top_provider.max_completion_tokens?.toLocaleString() ?? "",
+    value: (model) => model.top_provider.max_completion_tokens,
+    best: "max",
+  },
+  {
+    label: "Modality",
+    render: (model) => model.architecture.modality,
+  },
+  {
+    label: "Tokenizer",
+    render: (model) => model.architecture.tokenizer,
+  },
+  {
+    label: "Moderated",
+    render: (model) => (model.top_provider.is_moderated ? "yes" : "no"),
+  },
+  {
+    label: "Description",
+    render: (model) => <pre>{model.description}</pre>,
+  },
+];
+
+/**
+ * Finds the models with the best value for a row.
+ * Nothing gets highlighted if all comparable values are equal.
+ * @param row - The row of the comparison table.
+ * @param models - The compared models.
+ * @returns - The indexes of the models with the best value.
+ */
+const bestIndexes = (row: CompareRow, models: ComparedModel[]): Set<number> => {
+  if (!row.value || !row.best) {
+    return new Set();
+  }
+  const values = models.map(({ model }) => row.value!(model));
+  const comparable = values.filter((value): value is number => value !== null);
+  if (new Set(comparable).size < 2) {
+    return new Set();
+  }
+  const best = row.best === "min" ? Math.min(...comparable) : Math.max(...comparable);
+  return new Set(values.flatMap((value, index) => (value === best ? [index] : [])));
+};
+
+/**
+ * ModelCompare component displays the selected models side by side.
+ * The model ids are read from the `ids` URL parameter, separated by commas.
+ * The cheapest prices and largest limits are highlighted.
+ * @returns The ModelCompare component.
+ */
+export const ModelCompare: FC = (): ReactNode => {
+  const [models, setModels] = useState<ComparedModel[]>([]);
+  const { globalStatus, globalLists, globalClient, globalError } = useContext(GlobalContext);
+
+  useEffect(() => {
+    globalClient.setState((prevState) => ({
+      ...prevState,
+      navBarDynamicElement: (
+        <>
+          <span className="dynamic-element"></span>
+        </>
+      ),
+    }));
+  }, []);
+
+  useEffect(() => {
+    if (!globalStatus.state.isValid) {
+      // No point in doing anything, if the data is not valid.
+      return;
+    }
+    const urlParams = new URLSearchParams(window.location.search);
+    const ids = [...new Set((urlParams.get("ids") ?? "").split(","))].filter((id) => id !== "");
+    if (ids.length === 0) {
+      globalError.setState("No model IDs provided.");
+      return;
+    }
+    const foundModels: ComparedModel[] = [];
+    for (const id of ids) {
+      const model = globalLists.state.models.find((obj: Model) => obj.id === id);
+      if (model) {
+        foundModels.push({ model, removed: false });
+        continue;
+      }
+      // The removed list is sorted newest first, use the last known version
+      const removedModel = globalLists.state.removed.find((obj: Model) => obj.id === id);
+      if (removedModel) {
+        foundModels.push({ model: removedModel, removed: true });
+        continue;
+      }
+      globalError.setState(`Unknown model ID: ${id}`);
+      return;
+    }
+    setModels(foundModels);
+  }, [globalLists.state.models, globalLists.state.removed, globalStatus.state.isValid]);
+
+  if (models.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <div className="model-compare">
+      <table className="compare-table">
+        <thead>
+          <tr>
+            <th></th>
+            {models.map(({ model, removed }) => (
+              <th key={model.id}>
+                <Link to={`/model?id=${model.id}`}>
+                  <ModelName name={model.name} removed={removed} />
+                </Link>
+                <br />
+                <span className="model-id">{model.id}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const best = bestIndexes(row, models);
+            return (
+              <tr key={row.label}>
+                <th>{row.label}</th>
+                {models.map(({ model }, index) => (
+                  <td key={model.id} className={best.has(index) ? "compare-best" : undefined}>
+                    {row.render(model)}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
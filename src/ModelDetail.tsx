@@ -1,16 +1,19 @@
 import { useContext, useEffect, useState } from "react";
 import type { FC, ReactNode } from "react";
-import type { Model, ModelDiff } from "../shared/global";
+import type { APIResponse, Model, ModelDiff, PriceHistory } from "../shared/global";
+import { API__MODELS, API_VERSION, FETCH_TIMEOUT, VERSION } from "../shared/constants";
 import { GlobalContext } from "./GlobalState";
 import { Changes } from "./Changes";
 import { Price } from "./Price";
 import { ModelName } from "./ModelName";
 import { DelContainer } from "./DelContainer";
+import { PriceChart } from "./PriceChart";
+import { WatchButton } from "./WatchButton";
 
 /**
  * ModelDetail component displays the details of a specific model.
  * It fetches the model data from the global context and displays
- * its price, name, context length, description, and changes.
+ * its price, price history, name, context length, description, and changes.
  * If the model is removed, it displays the details with a strikethrough.
  * @returns The ModelDetail component.
  */
@@ -18,6 +21,7 @@ export const ModelDetail: FC = (): ReactNode => {
   const [model, setModel] = useState<Model | null>(null);
   const [changes, setChanges] = useState<ModelDiff[]>([]);
   const [removed, setRemoved] = useState<boolean>(false);
+  const [prices, setPrices] = useState<PriceHistory | null>(null);
   const { globalStatus, globalLists, globalClient, globalError } = useContext(GlobalContext);
 
   useEffect(() => {
@@ -62,6 +66,36 @@ export const ModelDetail: FC = (): ReactNode => {
     setChanges(foundChanges);
   }, [globalLists.state.models, globalLists.state.removed, globalStatus.state.isValid]);
 
+  useEffect(() => {
+    // Don't show the price history of a previously shown model while loading
+    setPrices(null);
+    if (!model) {
+      return;
+    }
+    // Responses for a model that is no longer shown get ignored
+    let ignore = false;
+    // The price history is not part of the lists, load it separately
+    const loadPrices = async () => {
+      const response = await fetch(`${API__MODELS}/${encodeURIComponent(model.id)}/prices`, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+        headers: {
+          "X-ORW-Version": VERSION,
+        },
+      });
+      if (!response.ok) {
+        throw `Unsuccessful response status ${response.status} received`;
+      }
+      const apiResponse: APIResponse = await response.json();
+      if (!ignore && apiResponse.version === API_VERSION && apiResponse.prices) {
+        setPrices(apiResponse.prices);
+      }
+    };
+    loadPrices().catch((err) => console.error(`Error loading price history: ${err}`));
+    return () => {
+      ignore = true;
+    };
+  }, [model?.id, globalStatus.state.dbLastChange]);
+
   if (!model) {
     return <></>;
   }
@@ -81,7 +115,7 @@ export const ModelDetail: FC = (): ReactNode => {
         </div>
         <div>
           <h2 className="model-details-model-name">
-            <ModelName name={model.name} removed={removed} />
+            <ModelName name={model.name} removed={removed} /> <WatchButton id={model.id} />
           </h2>
           <DelContainer removed={removed}>
             <h4>{model.id}</h4>
@@ -96,6 +130,7 @@ export const ModelDetail: FC = (): ReactNode => {
           </DelContainer>
         </div>
       </div>
+      {prices && <PriceChart history={prices} />}
       <h3>Description</h3>
       <pre>{model.description}</pre>
       <h3>Model Details</h3>
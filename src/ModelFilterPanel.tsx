@@ -0,0 +1,138 @@
+import { useMemo } from "react";
+import type { FC, ReactNode } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { Model } from "../shared/global";
+import { parseModelFilter, searchParamChangeHandler, type ModelFilter } from "./utils";
+
+/**
+ * URL parameters of the filter panel, the text filter `q` lives in the navigation bar.
+ */
+const panelParams: (keyof ModelFilter)[] = [
+  "provider",
+  "modality",
+  "tokenizer",
+  "instruct",
+  "minContext",
+  "maxContext",
+  "minPrice",
+  "maxPrice",
+  "pricing",
+  "moderated",
+];
+
+/**
+ * Collects the distinct values of a model property, sorted for display in a select.
+ * @param models - The models to collect the values from.
+ * @param value - Extracts the value from a model.
+ * @returns - The sorted distinct values.
+ */
+const distinctValues = (models: Model[], value: (model: Model) => string): string[] =>
+  [...new Set(models.map(value))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Properties for the ModelFilterPanel component.
+ */
+export interface ModelFilterPanelProps {
+  /** The models offered as choices for the select fields. */
+  models: Model[];
+}
+
+/**
+ * ModelFilterPanel component displays the structured filter fields for the model list.
+ * All values are stored in the URL, so filtered views can be bookmarked and shared.
+ * @param props - The properties of the ModelFilterPanel component.
+ * @returns The ModelFilterPanel component.
+ */
+export const ModelFilterPanel: FC<ModelFilterPanelProps> = ({
+  models,
+}: ModelFilterPanelProps): ReactNode => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = parseModelFilter(searchParams);
+  const active = panelParams.filter((param) => filter[param] !== undefined).length;
+
+  const choices = useMemo(
+    () => ({
+      provider: distinctValues(models, (model) => model.id.split("/")[0]),
+      modality: distinctValues(models, (model) => model.architecture.modality),
+      tokenizer: distinctValues(models, (model) => model.architecture.tokenizer),
+      instruct: distinctValues(models, (model) => model.architecture.instruct_type ?? "none"),
+    }),
+    [models]
+  );
+
+  const handleChange = searchParamChangeHandler(setSearchParams);
+
+  /**
+   * Removes all panel fields from the URL, keeps the text filter.
+   */
+  const handleReset = () => {
+    setSearchParams(
+      (prevParams) => {
+        panelParams.forEach((param) => prevParams.delete(param));
+        return prevParams;
+      },
+      { replace: true }
+    );
+  };
+
+  /**
+   * Renders a select field with an "any" option.
+   * @param param - The name of the URL parameter.
+   * @param label - The label of the field.
+   * @param options - The choices of the field.
+   * @returns - The select field.
+   */
+  const selectField = (param: string, label: string, options: string[]): ReactNode => (
+    <label key={param}>
+      {label}
+      <select value={searchParams.get(param) ?? ""} onChange={handleChange(param)}>
+        <option value="">any</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  /**
+   * Renders a number field.
+   * @param param - The name of the URL parameter.
+   * @param label - The label of the field.
+   * @returns - The number field.
+   */
+  const numberField = (param: string, label: string): ReactNode => (
+    <label key={param}>
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={searchParams.get(param) ?? ""}
+        placeholder="any"
+        onChange={handleChange(param)}
+      />
+    </label>
+  );
+
+  return (
+    <details className="filter-panel" open={active > 0}>
+      <summary>Filters{active > 0 && ` (${active} active)`}</summary>
+      <form className="filter-form" onSubmit={(event) => event.preventDefault()}>
+        {selectField("provider", "Provider", choices.provider)}
+        {selectField("modality", "Modality", choices.modality)}
+        {selectField("tokenizer", "Tokenizer", choices.tokenizer)}
+        {selectField("instruct", "Instruct", choices.instruct)}
+        {numberField("minContext", "Minimum context")}
+        {numberField("maxContext", "Maximum context")}
+        {numberField("minPrice", "Minimum $/MT output")}
+        {numberField("maxPrice", "Maximum $/MT output")}
+        {selectField("pricing", "Pricing", ["free", "paid"])}
+        {selectField("moderated", "Moderated", ["yes", "no"])}
+        <button type="button" disabled={active === 0} onClick={handleReset}>
+          Reset
+        </button>
+      </form>
+    </details>
+  );
+};
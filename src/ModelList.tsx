@@ -1,10 +1,18 @@
 import { useContext, useEffect, useState, useCallback, type FC, ReactNode } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import DataTable, { type Selector, type TableColumn } from "react-data-table-component";
 import type { Model } from "../shared/global";
 import { GlobalContext } from "./GlobalState";
-import { showPricePerMillion, durationAgo } from "./utils";
+import {
+  showPricePerMillion,
+  durationAgo,
+  parseModelFilter,
+  matchesModelFilter,
+  setSearchParam,
+} from "./utils";
 import { FilterComponent } from "./FilterComponent";
+import { ModelFilterPanel } from "./ModelFilterPanel";
+import { WatchButton } from "./WatchButton";
 
 /**
  * Rounds a number to the nearest kilobyte (kB) if it's greater than or equal to 1024.
@@ -70,6 +78,11 @@ const customSort = (rows: Model[], selector: Selector<Model>, direction: string)
  * Defines the columns for the DataTable component.
  */
 const columns: TableColumn<Model>[] = [
+  {
+    name: "",
+    cell: (row) => <WatchButton id={row.id} />,
+    width: "3em",
+  },
   {
     name: "ID",
     selector: (row) => row.id,
@@ -167,25 +180,30 @@ export interface ModelListProps {
 export const ModelList: FC<ModelListProps> = ({ removed }: ModelListProps): ReactNode => {
   const navigate = useNavigate();
   const { globalLists, globalClient } = useContext(GlobalContext);
-  const [filteredModels, setFilteredModels] = useState<Model[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filterText, setFilterText] = useState(searchParams.get("q") ?? "");
+  const [selectedModels, setSelectedModels] = useState<Model[]>([]);
+
+  const models = removed ? globalLists.state.removed : globalLists.state.models;
+  const filteredModels = models.filter((model) =>
+    matchesModelFilter(model, { ...parseModelFilter(searchParams), q: filterText.trim() })
+  );
 
   /**
-   * A callback function that filters the models based on the provided filter text.
-   * @param filterText - The text to filter the models by.
+   * A callback function that receives the text typed into the FilterComponent.
+   * @param text - The text to filter the models by.
    */
-  const filterModels = useCallback(
-    (filterText: string) =>
-      setFilteredModels(
-        removed
-          ? globalLists.state.removed.filter(
-              (item) => item.id && item.id.toLowerCase().includes(filterText.toLowerCase())
-            )
-          : globalLists.state.models.filter(
-              (item) => item.id && item.id.toLowerCase().includes(filterText.toLowerCase())
-            )
-      ),
-    [removed, globalLists.state.models, globalLists.state.removed]
-  );
+  const filterModels = useCallback((text: string) => setFilterText(text), []);
+
+  /**
+   * A useEffect hook that keeps the filter text in the URL, so the view can be bookmarked.
+   */
+  useEffect(() => {
+    if (filterText === (searchParams.get("q") ?? "")) {
+      return;
+    }
+    setSearchParams((prevParams) => setSearchParam(prevParams, "q", filterText), { replace: true });
+  }, [filterText]);
 
   /**
    * A useEffect hook that updates the navBarDynamicElement in the globalClient state.
@@ -194,7 +212,7 @@ export const ModelList: FC<ModelListProps> = ({ removed }: ModelListProps): Reac
   useEffect(() => {
     globalClient.setState((prevState) => ({
       ...prevState,
-      navBarDynamicElement: <FilterComponent filter={filterModels} />,
+      navBarDynamicElement: <FilterComponent filter={filterModels} initialText={filterText} />,
     }));
   }, [filterModels]);
 
@@ -205,15 +223,33 @@ export const ModelList: FC<ModelListProps> = ({ removed }: ModelListProps): Reac
           Models no longer available on OpenRouter or renamed:
         </h2>
       )}
+      <ModelFilterPanel models={models} />
+      {selectedModels.length > 0 && (
+        <div className="compare-bar">
+          <button
+            type="button"
+            disabled={selectedModels.length < 2}
+            onClick={() =>
+              navigate(
+                `/compare?ids=${selectedModels.map((model) => encodeURIComponent(model.id)).join(",")}`
+              )
+            }
+          >
+            Compare {selectedModels.length} models
+          </button>
+        </div>
+      )}
       <DataTable
         columns={columns}
         data={filteredModels}
         onRowClicked={(row) => {
           return navigate(`/model?id=${row.id}`);
         }}
+        selectableRows
+        onSelectedRowsChange={({ selectedRows }) => setSelectedModels(selectedRows)}
         dense
         highlightOnHover
-        defaultSortFieldId={3}
+        defaultSortFieldId={4}
         theme="dark"
         sortFunction={customSort}
         defaultSortAsc={false}
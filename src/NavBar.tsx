@@ -3,22 +3,32 @@ import { NavLink } from "react-router-dom";
 import { GlobalContext } from "./GlobalState";
 import { DateTime } from "luxon";
 import { VERSION } from "../shared/constants";
+import { unseenChanges } from "./watchlist";
 
 /**
  * NavBar component displays the navigation bar of the application.
- * It includes links to the GitHub repository, models, changes, and RSS feed.
+ * It includes links to the GitHub repository, models, changes, RSS feed and cost estimator,
+ * and a badge counting the unseen changes of watched models.
  * It also displays information about the last database change, active models,
  * removed models, recorded changes, and the version of the application.
  * @returns The NavBar component.
  */
 export const NavBar: FC = (): ReactNode => {
-  const { globalStatus, globalLists, globalClient } = useContext(GlobalContext);
+  const { globalStatus, globalLists, globalClient, globalWatchlist } = useContext(GlobalContext);
 
   /**
    * The timestamp of the last change in the database.
    */
   const dbfirstChangeTimestamp: string = globalLists.state.changes.at(-1)?.timestamp ?? "";
 
+  /**
+   * The number of changes of watched models since the last visit of the change list.
+   */
+  const unseenCount: number = unseenChanges(
+    globalLists.state.changes,
+    globalWatchlist.state
+  ).length;
+
   return (
     <nav>
       <ul>
@@ -47,10 +57,24 @@ export const NavBar: FC = (): ReactNode => {
           <NavLink to="/changes" className={({ isActive }) => (isActive ? "active" : "")}>
             Changes
           </NavLink>
+          {unseenCount > 0 && (
+            <NavLink
+              to="/changes?watched=1"
+              className="watch-badge"
+              title={`${unseenCount} new changes of watched models`}
+            >
+              {unseenCount}
+            </NavLink>
+          )}
           <a href="/rss" className="button-link rss-link">
             <img className="image-link" src="/rss.svg" alt="RSS Feeed" width="16" height="16" />
           </a>
         </li>
+        <li>
+          <NavLink to="/costs" className={({ isActive }) => (isActive ? "active" : "")}>
+            Costs
+          </NavLink>
+        </li>
         <li className="dynamic-element">{globalClient.state.navBarDynamicElement}</li>
         <li className="info-container">
           Last DB change:
@@ -0,0 +1,116 @@
+import { FC, ReactNode } from "react";
+import type { PriceHistory, PricePoint } from "../shared/global";
+import { dateString, showPrice } from "./utils";
+
+/**
+ * Price fields shown in the chart, with the factor and unit used for display.
+ */
+const priceSeries: {
+  field: keyof Omit<PricePoint, "timestamp">;
+  label: string;
+  factor: number;
+  unit: string;
+}[] = [
+  { field: "prompt", label: "Input", factor: 1_000_000, unit: "per million tokens" },
+  { field: "completion", label: "Output", factor: 1_000_000, unit: "per million tokens" },
+  { field: "request", label: "Request", factor: 1_000, unit: "per thousand requests" },
+  { field: "image", label: "Image", factor: 1_000, unit: "per thousand images" },
+];
+
+const WIDTH = 600;
+const HEIGHT = 100;
+const PADDING = 4;
+
+/**
+ * Properties for PriceChart component.
+ */
+export interface PriceChartProps {
+  /** The price history of the model. */
+  history: PriceHistory;
+}
+
+/**
+ * PriceChart component draws a step chart for every price of a model that was ever above zero.
+ * Each chart has its own scale, gaps mark the times the model was not listed.
+ * @param props - The properties of the PriceChart component.
+ * @returns The price chart component.
+ */
+export const PriceChart: FC<PriceChartProps> = ({ history }: PriceChartProps): ReactNode => {
+  const { points } = history;
+  if (points.length === 0) {
+    return <></>;
+  }
+  const start = Date.parse(points[0].timestamp);
+  const end = Math.max(Date.now(), Date.parse(points.at(-1)!.timestamp));
+  const x = (timestamp: string) =>
+    PADDING + ((Date.parse(timestamp) - start) / Math.max(end - start, 1)) * (WIDTH - 2 * PADDING);
+
+  const charts = priceSeries
+    .map((series) => ({
+      ...series,
+      max: Math.max(0, ...points.map((point) => point[series.field] ?? 0)),
+    }))
+    .filter((series) => series.max > 0);
+
+  if (charts.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <>
+      <h3>Price History</h3>
+      {charts.map(({ field, label, factor, unit, max }) => {
+        const y = (value: number) =>
+          HEIGHT - PADDING - (value / (max * 1.1)) * (HEIGHT - 2 * PADDING);
+        // Draw a horizontal line for every point until the next one, skip unlisted periods
+        let path = "";
+        points.forEach((point, index) => {
+          const value = point[field];
+          if (value === null) {
+            return;
+          }
+          const next = points[index + 1];
+          const nextX = next ? x(next.timestamp) : WIDTH - PADDING;
+          const previous = points[index - 1];
+          const command = previous && previous[field] !== null ? "L" : "M";
+          path += `${command}${x(point.timestamp)},${y(value)} H${nextX} `;
+        });
+        return (
+          <div key={field} className="price-chart">
+            <p>
+              {label}: <b>{showPrice(max.toString(), factor, unit)}</b> max
+            </p>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              role="img"
+              aria-label={`${label} price history`}
+            >
+              <line className="price-chart-axis" x1={0} y1={y(0)} x2={WIDTH} y2={y(0)} />
+              <path className="price-chart-line" d={path} />
+              {points.map((point) =>
+                point[field] === null ? null : (
+                  <circle
+                    key={point.timestamp}
+                    className="price-chart-point"
+                    cx={x(point.timestamp)}
+                    cy={y(point[field]!)}
+                    r={3}
+                  >
+                    <title>
+                      {dateString(point.timestamp)}:{" "}
+                      {showPrice(point[field]!.toString(), factor, unit)}
+                    </title>
+                  </circle>
+                )
+              )}
+            </svg>
+            <p className="price-chart-range">
+              <span>{dateString(points[0].timestamp)}</span>
+              <span>now</span>
+            </p>
+          </div>
+        );
+      })}
+    </>
+  );
+};
@@ -0,0 +1,76 @@
+import { useContext, useEffect, useState } from "react";
+import type { FC, ReactNode } from "react";
+import { Link } from "react-router-dom";
+import type { ModelDiff } from "../shared/global";
+import { GlobalContext } from "./GlobalState";
+import { ChangeSnippet } from "./ChangeSnippet";
+import { dateStringDuration } from "./utils";
+
+/**
+ * RunDetail component displays all changes detected by a single API check run.
+ * It reads the changes from the global context and groups them by change type.
+ * @returns The RunDetail component.
+ */
+export const RunDetail: FC = (): ReactNode => {
+  const [run, setRun] = useState<number | null>(null);
+  const [changes, setChanges] = useState<ModelDiff[]>([]);
+  const { globalStatus, globalLists, globalClient, globalError } = useContext(GlobalContext);
+
+  useEffect(() => {
+    globalClient.setState((prevState) => ({
+      ...prevState,
+      navBarDynamicElement: (
+        <>
+          <span className="dynamic-element"></span>
+        </>
+      ),
+    }));
+  }, []);
+
+  useEffect(() => {
+    if (!globalStatus.state.isValid) {
+      // No point in doing anything, if the data is not valid.
+      return;
+    }
+    const urlParams = new URLSearchParams(window.location.search);
+    const id = parseInt(urlParams.get("id") ?? "", 10);
+    if (!id) {
+      globalError.setState("No check run ID provided.");
+      return;
+    }
+    const foundChanges: ModelDiff[] = globalLists.state.changes.filter((obj) => obj.run === id);
+    if (foundChanges.length === 0) {
+      globalError.setState("No changes recorded for this check run.");
+      return;
+    }
+    setRun(id);
+    setChanges(foundChanges);
+  }, [globalLists.state.changes, globalStatus.state.isValid]);
+
+  if (!run) {
+    return <></>;
+  }
+
+  return (
+    <div className="change-list">
+      <h3>
+        Check run #{run} at {dateStringDuration(changes[0].timestamp)}: {changes.length} changes
+      </h3>
+      {(["added", "removed", "changed"] as const).map((type) =>
+        changes
+          .filter((change) => change.type === type)
+          .map((change) => (
+            <div key={change.id} className="change-entry">
+              <p>
+                <Link to={`/model?id=${change.id}`}>
+                  <b>{change.id}</b>
+                </Link>{" "}
+                {change.type}
+              </p>
+              <ChangeSnippet change={change} hideTypes={["removed"]} />
+            </div>
+          ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { useContext } from "react";
+import type { FC, MouseEvent, ReactNode } from "react";
+import { GlobalContext } from "./GlobalState";
+
+/**
+ * Properties for the WatchButton component.
+ */
+export interface WatchButtonProps {
+  /** The id of the model. */
+  id: string;
+}
+
+/**
+ * WatchButton component displays a star that adds or removes a model from the watchlist.
+ * @param props - The properties of the WatchButton component.
+ * @returns The WatchButton component.
+ */
+export const WatchButton: FC<WatchButtonProps> = ({ id }: WatchButtonProps): ReactNode => {
+  const { globalLists, globalWatchlist } = useContext(GlobalContext);
+  const watched = globalWatchlist.state.ids.includes(id);
+
+  /**
+   * Toggles the model on the watchlist.
+   * @param event - The click event, it must not reach table rows.
+   */
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation();
+    globalWatchlist.setState((prevState) => ({
+      ids: watched
+        ? prevState.ids.filter((watchedId) => watchedId !== id)
+        : [...prevState.ids, id].sort(),
+      // Only changes after the first watched model count as unseen
+      lastSeen: prevState.lastSeen || (globalLists.state.changes[0]?.timestamp ?? ""),
+    }));
+  };
+
+  return (
+    <button
+      type="button"
+      className={watched ? "watch-button watched" : "watch-button"}
+      title={watched ? "Remove from watchlist" : "Add to watchlist"}
+      aria-pressed={watched}
+      onClick={handleClick}
+    >
+      {watched ? "★" : "☆"}
+    </button>
+  );
+};
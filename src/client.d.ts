@@ -26,3 +26,13 @@ export interface GlobalError {
   /** The error message. */
   message: string;
 }
+
+/**
+ * Represents the watchlist of the user, stored in the browser.
+ */
+export interface Watchlist {
+  /** The ids of the watched models. */
+  ids: string[];
+  /** The timestamp of the newest change when the change list was last visited. */
+  lastSeen: string;
+}
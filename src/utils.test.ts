@@ -0,0 +1,101 @@
+// utils.test.ts
+import { describe, test, expect } from "vitest";
+import { estimateCost, matchesModelFilter, parseModelFilter, setSearchParam } from "./utils";
+import type { Model } from "../shared/global";
+
+describe("utils", () => {
+  const model: Model = {
+    id: "openai/gpt-4o",
+    name: "OpenAI: GPT-4o",
+    description: "The flagship multimodal model",
+    pricing: { prompt: "0.000005", completion: "0.000015", request: "0", image: "0.007225" },
+    context_length: 128000,
+    architecture: { modality: "text+image->text", tokenizer: "GPT", instruct_type: null },
+    top_provider: { max_completion_tokens: 4096, is_moderated: true },
+    per_request_limits: null,
+  };
+
+  const free: Model = {
+    ...model,
+    id: "meta-llama/llama-3-8b-instruct:free",
+    name: "Meta: Llama 3 8B Instruct (free)",
+    pricing: { prompt: "0", completion: "0", request: "0", image: "0" },
+    context_length: 8192,
+    architecture: { modality: "text->text", tokenizer: "Llama3", instruct_type: "llama3" },
+    top_provider: { max_completion_tokens: null, is_moderated: false },
+  };
+
+  // Routes to other models, the price is only known afterwards
+  const auto: Model = {
+    ...model,
+    id: "openrouter/auto",
+    name: "Auto (best for prompt)",
+    pricing: { prompt: "-1", completion: "-1", request: "-1", image: "-1" },
+  };
+
+  const workload = { prompt: 1_000_000, completion: 100_000, requests: 10, images: 2 };
+
+  test("should estimate the cost of a workload", () => {
+    expect(estimateCost(model, workload)).toBeCloseTo(5 + 1.5 + 0.01445);
+    expect(estimateCost(free, workload)).toBe(0);
+  });
+
+  test("should not estimate the cost of models without fixed prices", () => {
+    expect(estimateCost(auto, workload)).toBeNull();
+    expect(
+      estimateCost({ ...model, pricing: { ...model.pricing, image: "" } }, workload)
+    ).toBeNull();
+  });
+
+  test("should parse model filters and ignore invalid values", () => {
+    const params = new URLSearchParams(
+      "q=+gpt+&provider=openai&minContext=8000&maxPrice=20&pricing=paid&moderated=yes"
+    );
+    expect(parseModelFilter(params)).toEqual({
+      q: "gpt",
+      provider: "openai",
+      minContext: 8000,
+      maxPrice: 20,
+      pricing: "paid",
+      moderated: "yes",
+    });
+    expect(
+      parseModelFilter(
+        new URLSearchParams("modality=&minContext=-1&maxContext=many&pricing=cheap&moderated=1")
+      )
+    ).toEqual({});
+  });
+
+  test("should match models against all filter fields", () => {
+    expect(matchesModelFilter(model, {})).toBe(true);
+    expect(matchesModelFilter(model, { q: "FLAGSHIP gpt" })).toBe(true);
+    expect(matchesModelFilter(model, { q: "gpt llama" })).toBe(false);
+    expect(matchesModelFilter(model, { provider: "openai" })).toBe(true);
+    expect(matchesModelFilter(model, { provider: "open" })).toBe(false);
+    expect(matchesModelFilter(free, { instruct: "llama3", tokenizer: "Llama3" })).toBe(true);
+    expect(matchesModelFilter(model, { instruct: "none" })).toBe(true);
+    expect(matchesModelFilter(model, { minContext: 128000, maxContext: 128000 })).toBe(true);
+    expect(matchesModelFilter(free, { minContext: 16000 })).toBe(false);
+    expect(matchesModelFilter(model, { minPrice: 10, maxPrice: 15 })).toBe(true);
+    expect(matchesModelFilter(model, { maxPrice: 10 })).toBe(false);
+    expect(matchesModelFilter(free, { pricing: "free", moderated: "no" })).toBe(true);
+    expect(matchesModelFilter(model, { pricing: "free" })).toBe(false);
+  });
+
+  test("should not match models with negative prices by price", () => {
+    expect(matchesModelFilter(auto, { maxPrice: 100 })).toBe(false);
+    expect(matchesModelFilter(auto, { minPrice: 0 })).toBe(false);
+    expect(matchesModelFilter(auto, { pricing: "free" })).toBe(false);
+    expect(matchesModelFilter(auto, { pricing: "paid" })).toBe(true);
+    expect(matchesModelFilter(auto, { provider: "openrouter" })).toBe(true);
+  });
+
+  test("should remove URL parameters set to an empty value", () => {
+    const params = new URLSearchParams("q=gpt&provider=openai");
+
+    expect(setSearchParam(params, "minContext", "8000").toString()).toBe(
+      "q=gpt&provider=openai&minContext=8000"
+    );
+    expect(setSearchParam(params, "provider", "").toString()).toBe("q=gpt&minContext=8000");
+  });
+});
@@ -1,6 +1,8 @@
 import { DateTime, Duration } from "luxon";
 import { toHumanDurationExtended } from "@kitsuyui/luxon-ext";
-import { ReactNode } from "react";
+import type { ChangeEvent, ReactNode } from "react";
+import type { SetURLSearchParams } from "react-router-dom";
+import type { Model } from "../shared/global";
 
 /**
  * Converts a timestamp string to a formatted date string.
@@ -13,7 +15,7 @@ export const dateString = (timestamp: string): string =>
 /**
  * Calculates the duration between the current time and a given timestamp.
  * @param timestamp - The timestamp to calculate the duration to.
- * @param until - If true, calculates the duration until the timestamp.
+ * @param until - If true, calculates the duration until the timestamp, which lies in the future.
  * @returns The formatted duration string.
  */
 export const durationAgo = (timestamp: DateTime | string, until: boolean = false): string => {
@@ -23,7 +25,7 @@ export const durationAgo = (timestamp: DateTime | string, until: boolean = false
   if (DateTime.isDateTime(timestamp)) {
     let duration: Duration;
     if (until) {
-      duration = timestamp.setLocale("en-us").plus({ hours: 1 }).diffNow();
+      duration = timestamp.setLocale("en-us").diffNow();
       if (duration.toMillis() < 0) {
         return "[now]";
       }
@@ -86,3 +88,187 @@ export const showPricePerMillion = (floatString: string, unit?: string): string
  */
 export const showPricePerThousand = (floatString: string, unit?: string): string =>
   showPrice(floatString, 1_000, unit ? "per thousand " + unit : "");
+
+/**
+ * Represents an expected workload, e.g. per month.
+ */
+export interface Workload {
+  /** Number of prompt (input) tokens. */
+  prompt: number;
+  /** Number of completion (output) tokens. */
+  completion: number;
+  /** Number of requests. */
+  requests: number;
+  /** Number of images. */
+  images: number;
+}
+
+/**
+ * Calculates the cost of a workload for a model.
+ * @param model - The model with its pricing.
+ * @param workload - The expected workload.
+ * @returns The cost in dollars or null if the model has no fixed prices (e.g. openrouter/auto).
+ */
+export const estimateCost = (model: Model, workload: Workload): number | null => {
+  const prices = [
+    model.pricing.prompt,
+    model.pricing.completion,
+    model.pricing.request,
+    model.pricing.image,
+  ].map((price) => parseFloat(price));
+  if (prices.some((price) => isNaN(price) || price < 0)) {
+    return null;
+  }
+  const [prompt, completion, request, image] = prices;
+  return (
+    workload.prompt * prompt +
+    workload.completion * completion +
+    workload.requests * request +
+    workload.images * image
+  );
+};
+
+/**
+ * Represents the structured filter of the model list, every field is optional.
+ * The fields are stored under the same names in the URL.
+ */
+export interface ModelFilter {
+  /** Words that must all appear in the ID, name or description. */
+  q?: string;
+  /** The provider, matched as prefix of the ID. */
+  provider?: string;
+  /** The modality, e.g. "text+image-\>text". */
+  modality?: string;
+  /** The tokenizer, e.g. "Llama3". */
+  tokenizer?: string;
+  /** The instruct type, "none" matches models without one. */
+  instruct?: string;
+  /** Minimum context length in tokens. */
+  minContext?: number;
+  /** Maximum context length in tokens. */
+  maxContext?: number;
+  /** Minimum output price in dollars per million tokens. */
+  minPrice?: number;
+  /** Maximum output price in dollars per million tokens. */
+  maxPrice?: number;
+  /** Only free models, or only paid models. */
+  pricing?: "free" | "paid";
+  /** Only moderated models, or only unmoderated models. */
+  moderated?: "yes" | "no";
+}
+
+/**
+ * Reads a model filter from URL parameters, invalid values are ignored.
+ * @param params - The URL parameters.
+ * @returns The model filter.
+ */
+export const parseModelFilter = (params: URLSearchParams): ModelFilter => {
+  const filter: ModelFilter = {};
+  for (const key of ["q", "provider", "modality", "tokenizer", "instruct"] as const) {
+    const value = params.get(key)?.trim();
+    if (value) {
+      filter[key] = value;
+    }
+  }
+  for (const key of ["minContext", "maxContext", "minPrice", "maxPrice"] as const) {
+    const value = parseFloat(params.get(key) ?? "");
+    if (!isNaN(value) && value >= 0) {
+      filter[key] = value;
+    }
+  }
+  const pricing = params.get("pricing");
+  if (pricing === "free" || pricing === "paid") {
+    filter.pricing = pricing;
+  }
+  const moderated = params.get("moderated");
+  if (moderated === "yes" || moderated === "no") {
+    filter.moderated = moderated;
+  }
+  return filter;
+};
+
+/**
+ * Checks whether a model matches all fields of a model filter.
+ * @param model - The model to check.
+ * @param filter - The model filter.
+ * @returns True if the model matches.
+ */
+export const matchesModelFilter = (model: Model, filter: ModelFilter): boolean => {
+  if (filter.q) {
+    const text = [model.id, model.name, model.description].join("\n").toLowerCase();
+    const words = filter.q.toLowerCase().split(/\s+/);
+    if (!words.every((word) => text.includes(word))) {
+      return false;
+    }
+  }
+  if (filter.provider && !model.id.startsWith(filter.provider + "/")) {
+    return false;
+  }
+  if (filter.modality && model.architecture.modality !== filter.modality) {
+    return false;
+  }
+  if (filter.tokenizer && model.architecture.tokenizer !== filter.tokenizer) {
+    return false;
+  }
+  if (filter.instruct && (model.architecture.instruct_type ?? "none") !== filter.instruct) {
+    return false;
+  }
+  if (filter.minContext !== undefined && model.context_length < filter.minContext) {
+    return false;
+  }
+  if (filter.maxContext !== undefined && model.context_length > filter.maxContext) {
+    return false;
+  }
+  // Negative prices (e.g. for openrouter/auto) do not fall into any price range
+  const price = parseFloat(model.pricing.completion) * 1_000_000;
+  if (filter.minPrice !== undefined && !(price >= filter.minPrice)) {
+    return false;
+  }
+  if (filter.maxPrice !== undefined && !(price >= 0 && price <= filter.maxPrice)) {
+    return false;
+  }
+  if (filter.pricing) {
+    const free = estimateCost(model, { prompt: 1, completion: 1, requests: 1, images: 1 }) === 0;
+    if (free !== (filter.pricing === "free")) {
+      return false;
+    }
+  }
+  if (filter.moderated && model.top_provider.is_moderated !== (filter.moderated === "yes")) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Sets a URL parameter, empty values remove it.
+ * @param params - The URL parameters, they get changed.
+ * @param name - The name of the URL parameter.
+ * @param value - The new value.
+ * @returns The changed URL parameters.
+ */
+export const setSearchParam = (
+  params: URLSearchParams,
+  name: string,
+  value: string
+): URLSearchParams => {
+  if (value === "") {
+    params.delete(name);
+  } else {
+    params.set(name, value);
+  }
+  return params;
+};
+
+/**
+ * Creates change handlers for form fields that keep their value in the URL, empty fields get removed.
+ * Changes replace the current history entry, so typing does not flood the history.
+ * @param setSearchParams - The setter of useSearchParams.
+ * @returns A function creating the change handler for a URL parameter.
+ */
+export const searchParamChangeHandler =
+  (setSearchParams: SetURLSearchParams) =>
+  (param: string) =>
+  (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setSearchParams((prevParams) => setSearchParam(prevParams, param, event.target.value), {
+      replace: true,
+    });
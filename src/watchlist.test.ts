@@ -0,0 +1,31 @@
+// watchlist.test.ts
+import { describe, test, expect } from "vitest";
+import { markChangesSeen, unseenChanges } from "./watchlist";
+import type { ModelDiff } from "../shared/global";
+
+describe("watchlist", () => {
+  const changes: ModelDiff[] = [
+    { id: "openai/gpt-4o", type: "changed", timestamp: "2024-05-14T12:00:00.000Z" },
+    { id: "anthropic/claude-3-haiku", type: "added", timestamp: "2024-05-13T12:00:00.000Z" },
+    { id: "openai/gpt-4o", type: "added", timestamp: "2024-05-12T12:00:00.000Z" },
+  ];
+
+  test("should count the changes of watched models since the last visit as unseen", () => {
+    const watchlist = { ids: ["openai/gpt-4o"], lastSeen: "2024-05-13T00:00:00.000Z" };
+
+    expect(unseenChanges(changes, watchlist)).toEqual([changes[0]]);
+    expect(unseenChanges(changes, { ...watchlist, ids: [] })).toEqual([]);
+  });
+
+  test("should mark changes as seen up to the newest one", () => {
+    const watchlist = { ids: ["openai/gpt-4o"], lastSeen: "2024-05-13T00:00:00.000Z" };
+
+    const seen = markChangesSeen(watchlist, changes);
+
+    expect(seen).toEqual({ ids: ["openai/gpt-4o"], lastSeen: "2024-05-14T12:00:00.000Z" });
+    expect(unseenChanges(changes, seen)).toEqual([]);
+    // Nothing new, the watchlist stays the same and doesn't get stored again
+    expect(markChangesSeen(seen, changes)).toBe(seen);
+    expect(markChangesSeen(watchlist, [])).toBe(watchlist);
+  });
+});
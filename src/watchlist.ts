@@ -0,0 +1,67 @@
+import type { Watchlist } from "./client";
+import type { ModelDiff } from "../shared/global";
+
+/**
+ * The key of the watchlist in the local storage.
+ */
+export const WATCHLIST_KEY = "orw-watchlist";
+
+/**
+ * Loads the watchlist from the local storage.
+ * @returns - The stored watchlist or an empty one if nothing (valid) was stored.
+ */
+export const loadWatchlist = (): Watchlist => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WATCHLIST_KEY) ?? "{}");
+    return {
+      ids: Array.isArray(stored.ids)
+        ? stored.ids.filter((id: unknown) => typeof id === "string")
+        : [],
+      lastSeen: typeof stored.lastSeen === "string" ? stored.lastSeen : "",
+    };
+  } catch {
+    return { ids: [], lastSeen: "" };
+  }
+};
+
+/**
+ * Stores the watchlist in the local storage.
+ * @param watchlist - The watchlist to store.
+ */
+export const saveWatchlist = (watchlist: Watchlist) => {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+  } catch (err) {
+    console.error(`Error storing watchlist: ${err}`);
+  }
+};
+
+/**
+ * Builds the query string filtering the feeds and the changes API to the watched models.
+ * @param ids - The ids of the watched models.
+ * @returns - The query string, e.g. `ids=openai%2Fgpt-4o,anthropic%2Fclaude-3-opus`.
+ */
+export const watchlistQuery = (ids: string[]): string =>
+  `ids=${[...ids].sort().map(encodeURIComponent).join(",")}`;
+
+/**
+ * Finds the changes of watched models that were not marked as seen yet.
+ * @param changes - The changes, newest first.
+ * @param watchlist - The watchlist.
+ * @returns - The unseen changes of watched models.
+ */
+export const unseenChanges = (changes: ModelDiff[], watchlist: Watchlist): ModelDiff[] => {
+  const ids = new Set(watchlist.ids);
+  return changes.filter((change) => ids.has(change.id) && change.timestamp > watchlist.lastSeen);
+};
+
+/**
+ * Marks the changes of watched models as seen, e.g. after they got shown in the change list.
+ * @param watchlist - The watchlist.
+ * @param changes - The shown changes, newest first.
+ * @returns - The watchlist seen up to the newest change, the same watchlist if nothing is new.
+ */
+export const markChangesSeen = (watchlist: Watchlist, changes: ModelDiff[]): Watchlist => {
+  const newest = changes[0]?.timestamp;
+  return newest && newest > watchlist.lastSeen ? { ...watchlist, lastSeen: newest } : watchlist;
+};
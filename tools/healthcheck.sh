@@ -0,0 +1,32 @@
+#!/usr/bin/env bash
+
+# Restarts the orw service if its health endpoint fails, run by orw-healthcheck.timer
+
+dotenv_file="./.env.production.local"
+systemctl="systemctl --user --quiet"
+
+if [ -n "$ORW_HOME" ]; then
+    cd "$ORW_HOME" || (echo "cd $ORW_HOME failed" && exit 1)
+fi
+
+set -o allexport
+# shellcheck disable=SC1090
+source "$dotenv_file"
+set +o allexport
+
+## Only check a running service, give it ten minutes to install, build and start listening
+if ! $systemctl is-active orw; then
+    exit 0
+fi
+started=$($systemctl show orw --property=ActiveEnterTimestamp --value)
+if [ $(($(date +%s) - $(date -d "$started" +%s))) -lt 600 ]; then
+    exit 0
+fi
+
+## /healthz fails if the database is unreachable or the background loop died,
+## /readyz additionally fails on stale data, restarting would not fix that
+if ! curl --silent --show-error --fail --max-time 10 "http://localhost:${ORW_PORT}/healthz"; then
+    echo
+    echo "Health check failed, restarting orw"
+    $systemctl restart orw
+fi
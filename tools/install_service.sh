@@ -6,10 +6,12 @@ service_dir="$HOME/.config/systemd/user/"
 mkdir -p "$service_dir"
 
 cp "./tools/orw.service" "$service_dir"
+cp "./tools/orw-healthcheck.service" "./tools/orw-healthcheck.timer" "$service_dir"
 
 (
     $systemctl daemon-reload
     $systemctl enable orw
+    $systemctl enable --now orw-healthcheck.timer
     $systemctl is-enabled orw.service
 )
 